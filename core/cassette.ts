@@ -0,0 +1,97 @@
+/**
+ * 📼 Cassettes — Record & Replay for Whole Pipeline Runs
+ *
+ * A cassette directory holds everything a run fetched from the outside world:
+ *   search.json → every SearchProvider response (see fixtureSearchProvider),
+ *                 including enrichment lookups (videoDetails)
+ *   gemini.json → every generateContentWithFailover response (see geminiCassette)
+ *   transcripts.json → every TranscriptProvider response (see fixtureTranscriptProvider)
+ *
+ *   record → live providers + Gemini, responses written to the cassette
+ *   replay → everything served from the cassette; a miss is an error
+ *
+ * Transcripts are optional: a cassette without transcripts.json replays
+ * with no transcripts, and recording only writes one when a transcript
+ * provider is configured (TRANSCRIPT_PROVIDER).
+ *
+ * Used by test/e2e.ts for golden-file pipeline tests.
+ */
+
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import {
+    getSearchProvider,
+    setSearchProvider,
+    getEnrichmentProvider,
+    setEnrichmentProvider,
+    type SearchProvider,
+} from "./searchProvider.js";
+import { createFixtureSearchProvider, loadSearchFixtures } from "./fixtureSearchProvider.js";
+import { createRecordingSearchProvider } from "./recordingSearchProvider.js";
+import { setGeminiCassette, type CassetteMode } from "./geminiCassette.js";
+import {
+    createNoTranscriptProvider,
+    getTranscriptProvider,
+    setTranscriptProvider,
+    type TranscriptProvider,
+} from "./transcriptProvider.js";
+import {
+    createFixtureTranscriptProvider,
+    TRANSCRIPT_FIXTURES_FILE,
+} from "./fixtureTranscriptProvider.js";
+import { createRecordingTranscriptProvider } from "./recordingTranscriptProvider.js";
+
+export type { CassetteMode } from "./geminiCassette.js";
+
+/**
+ * Start recording to / replaying from a cassette directory.
+ * Installs the cassette's SearchProvider as the process default and
+ * returns it (so it can also be passed explicitly via BuildOptions).
+ */
+export function startCassette(dir: string, mode: CassetteMode): SearchProvider {
+    setSearchProvider(null); // Make sure we wrap the env-configured provider, not a previous cassette
+    setEnrichmentProvider(undefined);
+    setTranscriptProvider(null);
+
+    const provider = mode === "replay"
+        ? createFixtureSearchProvider(dir, { strict: true })
+        : createRecordingSearchProvider(getSearchProvider(), dir);
+
+    setSearchProvider(provider);
+    setEnrichmentProvider(cassetteEnrichmentProvider(dir, mode, provider));
+    setTranscriptProvider(cassetteTranscriptProvider(dir, mode));
+    setGeminiCassette({ mode, dir });
+
+    console.log(`📼 Cassette ${mode === "replay" ? "replaying" : "recording"}: ${dir}`);
+
+    return provider;
+}
+
+/**
+ * Stop the active cassette and go back to live providers.
+ */
+export function stopCassette(): void {
+    setSearchProvider(null);
+    setEnrichmentProvider(undefined);
+    setTranscriptProvider(null);
+    setGeminiCassette(null);
+}
+
+/** Enrichment lookups go through the cassette's provider (search.json videoDetails) */
+function cassetteEnrichmentProvider(dir: string, mode: CassetteMode, provider: SearchProvider): SearchProvider | null {
+    if (mode === "replay") {
+        return Object.keys(loadSearchFixtures(dir).videoDetails).length > 0 ? provider : null;
+    }
+    return getEnrichmentProvider() ? provider : null;
+}
+
+function cassetteTranscriptProvider(dir: string, mode: CassetteMode): TranscriptProvider {
+    if (mode === "replay") {
+        return existsSync(join(dir, TRANSCRIPT_FIXTURES_FILE))
+            ? createFixtureTranscriptProvider(dir, { strict: true })
+            : createNoTranscriptProvider();
+    }
+
+    const live = getTranscriptProvider();
+    return live.name === "none" ? live : createRecordingTranscriptProvider(live, dir);
+}
@@ -0,0 +1,127 @@
+/**
+ * 🧭 Chapter Parser — Timestamped Chapters From Video Descriptions
+ *
+ * Long lectures usually list their chapters in the description. We
+ * accept the formats creators actually use:
+ *
+ *   0:00 Introduction            00:00:00 Introduction
+ *   [12:30] ER Diagrams          (12:30) ER Diagrams
+ *   12:30 - ER Diagrams          12:30 – 25:00 ER Diagrams   (ranges)
+ *   ER Diagrams - 12:30          • 12:30 ER Diagrams         (trailing / bullets)
+ *
+ * VALIDATION: markers must be strictly increasing and inside the video's
+ * duration; anything else is dropped. Fewer than MIN_CHAPTERS surviving
+ * markers means "no chapter list" (a stray "see 12:30" isn't one).
+ *
+ * Providers attach the result to VideoCandidate.chapters (withChapters),
+ * so the engine can treat one long video as several topic segments.
+ *
+ * Pure string work — zero API calls.
+ */
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface VideoChapter {
+    title: string;
+    startSeconds: number;
+    endSeconds: number;         // Next chapter's start, or the end of the video
+}
+
+// ═══════════════════════════════════════════════════════════════
+// CONFIG
+// ═══════════════════════════════════════════════════════════════
+
+/** Fewer markers than this is a stray timestamp, not a chapter list */
+const MIN_CHAPTERS = 2;
+
+const TIMESTAMP = String.raw`(?:\d{1,2}:)?\d{1,2}:\d{2}`;
+const BULLET = String.raw`(?:[-*•▶►]\s*)?`;
+const SEPARATOR = String.raw`(?:[-–—:|]\s*)?`;
+
+/** Timestamp first, optionally bracketed or a range: "[12:30] Title", "12:30 - 25:00 Title" */
+const LEADING_MARKER = new RegExp(
+    String.raw`^\s*${BULLET}[\[(]?(${TIMESTAMP})[\])]?(?:\s*[-–—]\s*${TIMESTAMP})?\s*${SEPARATOR}(.+?)\s*$`
+);
+
+/** Title first: "ER Diagrams - 12:30", "ER Diagrams (12:30)" */
+const TRAILING_MARKER = new RegExp(
+    String.raw`^\s*${BULLET}(.+?)\s*${SEPARATOR}[\[(]?(${TIMESTAMP})[\])]?\s*$`
+);
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Chapters from a description, in order, validated against the
+ * video's duration. Unknown duration (0) → no chapters.
+ */
+export function parseChapters(description: string, durationSeconds: number): VideoChapter[] {
+    if (!description || durationSeconds <= 0) return [];
+
+    const markers: { title: string; startSeconds: number }[] = [];
+
+    for (const line of description.split(/\r?\n/)) {
+        const marker = parseMarker(line);
+        if (!marker) continue;
+
+        const previous = markers[markers.length - 1];
+        if (marker.startSeconds >= durationSeconds) continue;
+        if (previous && marker.startSeconds <= previous.startSeconds) continue;
+
+        markers.push(marker);
+    }
+
+    if (markers.length < MIN_CHAPTERS) return [];
+
+    return markers.map((m, i) => ({
+        ...m,
+        endSeconds: markers[i + 1]?.startSeconds ?? durationSeconds,
+    }));
+}
+
+/**
+ * Copy of a video with `chapters` set from its description — only when
+ * it has a chapter list, so chapterless videos keep their shape.
+ */
+export function withChapters<T extends { description?: string; duration?: { seconds: number } }>(
+    video: T
+): T & { chapters?: VideoChapter[] } {
+    const chapters = parseChapters(video.description || "", video.duration?.seconds || 0);
+    return chapters.length > 0 ? { ...video, chapters } : video;
+}
+
+/**
+ * "1:05:00" / "12:30" → seconds, or null when it isn't a valid timestamp.
+ */
+export function parseChapterTimestamp(timestamp: string): number | null {
+    const parts = timestamp.split(":").map(Number);
+    if (parts.some(p => !Number.isInteger(p))) return null;
+
+    // Every part after the first is a 0-59 minute/second field
+    if (parts.slice(1).some(p => p > 59)) return null;
+
+    return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// INTERNAL
+// ═══════════════════════════════════════════════════════════════
+
+function parseMarker(line: string): { title: string; startSeconds: number } | null {
+    const leading = LEADING_MARKER.exec(line);
+    if (leading) {
+        const startSeconds = parseChapterTimestamp(leading[1]);
+        return startSeconds === null ? null : { title: leading[2], startSeconds };
+    }
+
+    const trailing = TRAILING_MARKER.exec(line);
+    if (trailing) {
+        const startSeconds = parseChapterTimestamp(trailing[2]);
+        return startSeconds === null ? null : { title: trailing[1], startSeconds };
+    }
+
+    return null;
+}
@@ -0,0 +1,121 @@
+/**
+ * 🚦 Concurrency — Worker Pools, Rate Limits & Retries
+ *
+ * Small, dependency-free primitives for running many network-bound tasks
+ * at once without hammering a single upstream:
+ *
+ *   mapWithConcurrency → run N tasks at a time, results keep input order
+ *   createRateLimiter  → minimum spacing between calls (shared per upstream)
+ *   withRetry          → exponential backoff with full jitter
+ */
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface RateLimiter {
+    /** Resolves when the caller may start its next request */
+    acquire(): Promise<void>;
+}
+
+export interface RetryOptions {
+    /** Extra attempts after the first one (0 = no retries) */
+    retries: number;
+    /** Backoff base — attempt n waits up to baseDelayMs × 2^n */
+    baseDelayMs: number;
+    /** Label for logs */
+    label?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// WORKER POOL
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Map over items with at most `concurrency` tasks in flight.
+ * Results are returned in input order regardless of completion order.
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    concurrency: number,
+    task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    const workerCount = Math.max(1, Math.min(Math.floor(concurrency) || 1, items.length));
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await task(items[index], index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: workerCount }, worker));
+    return results;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// RATE LIMITING
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Create a limiter that spaces requests at least 1/requestsPerSecond apart.
+ * A non-positive or infinite rate disables limiting.
+ */
+export function createRateLimiter(requestsPerSecond: number): RateLimiter {
+    if (!(requestsPerSecond > 0) || !Number.isFinite(requestsPerSecond)) {
+        return { acquire: async () => { } };
+    }
+
+    const intervalMs = 1000 / requestsPerSecond;
+    let nextSlot = 0;
+
+    return {
+        async acquire() {
+            const now = Date.now();
+            const slot = Math.max(now, nextSlot);
+            nextSlot = slot + intervalMs;
+
+            if (slot > now) {
+                await sleep(slot - now);
+            }
+        },
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// RETRIES
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Run fn, retrying on throw with exponential backoff + full jitter.
+ * The last error is rethrown once retries are exhausted.
+ */
+export async function withRetry<T>(
+    fn: () => Promise<T>,
+    options: RetryOptions
+): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn();
+        } catch (error) {
+            if (attempt >= options.retries) throw error;
+
+            const delay = backoffDelay(attempt, options.baseDelayMs);
+            console.warn(`🔁 ${options.label || "Request"} failed (attempt ${attempt + 1}/${options.retries + 1}), retrying in ${delay}ms`);
+            await sleep(delay);
+        }
+    }
+}
+
+/**
+ * Full-jitter backoff: random delay in [0, base × 2^attempt].
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number): number {
+    return Math.round(Math.random() * baseDelayMs * 2 ** attempt);
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
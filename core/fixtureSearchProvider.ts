@@ -0,0 +1,126 @@
+/**
+ * 📼 Fixture Search Provider
+ *
+ * SearchProvider that replays recorded results from disk.
+ * Zero network — makes the whole pipeline deterministic for tests and
+ * for machines without internet access.
+ *
+ * FILE LAYOUT: <dir>/search.json
+ *   {
+ *     "videos":         { "<normalized query>": VideoCandidate[] },
+ *     "playlists":      { "<normalized query>": PlaylistSummary[] },
+ *     "playlistVideos": { "<playlistId>": PlaylistVideo[] },
+ *     "videoDetails":   { "<videoId>": VideoDetails }
+ *   }
+ *
+ * Queries are normalized (lowercase, collapsed whitespace) so fixtures
+ * stay readable and can be edited by hand. Chapters are parsed from the
+ * recorded descriptions on replay, exactly like the live providers do.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { VideoCandidate } from "./searchScraper.js";
+import { withChapters } from "./chapterParser.js";
+import type {
+    SearchProvider,
+    PlaylistSummary,
+    PlaylistVideo,
+    VideoDetails,
+} from "./searchProvider.js";
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface SearchFixtures {
+    videos: Record<string, VideoCandidate[]>;
+    playlists: Record<string, PlaylistSummary[]>;
+    playlistVideos: Record<string, PlaylistVideo[]>;
+    videoDetails: Record<string, VideoDetails>;
+}
+
+export interface FixtureProviderOptions {
+    /** Throw on a fixture miss instead of returning an empty result */
+    strict?: boolean;
+}
+
+/** File name of the fixture store inside a fixture directory */
+export const SEARCH_FIXTURES_FILE = "search.json";
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Normalize a query into its fixture key.
+ */
+export function normalizeFixtureKey(query: string): string {
+    return query.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * An empty fixture store.
+ */
+export function emptySearchFixtures(): SearchFixtures {
+    return { videos: {}, playlists: {}, playlistVideos: {}, videoDetails: {} };
+}
+
+/**
+ * Load the fixture store from a directory (empty if the file doesn't exist).
+ */
+export function loadSearchFixtures(dir: string): SearchFixtures {
+    const file = join(dir, SEARCH_FIXTURES_FILE);
+    if (!existsSync(file)) return emptySearchFixtures();
+
+    const parsed = JSON.parse(readFileSync(file, "utf-8")) as Partial<SearchFixtures>;
+    return { ...emptySearchFixtures(), ...parsed };
+}
+
+/**
+ * Create a SearchProvider that serves results from `<dir>/search.json`.
+ */
+export function createFixtureSearchProvider(
+    dir: string,
+    options: FixtureProviderOptions = {}
+): SearchProvider {
+    let fixtures: SearchFixtures | null = null;
+    const load = () => (fixtures ??= loadSearchFixtures(dir));
+
+    function lookup<T>(table: Record<string, T>, kind: string, key: string, empty: T): T {
+        if (key in table) return table[key];
+
+        if (options.strict) {
+            throw new Error(`Fixture miss: no ${kind} recorded for "${key}" in ${dir}`);
+        }
+        console.warn(`📼 Fixture miss: no ${kind} recorded for "${key}"`);
+        return empty;
+    }
+
+    return {
+        name: "fixture",
+
+        async searchVideos(query: string): Promise<VideoCandidate[]> {
+            return lookup(load().videos, "videos", normalizeFixtureKey(query), []).map(withChapters);
+        },
+
+        async searchPlaylists(query: string): Promise<PlaylistSummary[]> {
+            return lookup(load().playlists, "playlists", normalizeFixtureKey(query), []);
+        },
+
+        async getPlaylistVideos(playlistId: string): Promise<PlaylistVideo[]> {
+            return lookup(load().playlistVideos, "playlist videos", playlistId, []).map(withChapters);
+        },
+
+        async getVideoDetails(videoIds: string[]): Promise<Map<string, VideoDetails>> {
+            const details = new Map<string, VideoDetails>();
+            const table = load().videoDetails;
+
+            for (const videoId of videoIds) {
+                if (table[videoId]) details.set(videoId, withChapters(table[videoId]));
+            }
+
+            return details;
+        },
+    };
+}
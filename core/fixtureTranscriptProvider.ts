@@ -0,0 +1,78 @@
+/**
+ * 📼 Fixture Transcript Provider
+ *
+ * TranscriptProvider that replays recorded transcripts from disk —
+ * the transcript counterpart of fixtureSearchProvider.
+ *
+ * FILE LAYOUT: <dir>/transcripts.json
+ *   { "<videoId>": Transcript | null }
+ *
+ * A recorded null means "this video has no captions" and is a hit, not a
+ * miss. Only the plain text is required when editing by hand; segments
+ * default to a single segment at 0s.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { Transcript, TranscriptProvider } from "./transcriptProvider.js";
+import type { FixtureProviderOptions } from "./fixtureSearchProvider.js";
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export type TranscriptFixtures = Record<string, Transcript | null>;
+
+/** File name of the transcript store inside a fixture directory */
+export const TRANSCRIPT_FIXTURES_FILE = "transcripts.json";
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Load the transcript store from a directory (empty if the file doesn't exist).
+ */
+export function loadTranscriptFixtures(dir: string): TranscriptFixtures {
+    const file = join(dir, TRANSCRIPT_FIXTURES_FILE);
+    if (!existsSync(file)) return {};
+
+    return JSON.parse(readFileSync(file, "utf-8")) as TranscriptFixtures;
+}
+
+/**
+ * Create a TranscriptProvider that serves transcripts from `<dir>/transcripts.json`.
+ */
+export function createFixtureTranscriptProvider(
+    dir: string,
+    options: FixtureProviderOptions = {}
+): TranscriptProvider {
+    let fixtures: TranscriptFixtures | null = null;
+    const load = () => (fixtures ??= loadTranscriptFixtures(dir));
+
+    return {
+        name: "fixture",
+
+        async fetchTranscript(videoId: string): Promise<Transcript | null> {
+            const table = load();
+
+            if (!(videoId in table)) {
+                if (options.strict) {
+                    throw new Error(`Fixture miss: no transcript recorded for "${videoId}" in ${dir}`);
+                }
+                console.warn(`📼 Fixture miss: no transcript recorded for "${videoId}"`);
+                return null;
+            }
+
+            const transcript = table[videoId];
+            if (!transcript) return null;
+
+            return {
+                videoId,
+                language: transcript.language || "en",
+                text: transcript.text,
+                segments: transcript.segments || [{ startSeconds: 0, text: transcript.text }],
+            };
+        },
+    };
+}
@@ -14,12 +14,23 @@
  * 2. For each key, try PRIMARY model first, then SECONDARY
  * 3. If 429 (rate limit) → skip to next key immediately
  * 4. If all keys exhausted → throw with clear message
+ * 
+ * When a Gemini cassette is active (core/geminiCassette), calls are
+ * recorded to / replayed from disk instead — see test/e2e.ts.
  */
 
 import { GoogleGenerativeAI, GenerationConfig } from "@google/generative-ai";
+import {
+    getGeminiCassette,
+    geminiCassetteKey,
+    previewPrompt,
+    readGeminiRecordings,
+    writeGeminiRecording,
+} from "./geminiCassette.js";
 
 const PRIMARY_MODEL = "gemini-2.5-flash";
 const SECONDARY_MODEL = "gemini-2.5-flash-lite";
+const EMBEDDING_MODEL = "text-embedding-004";
 
 // ═══════════════════════════════════════════════════════════════
 // KEY POOL MANAGEMENT
@@ -73,6 +84,14 @@ export interface FailoverResult {
     keyUsed: number;
 }
 
+/**
+ * True if Gemini calls can succeed: a key is configured, or a replay
+ * cassette will answer them.
+ */
+export function hasGeminiAccess(): boolean {
+    return getApiKeys().length > 0 || getGeminiCassette()?.mode === "replay";
+}
+
 /**
  * Generates content using Google Gemini with:
  *  1. Round-robin key rotation across all available API keys
@@ -85,6 +104,36 @@ export interface FailoverResult {
 export async function generateContentWithFailover(
     prompt: string | Array<string | any>,
     config: GenerationConfig = {}
+): Promise<FailoverResult> {
+    const cassette = getGeminiCassette();
+
+    if (!cassette) {
+        return callGeminiWithFailover(prompt, config);
+    }
+
+    const key = geminiCassetteKey(prompt, config);
+
+    if (cassette.mode === "replay") {
+        const recording = readGeminiRecordings(cassette.dir)[key];
+        if (!recording) {
+            throw new Error(`📼 Gemini cassette miss (${key}): "${previewPrompt(prompt)}"`);
+        }
+        return { text: recording.text, modelUsed: recording.modelUsed, fallbackUsed: false, keyUsed: 0 };
+    }
+
+    const result = await callGeminiWithFailover(prompt, config);
+    writeGeminiRecording(cassette.dir, key, {
+        promptPreview: previewPrompt(prompt),
+        text: result.text,
+        modelUsed: result.modelUsed,
+    });
+    return result;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function callGeminiWithFailover(
+    prompt: string | Array<string | any>,
+    config: GenerationConfig
 ): Promise<FailoverResult> {
     const keys = getApiKeys();
 
@@ -173,3 +222,45 @@ export async function generateContentWithFailover(
         `💡 Add more keys: GEMINI_API_KEY_${keyCount + 1} in .env.local`
     );
 }
+
+/**
+ * Embed a batch of texts with the Gemini embedding model.
+ * Round-robins keys like generateContentWithFailover (no model fallback —
+ * there is only one embedding model). Embeddings are not cassette-recorded,
+ * so this throws when no key is configured.
+ */
+export async function embedContentWithFailover(texts: string[]): Promise<number[][]> {
+    const keys = getApiKeys();
+
+    if (keys.length === 0) {
+        throw new Error("No Gemini API keys configured. Set GEMINI_API_KEY in .env.local");
+    }
+    if (texts.length === 0) return [];
+
+    const startIndex = getNextKeyIndex(keys.length);
+    const errors: string[] = [];
+
+    for (let attempt = 0; attempt < keys.length; attempt++) {
+        const keyIndex = (startIndex + attempt) % keys.length;
+        const keyLabel = keyIndex === 0 ? "primary" : `key_${keyIndex + 1}`;
+
+        try {
+            const model = new GoogleGenerativeAI(keys[keyIndex])
+                .getGenerativeModel({ model: EMBEDDING_MODEL });
+
+            const result = await model.batchEmbedContents({
+                requests: texts.map(text => ({
+                    content: { role: "user", parts: [{ text }] },
+                })),
+            });
+
+            return result.embeddings.map(e => e.values);
+        } catch (error) {
+            const reason = isRateLimitError(error) ? "Rate limited" : "Failed";
+            console.warn(`🔑 Key ${keyLabel} (${EMBEDDING_MODEL}): ${reason}. Rotating to next key...`);
+            errors.push(`Key ${keyLabel}: ${String(error)}`);
+        }
+    }
+
+    throw new Error(`❌ All ${keys.length} API keys failed for embeddings.\nErrors:\n${errors.join("\n")}`);
+}
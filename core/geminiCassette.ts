@@ -0,0 +1,93 @@
+/**
+ * 📼 Gemini Cassette
+ *
+ * Record/replay storage for generateContentWithFailover().
+ * Each prompt + generation config is hashed into a key; the response text
+ * is stored under that key in `<dir>/gemini.json`.
+ *
+ *   record → real Gemini call, response written to the cassette
+ *   replay → response served from the cassette, no API key needed
+ *
+ * Inline image data is part of the hash but never written to disk —
+ * only a short text preview of the prompt is kept for humans.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { join } from "node:path";
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export type CassetteMode = "record" | "replay";
+
+export interface GeminiCassette {
+    mode: CassetteMode;
+    dir: string;
+}
+
+export interface GeminiRecording {
+    promptPreview: string;
+    text: string;
+    modelUsed: string;
+}
+
+/** File name of the Gemini recordings inside a cassette directory */
+export const GEMINI_CASSETTE_FILE = "gemini.json";
+
+// ═══════════════════════════════════════════════════════════════
+// ACTIVE CASSETTE
+// ═══════════════════════════════════════════════════════════════
+
+let activeCassette: GeminiCassette | null = null;
+
+export function setGeminiCassette(cassette: GeminiCassette | null): void {
+    activeCassette = cassette;
+}
+
+export function getGeminiCassette(): GeminiCassette | null {
+    return activeCassette;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// STORAGE
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Stable key for a prompt + generation config.
+ */
+export function geminiCassetteKey(prompt: unknown, config: unknown): string {
+    return createHash("sha256")
+        .update(JSON.stringify({ prompt, config }))
+        .digest("hex")
+        .slice(0, 16);
+}
+
+/**
+ * Human-readable preview of a prompt (text parts only, truncated).
+ */
+export function previewPrompt(prompt: unknown): string {
+    const parts = Array.isArray(prompt) ? prompt : [prompt];
+    const text = parts
+        .map(p => (typeof p === "string" ? p : "[inline data]"))
+        .join(" ")
+        .replace(/\s+/g, " ")
+        .trim();
+
+    return text.length > 200 ? `${text.slice(0, 200)}...` : text;
+}
+
+export function readGeminiRecordings(dir: string): Record<string, GeminiRecording> {
+    const file = join(dir, GEMINI_CASSETTE_FILE);
+    if (!existsSync(file)) return {};
+    return JSON.parse(readFileSync(file, "utf-8")) as Record<string, GeminiRecording>;
+}
+
+export function writeGeminiRecording(dir: string, key: string, recording: GeminiRecording): void {
+    const recordings = readGeminiRecordings(dir);
+    recordings[key] = recording;
+
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, GEMINI_CASSETTE_FILE), JSON.stringify(recordings, null, 2) + "\n");
+}
@@ -7,7 +7,7 @@
  * IMPORT REWRITES: @/utils/gemini → ./gemini, @/utils/safeJsonParser → ./safeJsonParser
  */
 
-import { generateContentWithFailover } from "./gemini.js";
+import { generateContentWithFailover, hasGeminiAccess } from "./gemini.js";
 import { safeParseJsonObject } from "./safeJsonParser.js";
 
 export interface RerankerInput {
@@ -30,7 +30,7 @@ export interface RerankerResult {
 export async function vibeCheckRerank(
     input: RerankerInput
 ): Promise<RerankerResult> {
-    if (!process.env.GEMINI_API_KEY) {
+    if (!hasGeminiAccess()) {
         console.warn("⚠️ No Gemini API key, using heuristic fallback");
         return { winnerId: null, fallbackUsed: true };
     }
@@ -111,7 +111,7 @@ export async function generateExpandedQueries(
     userRole: string,
     experienceLevel: string
 ): Promise<string[] | null> {
-    if (!process.env.GEMINI_API_KEY) {
+    if (!hasGeminiAccess()) {
         return null;
     }
 
@@ -168,7 +168,7 @@ export async function analyzeTranscriptDensity(
     transcript: string,
     topic: string
 ): Promise<{ score: number; summary: string } | null> {
-    if (!process.env.GEMINI_API_KEY || !transcript) {
+    if (!hasGeminiAccess() || !transcript) {
         return null;
     }
 
@@ -0,0 +1,344 @@
+/**
+ * 🌐 Language Detector — Is This Video In The Student's Language?
+ *
+ * "in Tamil" in a query doesn't make every result Tamil. Each candidate is
+ * identified from the strongest evidence available:
+ *
+ *   1. AUDIO TRACK — defaultAudioLanguage from the YouTube Data API (only
+ *                    on enriched videos): the uploader said so.
+ *   2. SCRIPT      — letters counted per Unicode block. Tamil, Telugu and
+ *                    Bengali scripts name their language; Devanagari is
+ *                    Marathi given Marathi-only words / ळ, else n-grams decide.
+ *   3. MARKERS     — a Latin-script title naming a language ("DBMS in Hindi").
+ *   4. N-GRAMS     — a character-trigram classifier trained on a few sample
+ *                    lecture titles: English vs Hinglish for Latin text,
+ *                    Hindi vs Marathi for Devanagari.
+ *
+ * Text without letters is undetected. verifyLanguage scores a detection
+ * against UserPreferences.language (0-1); filterByLanguage applies it:
+ *
+ *   strict  — only confident matches are kept (a topic may go unfilled)
+ *   lenient — confident mismatches are dropped, unless that leaves nothing
+ *
+ * Hindi and Hinglish accept each other — Hindi lectures routinely mix in
+ * English, and students who pick either follow both.
+ *
+ * Pure text heuristics — zero API calls.
+ */
+
+import type { DetectedLanguage, Language, LanguageCheckMode, LanguageSource } from "./types.js";
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export type Script = "latin" | "devanagari" | "bengali" | "tamil" | "telugu";
+
+/** The fields of a video language identification reads */
+export interface LanguageEvidence {
+    title: string;
+    description: string;
+    defaultAudioLanguage?: string;
+}
+
+export interface LanguageVerdict {
+    detected: DetectedLanguage;
+    score: number;              // 0 = surely another language, 0.5 = unknown, 1 = surely the student's
+}
+
+// ═══════════════════════════════════════════════════════════════
+// CONFIG
+// ═══════════════════════════════════════════════════════════════
+
+const SCRIPT_RANGES: Record<Script, RegExp> = {
+    latin: /[a-z]/gi,
+    devanagari: /[\u0900-\u097F]/g,
+    bengali: /[\u0980-\u09FF]/g,
+    tamil: /[\u0B80-\u0BFF]/g,
+    telugu: /[\u0C00-\u0C7F]/g,
+};
+
+/** Description characters read after the title */
+const DESCRIPTION_CHARS = 300;
+
+/** How far each kind of evidence is trusted */
+const CONFIDENCE: Record<Exclude<LanguageSource, "none">, number> = {
+    audio_track: 0.95,
+    script: 0.9,
+    title_marker: 0.8,
+    ngram: 0.85,                // Ceiling — the margin between languages decides
+};
+
+/** Less text than this is too little for the n-gram classifier */
+const MIN_TRIGRAMS = 8;
+
+/**
+ * Per-trigram head start for the more common language of each pair. Technical
+ * terms read the same in English and Hinglish, so Hinglish has to win on
+ * its own function words.
+ */
+const NGRAM_PRIOR: Partial<Record<Language, number>> = {
+    english: 0.15,
+    hindi: 0.1,
+};
+
+/** Lowest verifyLanguage score each mode keeps */
+const MIN_SCORE: Record<LanguageCheckMode, number> = {
+    strict: 0.75,               // A match, at least half confident
+    lenient: 0.25,              // Anything but a mismatch more than half confident
+};
+
+/** YouTube defaultAudioLanguage (BCP-47 primary subtag) → Language */
+const AUDIO_LANGUAGES: Record<string, Language> = {
+    en: "english",
+    hi: "hindi",
+    ta: "tamil",
+    te: "telugu",
+    bn: "bengali",
+    mr: "marathi",
+};
+
+/** Words Marathi uses and Hindi doesn't */
+const MARATHI_MARKERS = ["आहे", "आणि", "च्या", "मध्ये", "ळ"];
+
+/** Latin-script language names (checked in order, so "hinglish" beats "hindi") */
+const LANGUAGE_NAMES: [string, Language][] = [
+    ["hinglish", "hinglish"],
+    ["hindi", "hindi"],
+    ["tamil", "tamil"],
+    ["telugu", "telugu"],
+    ["bengali", "bengali"],
+    ["bangla", "bengali"],
+    ["marathi", "marathi"],
+];
+
+/** Languages a student of each language follows */
+const ACCEPTED_LANGUAGES: Record<Language, Language[]> = {
+    english: ["english"],
+    hindi: ["hindi", "hinglish"],
+    hinglish: ["hinglish", "hindi"],
+    tamil: ["tamil"],
+    telugu: ["telugu"],
+    bengali: ["bengali"],
+    marathi: ["marathi"],
+};
+
+/** N-gram training text — the kind of titles and descriptions lectures have */
+const NGRAM_SAMPLES: Partial<Record<Language, string[]>> = {
+    english: [
+        "in this video we will learn the basics of data structures and algorithms",
+        "complete tutorial explained step by step with examples and practice problems",
+        "lecture notes on operating systems process scheduling and memory management",
+        "introduction to the concept with solved questions for your exam preparation",
+        "how does it work and why is it important full course for beginners",
+        "the quick guide to understanding the fundamentals of computer science",
+        "learn how to solve these problems with a simple approach and source code",
+        "part one of the series covering theory proofs and implementation details",
+    ],
+    hinglish: [
+        "is video mein hum data structures ke basics samjhenge",
+        "step by step samjho bilkul aasan bhasha mein",
+        "exam ke liye sabse important topic hai ye",
+        "kya hai aur kaise kaam karta hai poora concept",
+        "aaj hum padhenge operating system ka concept",
+        "yeh video pura dekho aur notes banao",
+        "bhai ye question har saal aata hai pakka",
+        "chaliye shuru karte hain aur example se samajhte hain",
+        "iske baad hum practice questions karenge toh dhyan se dekhna",
+    ],
+    hindi: [
+        "इस वीडियो में हम डेटा स्ट्रक्चर के बारे में पढ़ेंगे",
+        "यह टॉपिक परीक्षा के लिए बहुत महत्वपूर्ण है",
+        "आसान भाषा में समझिए और उदाहरण से सीखिए",
+        "क्या है और कैसे काम करता है पूरा कॉन्सेप्ट",
+        "आज हम ऑपरेटिंग सिस्टम का कॉन्सेप्ट समझेंगे",
+        "पूरा वीडियो देखें और नोट्स बनाएं",
+    ],
+    marathi: [
+        "या व्हिडिओमध्ये आपण डेटा स्ट्रक्चर बद्दल शिकणार आहोत",
+        "हा विषय परीक्षेसाठी खूप महत्त्वाचा आहे",
+        "सोप्या भाषेत समजून घ्या आणि उदाहरणांसह शिका",
+        "म्हणजे काय आणि ते कसे काम करते संपूर्ण संकल्पना",
+        "आज आपण ऑपरेटिंग सिस्टमची संकल्पना समजून घेऊया",
+        "संपूर्ण व्हिडिओ पहा आणि नोट्स काढा",
+    ],
+};
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Best guess at the language of a video, from its audio track when the
+ * YouTube API reported one, else its title + description.
+ */
+export function detectLanguage(
+    title: string,
+    description: string = "",
+    defaultAudioLanguage?: string
+): DetectedLanguage {
+    const audio = defaultAudioLanguage && AUDIO_LANGUAGES[defaultAudioLanguage.toLowerCase().split("-")[0]];
+    if (audio) return detected(audio, "audio_track");
+
+    const text = `${title}\n${description.slice(0, DESCRIPTION_CHARS)}`;
+
+    // A native-script title outweighs English boilerplate in the description
+    const titleScript = dominantScript(title);
+    const script = titleScript && titleScript !== "latin" ? titleScript : dominantScript(text);
+
+    switch (script) {
+        case null:
+            return { language: null, confidence: 0, source: "none" };
+        case "devanagari":
+            if (MARATHI_MARKERS.some(m => text.includes(m))) return detected("marathi", "script");
+            return classifyNgrams(text, ["hindi", "marathi"]) ?? detected("hindi", "script");
+        case "bengali":
+        case "tamil":
+        case "telugu":
+            return detected(script, "script");
+        case "latin": {
+            // Names count in the title only — descriptions list other dubbed versions
+            const titleWords = new Set(title.toLowerCase().split(/[^a-z]+/));
+            const named = LANGUAGE_NAMES.find(([name]) => titleWords.has(name));
+            if (named) return detected(named[1], "title_marker");
+
+            // Too short to tell: English, without much conviction
+            return classifyNgrams(text, ["english", "hinglish"]) ?? detected("english", "script", 0.5);
+        }
+    }
+}
+
+/**
+ * Score a video against the student's language: 0.5 ± half the detection
+ * confidence, depending on whether the detected language is accepted.
+ */
+export function verifyLanguage(video: LanguageEvidence, language: Language): LanguageVerdict {
+    const result = detectLanguage(video.title, video.description, video.defaultAudioLanguage);
+    if (result.language === null) return { detected: result, score: 0.5 };
+
+    const accepted = ACCEPTED_LANGUAGES[language].includes(result.language);
+    const score = accepted ? 0.5 + result.confidence / 2 : 0.5 - result.confidence / 2;
+
+    return { detected: result, score: round(score) };
+}
+
+/**
+ * Does a video pass the language check for the student's language?
+ */
+export function matchesLanguage(
+    video: LanguageEvidence,
+    language: Language,
+    mode: LanguageCheckMode = "lenient"
+): boolean {
+    return verifyLanguage(video, language).score >= MIN_SCORE[mode];
+}
+
+/**
+ * The videos that pass the language check. In lenient mode all of them are
+ * kept when none pass (an English video beats an empty topic); in strict
+ * mode the result may be empty.
+ */
+export function filterByLanguage<T extends LanguageEvidence>(
+    videos: T[],
+    language: Language,
+    mode: LanguageCheckMode = "lenient"
+): T[] {
+    const inLanguage = videos.filter(v => matchesLanguage(v, language, mode));
+
+    if (inLanguage.length === 0 && videos.length > 0 && mode === "lenient") {
+        console.warn(`  🌐 No ${language} candidates among ${videos.length} — keeping the closest matches`);
+        return videos;
+    }
+    if (inLanguage.length < videos.length) {
+        console.log(`  🌐 Dropped ${videos.length - inLanguage.length} candidate(s) not in ${language} (${mode})`);
+    }
+
+    return inLanguage;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// INTERNAL
+// ═══════════════════════════════════════════════════════════════
+
+function detected(
+    language: Language,
+    source: Exclude<LanguageSource, "none">,
+    confidence: number = CONFIDENCE[source]
+): DetectedLanguage {
+    return { language, confidence: round(confidence), source };
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function dominantScript(text: string): Script | null {
+    let best: Script | null = null;
+    let bestCount = 0;
+
+    for (const [script, range] of Object.entries(SCRIPT_RANGES) as [Script, RegExp][]) {
+        const count = (text.match(range) || []).length;
+        if (count > bestCount) {
+            best = script;
+            bestCount = count;
+        }
+    }
+
+    return best;
+}
+
+// ─── N-gram classifier ───────────────────────────────────────
+
+type TrigramCounts = { counts: Map<string, number>; total: number };
+
+let trigramModels: Map<Language, TrigramCounts> | null = null;
+
+/**
+ * Naive Bayes over character trigrams (add-one smoothing). Confidence is
+ * 0.5 plus the per-trigram log-likelihood margin over the runner-up.
+ * Null when there's too little text.
+ */
+function classifyNgrams(text: string, languages: Language[]): DetectedLanguage | null {
+    const grams = trigrams(text);
+    if (grams.length < MIN_TRIGRAMS) return null;
+
+    const models = languages.map(language => ({ language, model: getTrigramModels().get(language)! }));
+    const vocabulary = new Set(models.flatMap(({ model }) => Array.from(model.counts.keys()))).size;
+
+    const [best, runnerUp] = models
+        .map(({ language, model }) => ({
+            language,
+            perGram: grams.reduce(
+                (sum, g) => sum + Math.log(((model.counts.get(g) || 0) + 1) / (model.total + vocabulary)),
+                0
+            ) / grams.length + (NGRAM_PRIOR[language] ?? 0),
+        }))
+        .sort((a, b) => b.perGram - a.perGram);
+
+    return detected(best.language, "ngram", Math.min(CONFIDENCE.ngram, 0.5 + (best.perGram - runnerUp.perGram)));
+}
+
+function getTrigramModels(): Map<Language, TrigramCounts> {
+    if (!trigramModels) {
+        trigramModels = new Map();
+        for (const [language, samples] of Object.entries(NGRAM_SAMPLES) as [Language, string[]][]) {
+            const grams = samples.flatMap(trigrams);
+            const counts = new Map<string, number>();
+            for (const g of grams) counts.set(g, (counts.get(g) || 0) + 1);
+            trigramModels.set(language, { counts, total: grams.length });
+        }
+    }
+    return trigramModels;
+}
+
+/** Space-padded character trigrams of each word (letters and marks only) */
+function trigrams(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^\p{L}\p{M}]+/u)
+        .filter(Boolean)
+        .flatMap(word => {
+            const padded = ` ${word} `;
+            return Array.from({ length: padded.length - 2 }, (_, i) => padded.slice(i, i + 3));
+        });
+}
@@ -2,7 +2,8 @@
  * 🧠 Query Intelligence — 3-Layer Meaning Extraction
  * 
  * Copied from Dojo: src/utils/queryIntelligence.ts
- * No modifications needed — this file has no internal imports.
+ * No internal imports. STOP_WORDS adds Hindi, Hinglish and regional-language
+ * function words (and language names) to the original English list.
  * 
  * Deterministic query understanding system. Zero AI calls.
  * 
@@ -82,6 +83,21 @@ const STOP_WORDS = new Set([
     "help", "know", "get", "got", "let", "thing", "stuff", "something",
     // Question words (intent signals, not subjects)
     "how", "what", "why", "when", "where", "which", "who",
+    // Language names (query suffixes like "in Hindi", not subjects)
+    "english", "hindi", "hinglish", "tamil", "telugu", "bengali", "bangla", "marathi",
+    // Hindi / Hinglish (romanized)
+    "kya", "hai", "hain", "ka", "ki", "ke", "ko", "se", "mein", "aur", "ye", "yeh",
+    "wo", "woh", "kaise", "kyu", "kyun", "bhi", "toh", "ek", "tha", "thi", "karo", "karna",
+    // Hindi (Devanagari)
+    "है", "हैं", "का", "की", "के", "को", "से", "में", "और", "क्या", "कैसे", "यह", "वह", "एक", "भी",
+    // Marathi
+    "आहे", "आणि", "काय", "कसे", "चा", "ची", "चे", "ला", "मध्ये", "हे",
+    // Tamil
+    "மற்றும்", "என்ன", "ஒரு", "இது", "எப்படி",
+    // Telugu
+    "మరియు", "ఏమిటి", "ఒక", "ఇది", "ఎలా",
+    // Bengali
+    "এবং", "কি", "কী", "একটি", "এই", "কীভাবে", "ও",
 ]);
 
 /** Words that signal INTENT */
@@ -0,0 +1,218 @@
+/**
+ * 👍 Ranking Feedback — Replace / Keep Events
+ *
+ * The Replace button is the strongest quality signal we get: the student
+ * rejected a pick. Every replace (and every keep — the student played the
+ * playlist without replacing the video) is logged with the density rules
+ * the pick scored on at decision time (PlaylistEntry.rankingFeatures).
+ * The weight trainer (engine/weightTrainer) fits profile weights to it.
+ *
+ * Backends:
+ *   - jsonl  → append-only JSON-lines file, read back by the trainer (default)
+ *   - memory → in-process array, for tests (gone on every cold start)
+ *
+ * SELECTION (env):
+ *   RANKING_FEEDBACK_BACKEND=jsonl | memory
+ *   RANKING_FEEDBACK_PATH=.cache/ranking-feedback.jsonl
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { dirname } from "node:path";
+import type { RankingFeatures } from "./types.js";
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export type FeedbackAction = "replace" | "keep";
+
+/** One line of the JSONL file */
+export interface RankingFeedbackEvent extends RankingFeatures {
+    action: FeedbackAction;
+    videoId: string;
+    topic: string;
+    loggedAt: string;           // ISO timestamp
+}
+
+export interface FeedbackLog {
+    /** Short identifier for logs, e.g. "jsonl" */
+    readonly name: string;
+    append(events: RankingFeedbackEvent[]): void;
+    /** Every logged event, oldest first */
+    read(): RankingFeedbackEvent[];
+}
+
+export type FeedbackBackendName = "jsonl" | "memory";
+
+// ═══════════════════════════════════════════════════════════════
+// CONFIG
+// ═══════════════════════════════════════════════════════════════
+
+export const DEFAULT_FEEDBACK_PATH = ".cache/ranking-feedback.jsonl";
+
+/** Limits on what one (unauthenticated) request may log — the trainer reads it all back */
+const MAX_PICKS_PER_REQUEST = 300;     // videosPerTopic 3 × a 100-topic syllabus
+const MAX_FEATURES_PER_PICK = 64;
+const MAX_TEXT_LENGTH = 200;            // topic, scoring profile and feature ids
+
+const YOUTUBE_VIDEO_ID = /^[A-Za-z0-9_-]{11}$/;
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ═══════════════════════════════════════════════════════════════
+
+let defaultLog: FeedbackLog | null = null;
+
+/**
+ * Get the process-wide feedback log (created from env on first use).
+ */
+export function getFeedbackLog(): FeedbackLog {
+    if (!defaultLog) {
+        defaultLog = createFeedbackLog(
+            (process.env.RANKING_FEEDBACK_BACKEND as FeedbackBackendName) || "jsonl"
+        );
+    }
+    return defaultLog;
+}
+
+/**
+ * Override the default log. Pass null to go back to the env-configured one.
+ */
+export function setFeedbackLog(log: FeedbackLog | null): void {
+    defaultLog = log;
+}
+
+/**
+ * Create a log by name.
+ */
+export function createFeedbackLog(name: FeedbackBackendName): FeedbackLog {
+    switch (name) {
+        case "memory":
+            return createMemoryFeedbackLog();
+        case "jsonl":
+            return createJsonlFeedbackLog(process.env.RANKING_FEEDBACK_PATH || DEFAULT_FEEDBACK_PATH);
+        default:
+            throw new Error(`Unknown ranking feedback backend: "${name}"`);
+    }
+}
+
+/**
+ * In-process log. For tests and local development.
+ */
+export function createMemoryFeedbackLog(): FeedbackLog {
+    const events: RankingFeedbackEvent[] = [];
+
+    return {
+        name: "memory",
+        append(batch) {
+            events.push(...batch);
+        },
+        read() {
+            return [...events];
+        },
+    };
+}
+
+/**
+ * Append-only JSON-lines file. Unparseable lines are skipped on read.
+ */
+export function createJsonlFeedbackLog(path: string): FeedbackLog {
+    return {
+        name: "jsonl",
+        append(batch) {
+            if (batch.length === 0) return;
+            mkdirSync(dirname(path), { recursive: true });
+            appendFileSync(path, batch.map(e => JSON.stringify(e)).join("\n") + "\n");
+        },
+        read() {
+            if (!existsSync(path)) return [];
+            return readFileSync(path, "utf-8")
+                .split("\n")
+                .filter(line => line.trim())
+                .flatMap(line => {
+                    try {
+                        return [JSON.parse(line) as RankingFeedbackEvent];
+                    } catch {
+                        return [];
+                    }
+                });
+        },
+    };
+}
+
+/**
+ * Check picks sent by the browser against the request limits before they
+ * are logged. Returns what's wrong, or null when they can be logged.
+ */
+export function validateFeedbackPicks(picks: unknown): string | null {
+    if (!Array.isArray(picks)) return "picks must be an array";
+    if (picks.length > MAX_PICKS_PER_REQUEST) return `At most ${MAX_PICKS_PER_REQUEST} picks per request`;
+
+    for (const pick of picks as { videoId?: unknown; topic?: unknown; features?: unknown }[]) {
+        if (typeof pick?.videoId !== "string" || !YOUTUBE_VIDEO_ID.test(pick.videoId)) {
+            return "videoId must be an 11-character YouTube video ID";
+        }
+        if (typeof pick.topic !== "string" || pick.topic.length > MAX_TEXT_LENGTH) {
+            return `topic must be a string of at most ${MAX_TEXT_LENGTH} characters`;
+        }
+        if (pick.features === undefined) continue;
+
+        const f = pick.features as Partial<RankingFeatures>;
+        if (typeof f.scoringProfile === "string" && f.scoringProfile.length > MAX_TEXT_LENGTH) {
+            return `scoringProfile must be at most ${MAX_TEXT_LENGTH} characters`;
+        }
+        if (Array.isArray(f.features) && (
+            f.features.length > MAX_FEATURES_PER_PICK ||
+            f.features.some(id => typeof id === "string" && id.length > MAX_TEXT_LENGTH)
+        )) {
+            return `At most ${MAX_FEATURES_PER_PICK} features of ${MAX_TEXT_LENGTH} characters per pick`;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Log replace / keep decisions for picks that carry rankingFeatures.
+ * Picks without features (anchor videos, earlier replacements) are skipped.
+ * Returns the number of events logged.
+ */
+export function logRankingFeedback(
+    action: FeedbackAction,
+    picks: { videoId: string; topic: string; features?: RankingFeatures }[],
+    log: FeedbackLog = getFeedbackLog()
+): number {
+    const loggedAt = new Date().toISOString();
+    const events: RankingFeedbackEvent[] = picks
+        .filter(pick => isRankingFeatures(pick.features))
+        .map(pick => ({
+            action,
+            videoId: pick.videoId,
+            topic: pick.topic,
+            scoringProfile: pick.features!.scoringProfile,
+            densityScore: pick.features!.densityScore,
+            features: pick.features!.features,
+            loggedAt,
+        }));
+
+    log.append(events);
+    if (events.length > 0) {
+        console.log(`👍 Logged ${events.length} ${action} event(s) to the ${log.name} feedback log`);
+    }
+
+    return events.length;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// INTERNAL
+// ═══════════════════════════════════════════════════════════════
+
+/** Features arrive from the browser — check the shape before logging them */
+function isRankingFeatures(value: unknown): value is RankingFeatures {
+    const f = value as RankingFeatures | undefined;
+    return !!f
+        && typeof f.scoringProfile === "string"
+        && typeof f.densityScore === "number"
+        && Array.isArray(f.features)
+        && f.features.every(id => typeof id === "string");
+}
@@ -0,0 +1,94 @@
+/**
+ * 🚦 Rate-Limited Search Provider
+ *
+ * Wraps a SearchProvider so every call waits for that provider's rate
+ * limiter and is retried (with jittered backoff) when it throws.
+ * Limiters are shared per provider name, so concurrent builds in the same
+ * process respect one combined budget per upstream.
+ *
+ * LIMITS (requests/second, retries):
+ *   yt-search   → 4 rps, 2 retries  (scraping — easy to get IP-blocked)
+ *   youtube-api → 10 rps, 2 retries (quota is per call, not per second)
+ *   fixture     → unlimited, no retries (local disk, misses are final)
+ */
+
+import type { SearchProvider } from "./searchProvider.js";
+import {
+    createRateLimiter,
+    withRetry,
+    type RateLimiter,
+} from "./concurrency.js";
+
+// ═══════════════════════════════════════════════════════════════
+// CONFIG
+// ═══════════════════════════════════════════════════════════════
+
+export interface ProviderLimits {
+    requestsPerSecond: number;
+    retries: number;
+    retryBaseDelayMs: number;
+}
+
+const PROVIDER_LIMITS: Record<string, ProviderLimits> = {
+    "yt-search": { requestsPerSecond: 4, retries: 2, retryBaseDelayMs: 500 },
+    "youtube-api": { requestsPerSecond: 10, retries: 2, retryBaseDelayMs: 500 },
+    "fixture": { requestsPerSecond: Infinity, retries: 0, retryBaseDelayMs: 0 },
+};
+
+/** Used for providers not listed above (e.g. recording wrappers) */
+const DEFAULT_LIMITS: ProviderLimits = { requestsPerSecond: 4, retries: 2, retryBaseDelayMs: 500 };
+
+const limiters = new Map<string, RateLimiter>();
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Rate limits + retry policy for a provider name.
+ */
+export function getProviderLimits(name: string): ProviderLimits {
+    return PROVIDER_LIMITS[name] || DEFAULT_LIMITS;
+}
+
+/**
+ * Wrap a provider with its shared rate limiter and retry policy.
+ */
+export function createRateLimitedSearchProvider(inner: SearchProvider): SearchProvider {
+    const limits = getProviderLimits(inner.name);
+
+    if (!limiters.has(inner.name)) {
+        limiters.set(inner.name, createRateLimiter(limits.requestsPerSecond));
+    }
+    const limiter = limiters.get(inner.name)!;
+
+    const call = <T>(label: string, fn: () => Promise<T>): Promise<T> =>
+        withRetry(async () => {
+            await limiter.acquire();
+            return fn();
+        }, {
+            retries: limits.retries,
+            baseDelayMs: limits.retryBaseDelayMs,
+            label: `${inner.name} ${label}`,
+        });
+
+    return {
+        name: inner.name,
+
+        searchVideos(query) {
+            return call(`video search "${query}"`, () => inner.searchVideos(query));
+        },
+
+        searchPlaylists(query) {
+            return call(`playlist search "${query}"`, () => inner.searchPlaylists(query));
+        },
+
+        getPlaylistVideos(playlistId) {
+            return call(`playlist ${playlistId}`, () => inner.getPlaylistVideos(playlistId));
+        },
+
+        getVideoDetails(videoIds) {
+            return call(`details for ${videoIds.length} videos`, () => inner.getVideoDetails(videoIds));
+        },
+    };
+}
@@ -0,0 +1,67 @@
+/**
+ * ⏺️ Recording Search Provider
+ *
+ * Wraps a real SearchProvider and writes every response into a fixture
+ * directory, in exactly the format fixtureSearchProvider replays.
+ * The fixture file is rewritten after each call so a crashed run still
+ * leaves a usable (partial) cassette behind.
+ */
+
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { SearchProvider } from "./searchProvider.js";
+import {
+    loadSearchFixtures,
+    normalizeFixtureKey,
+    SEARCH_FIXTURES_FILE,
+} from "./fixtureSearchProvider.js";
+
+/**
+ * Create a provider that records `inner`'s responses into `<dir>/search.json`.
+ * Existing recordings in the directory are kept (and overwritten per key).
+ */
+export function createRecordingSearchProvider(
+    inner: SearchProvider,
+    dir: string
+): SearchProvider {
+    const fixtures = loadSearchFixtures(dir);
+
+    const save = () => {
+        mkdirSync(dir, { recursive: true });
+        writeFileSync(join(dir, SEARCH_FIXTURES_FILE), JSON.stringify(fixtures, null, 2) + "\n");
+    };
+
+    return {
+        name: `recording(${inner.name})`,
+
+        async searchVideos(query) {
+            const videos = await inner.searchVideos(query);
+            fixtures.videos[normalizeFixtureKey(query)] = videos;
+            save();
+            return videos;
+        },
+
+        async searchPlaylists(query) {
+            const playlists = await inner.searchPlaylists(query);
+            fixtures.playlists[normalizeFixtureKey(query)] = playlists;
+            save();
+            return playlists;
+        },
+
+        async getPlaylistVideos(playlistId) {
+            const videos = await inner.getPlaylistVideos(playlistId);
+            fixtures.playlistVideos[playlistId] = videos;
+            save();
+            return videos;
+        },
+
+        async getVideoDetails(videoIds) {
+            const details = await inner.getVideoDetails(videoIds);
+            for (const [videoId, detail] of details) {
+                fixtures.videoDetails[videoId] = detail;
+            }
+            save();
+            return details;
+        },
+    };
+}
@@ -0,0 +1,43 @@
+/**
+ * ⏺️ Recording Transcript Provider
+ *
+ * Wraps a real TranscriptProvider and writes every response into a
+ * fixture directory, in exactly the format fixtureTranscriptProvider
+ * replays. Like recordingSearchProvider, the file is rewritten after
+ * each call so a crashed run still leaves a usable cassette behind.
+ */
+
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { TranscriptProvider } from "./transcriptProvider.js";
+import {
+    loadTranscriptFixtures,
+    TRANSCRIPT_FIXTURES_FILE,
+} from "./fixtureTranscriptProvider.js";
+
+/**
+ * Create a provider that records `inner`'s responses into `<dir>/transcripts.json`.
+ * Existing recordings in the directory are kept (and overwritten per video).
+ */
+export function createRecordingTranscriptProvider(
+    inner: TranscriptProvider,
+    dir: string
+): TranscriptProvider {
+    const fixtures = loadTranscriptFixtures(dir);
+
+    const save = () => {
+        mkdirSync(dir, { recursive: true });
+        writeFileSync(join(dir, TRANSCRIPT_FIXTURES_FILE), JSON.stringify(fixtures, null, 2) + "\n");
+    };
+
+    return {
+        name: `recording(${inner.name})`,
+
+        async fetchTranscript(videoId, languages) {
+            const transcript = await inner.fetchTranscript(videoId, languages);
+            fixtures[videoId] = transcript;
+            save();
+            return transcript;
+        },
+    };
+}
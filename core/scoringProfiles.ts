@@ -0,0 +1,274 @@
+/**
+ * 🧮 Scoring Profiles — What "High Density" Means Per Subject
+ *
+ * A GitHub link marks a great programming tutorial; a history lecture
+ * has none and cites its sources instead. A scoring profile is the set
+ * of weights, keyword signals and clickbait phrases calculateDensityScore
+ * applies, per subject domain:
+ *
+ *   stem_programming (default) · math · humanities · life_sciences · exam_prep
+ *
+ * Built-in profiles live in scoringProfiles.json. SCORING_PROFILES_FILE
+ * can point at a JSON file of the same shape ({ "profiles": [...] }) to
+ * add profiles or replace built-in ones by name.
+ *
+ * SELECTION: selectScoringProfile reads the syllabus (title, description,
+ * TOC) — named exams pick exam_prep, otherwise the domain with the most
+ * keyword hits wins. BuildOptions.scoringProfile overrides it.
+ *
+ * LEARNED WEIGHTS: LEARNED_WEIGHTS_FILE points at the output of the weight
+ * trainer (npm run weights -- train), which refits weights from logged
+ * replace / keep feedback (core/rankingFeedback). Its weights override
+ * the matching profiles' weights and signal weights.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import type { SyllabusData } from "./types.js";
+import builtInProfiles from "./scoringProfiles.json";
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface ScoringWeights {
+    longVideo: number;          // > 15 minutes
+    mediumVideo: number;        // 10-15 minutes
+    chapters: number;           // Chapter list in the description
+    educationCategory: number;  // Education / Science & Technology upload category
+    offCategory: number;        // Entertainment upload categories
+    highEngagement: number;     // Likes >= 4% of views
+    lowEngagement: number;      // Likes < 0.5% of views
+    emptyDescription: number;   // High views + short description
+    clickbait: number;          // Any clickbait phrase
+    aggressiveTitle: number;    // Mostly capital letters
+}
+
+/** +weight once when any keyword appears in the description (or title) */
+export interface KeywordSignal {
+    flag: string;
+    weight: number;
+    keywords: string[];
+    inTitle?: boolean;          // Also match the title
+}
+
+export interface ScoringProfile {
+    name: string;
+    label: string;
+    /** Syllabus words that select this profile */
+    subjectKeywords: string[];
+    weights: ScoringWeights;
+    qualitySignals: KeywordSignal[];
+    clickbaitSignals: string[];
+}
+
+export interface ScoringProfileFile {
+    profiles: ScoringProfile[];
+}
+
+/** Trained weights for one profile (every key optional: untrained ones keep the profile's) */
+export interface LearnedProfileWeights {
+    samples: number;            // Feedback events it was fitted to
+    keeps: number;
+    replaces: number;
+    weights: Partial<ScoringWeights>;
+    qualitySignals: Record<string, number>; // KeywordSignal.flag → weight
+}
+
+/** Output of the weight trainer — a new version per training run */
+export interface LearnedWeightsFile {
+    version: number;
+    trainedAt: string;          // ISO timestamp
+    profiles: Record<string, LearnedProfileWeights>;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// CONFIG
+// ═══════════════════════════════════════════════════════════════
+
+export const DEFAULT_SCORING_PROFILE = "stem_programming";
+
+/** Named exams in a syllabus trump its subject domain... */
+const EXAM_PREP_PROFILE = "exam_prep";
+
+/** ...unless a domain has more than this many times the exam hits */
+const DOMAIN_MAJORITY_RATIO = 2;
+
+export const WEIGHT_KEYS: (keyof ScoringWeights)[] = [
+    "longVideo", "mediumVideo", "chapters", "educationCategory", "offCategory",
+    "highEngagement", "lowEngagement", "emptyDescription", "clickbait", "aggressiveTitle",
+];
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ═══════════════════════════════════════════════════════════════
+
+let registry: Map<string, ScoringProfile> | null = null;
+
+/**
+ * Every known profile (built-in + SCORING_PROFILES_FILE).
+ */
+export function listScoringProfiles(): ScoringProfile[] {
+    return Array.from(getRegistry().values());
+}
+
+/**
+ * A profile by name. Throws on an unknown name.
+ */
+export function getScoringProfile(name: string = DEFAULT_SCORING_PROFILE): ScoringProfile {
+    const profile = getRegistry().get(name);
+    if (!profile) {
+        throw new Error(`Unknown scoring profile: "${name}" (known: ${Array.from(getRegistry().keys()).join(", ")})`);
+    }
+    return profile;
+}
+
+/**
+ * Add profiles (or replace existing ones with the same name).
+ */
+export function registerScoringProfiles(profiles: ScoringProfile[]): void {
+    const known = getRegistry();
+    for (const profile of profiles) known.set(profile.name, profile);
+}
+
+/**
+ * Parse and validate a profile file. Throws with the offending profile on bad input.
+ */
+export function parseScoringProfiles(json: string): ScoringProfile[] {
+    const parsed = JSON.parse(json) as Partial<ScoringProfileFile>;
+    if (!Array.isArray(parsed.profiles)) {
+        throw new Error(`Scoring profile file needs a "profiles" array`);
+    }
+    return parsed.profiles.map(validateProfile);
+}
+
+/**
+ * Pick the profile for a syllabus: exam_prep when it names an exam (and
+ * no domain clearly outnumbers it), else the domain with the most keyword
+ * hits, else the default.
+ */
+export function selectScoringProfile(syllabus: SyllabusData): ScoringProfile {
+    const text = [
+        syllabus.title,
+        syllabus.description,
+        syllabus.fundamentalConcept,
+        ...syllabus.tableOfContents,
+    ].join(" ").toLowerCase();
+
+    const hits = listScoringProfiles().map(profile => ({
+        profile,
+        hits: profile.subjectKeywords.filter(k => containsWord(text, k)).length,
+    }));
+
+    const best = hits
+        .filter(h => h.profile.name !== EXAM_PREP_PROFILE)
+        .reduce((a, b) => (b.hits > a.hits ? b : a), { profile: getScoringProfile(), hits: 0 });
+
+    const exam = hits.find(h => h.profile.name === EXAM_PREP_PROFILE);
+    if (exam && exam.hits > 0 && best.hits <= exam.hits * DOMAIN_MAJORITY_RATIO) return exam.profile;
+
+    return best.profile;
+}
+
+/**
+ * Feature id of a keyword signal, as recorded by calculateDensityScore
+ * (weights use their key, e.g. "longVideo").
+ */
+export function signalFeature(flag: string): string {
+    return `signal:${flag}`;
+}
+
+/**
+ * Parse and validate a learned weights file.
+ */
+export function parseLearnedWeights(json: string): LearnedWeightsFile {
+    const parsed = JSON.parse(json) as Partial<LearnedWeightsFile>;
+    if (typeof parsed.version !== "number" || !parsed.profiles || typeof parsed.profiles !== "object") {
+        throw new Error(`Learned weights file needs a numeric "version" and a "profiles" object`);
+    }
+    for (const [name, learned] of Object.entries(parsed.profiles)) {
+        const numbers = [...Object.values(learned.weights || {}), ...Object.values(learned.qualitySignals || {})];
+        if (numbers.some(w => typeof w !== "number")) {
+            throw new Error(`Learned weights for "${name}" must be numbers`);
+        }
+    }
+    return parsed as LearnedWeightsFile;
+}
+
+/**
+ * A profile with trained weights swapped in. Signals the trainer never
+ * saw keep their weight.
+ */
+export function applyLearnedWeights(
+    profile: ScoringProfile,
+    learned: LearnedProfileWeights,
+    version?: number
+): ScoringProfile {
+    return {
+        ...profile,
+        label: version !== undefined ? `${profile.label} (learned v${version})` : profile.label,
+        weights: { ...profile.weights, ...learned.weights },
+        qualitySignals: profile.qualitySignals.map(signal => ({
+            ...signal,
+            weight: learned.qualitySignals?.[signal.flag] ?? signal.weight,
+        })),
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// INTERNAL
+// ═══════════════════════════════════════════════════════════════
+
+function getRegistry(): Map<string, ScoringProfile> {
+    if (!registry) {
+        registry = new Map();
+        for (const profile of (builtInProfiles as ScoringProfileFile).profiles) {
+            registry.set(profile.name, validateProfile(profile));
+        }
+
+        const file = process.env.SCORING_PROFILES_FILE;
+        if (file) {
+            if (!existsSync(file)) throw new Error(`SCORING_PROFILES_FILE not found: ${file}`);
+            for (const profile of parseScoringProfiles(readFileSync(file, "utf-8"))) {
+                registry.set(profile.name, profile);
+            }
+        }
+
+        const learnedFile = process.env.LEARNED_WEIGHTS_FILE;
+        if (learnedFile) {
+            if (!existsSync(learnedFile)) throw new Error(`LEARNED_WEIGHTS_FILE not found: ${learnedFile}`);
+            const learned = parseLearnedWeights(readFileSync(learnedFile, "utf-8"));
+            for (const [name, weights] of Object.entries(learned.profiles)) {
+                const profile = registry.get(name);
+                if (profile) registry.set(name, applyLearnedWeights(profile, weights, learned.version));
+            }
+        }
+    }
+    return registry;
+}
+
+function validateProfile(profile: ScoringProfile): ScoringProfile {
+    const where = `scoring profile "${profile?.name ?? "?"}"`;
+
+    if (typeof profile?.name !== "string" || !profile.name) throw new Error(`${where}: missing name`);
+    for (const key of WEIGHT_KEYS) {
+        if (typeof profile.weights?.[key] !== "number") throw new Error(`${where}: weights.${key} must be a number`);
+    }
+    if (!Array.isArray(profile.qualitySignals) || profile.qualitySignals.some(s =>
+        typeof s.flag !== "string" || typeof s.weight !== "number" || !Array.isArray(s.keywords)
+    )) {
+        throw new Error(`${where}: qualitySignals need flag, weight and keywords`);
+    }
+    if (!Array.isArray(profile.clickbaitSignals)) throw new Error(`${where}: clickbaitSignals must be an array`);
+
+    return {
+        ...profile,
+        label: profile.label || profile.name,
+        subjectKeywords: profile.subjectKeywords || [],
+    };
+}
+
+/** Whole-word match, so "art" doesn't match "start" */
+function containsWord(text: string, keyword: string): boolean {
+    const escaped = keyword.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(text);
+}
@@ -0,0 +1,129 @@
+/**
+ * 🔌 Search Provider — One Interface for Every Video Source
+ *
+ * The engine never talks to yt-search or the YouTube Data API directly.
+ * It asks a SearchProvider, which returns results already mapped into
+ * our own shapes (VideoCandidate, PlaylistSummary, PlaylistVideo).
+ *
+ * IMPLEMENTATIONS:
+ *   - ytSearchProvider      → yt-search scraper (free, default)
+ *   - youtubeApiProvider    → YouTube Data API v3 (quota, reliable on Vercel)
+ *   - fixtureSearchProvider → replays recorded results from disk (tests/offline)
+ *
+ * SELECTION (when no provider is passed explicitly):
+ *   SEARCH_PROVIDER=yt-search | youtube-api | fixture
+ *   SEARCH_FIXTURES_DIR=<dir>   (required for "fixture")
+ *
+ * ENRICHMENT: getEnrichmentProvider() is where search results get their
+ * videos.list metadata (tags, category, likes) — the YouTube Data API
+ * when a key is configured, otherwise nowhere.
+ */
+
+import type { VideoCandidate } from "./searchScraper.js";
+import type { VideoChapter } from "./chapterParser.js";
+import { createYtSearchProvider } from "./ytSearchProvider.js";
+import { createYouTubeApiProvider } from "./youtubeApiProvider.js";
+import { createFixtureSearchProvider } from "./fixtureSearchProvider.js";
+import { hasYouTubeApiKey } from "./youtubeClient.js";
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface PlaylistSummary {
+    playlistId: string;
+    title: string;
+    channelName: string;
+    videoCount?: number;
+}
+
+export interface PlaylistVideo {
+    videoId: string;
+    title: string;
+    description?: string;
+    duration?: { seconds: number; timestamp: string };
+    chapters?: VideoChapter[];  // From the description, when the provider has it
+}
+
+/** Extra per-video metadata; only the fields a provider knows are set */
+export type VideoDetails = Partial<VideoCandidate> & { videoId: string };
+
+export interface SearchProvider {
+    /** Short identifier for logs, e.g. "yt-search" */
+    readonly name: string;
+    /** Free-text video search */
+    searchVideos(query: string): Promise<VideoCandidate[]>;
+    /** Free-text playlist search */
+    searchPlaylists(query: string): Promise<PlaylistSummary[]>;
+    /** Ordered contents of a playlist */
+    getPlaylistVideos(playlistId: string): Promise<PlaylistVideo[]>;
+    /** Full metadata for specific videos (missing IDs are simply absent) */
+    getVideoDetails(videoIds: string[]): Promise<Map<string, VideoDetails>>;
+}
+
+export type SearchProviderName = "yt-search" | "youtube-api" | "fixture";
+
+// ═══════════════════════════════════════════════════════════════
+// DEFAULT PROVIDER
+// ═══════════════════════════════════════════════════════════════
+
+let defaultProvider: SearchProvider | null = null;
+let enrichmentOverride: SearchProvider | null | undefined;
+
+/**
+ * Get the process-wide default provider (created from env on first use).
+ */
+export function getSearchProvider(): SearchProvider {
+    if (!defaultProvider) {
+        defaultProvider = createSearchProvider(
+            (process.env.SEARCH_PROVIDER as SearchProviderName) || "yt-search"
+        );
+    }
+    return defaultProvider;
+}
+
+/**
+ * Override the default provider (e.g. a fixture provider in tests).
+ * Pass null to go back to the env-configured provider.
+ */
+export function setSearchProvider(provider: SearchProvider | null): void {
+    defaultProvider = provider;
+}
+
+/**
+ * Provider whose getVideoDetails enriches search results: the YouTube
+ * Data API when a key is configured, null (no enrichment) otherwise.
+ */
+export function getEnrichmentProvider(): SearchProvider | null {
+    if (enrichmentOverride !== undefined) return enrichmentOverride;
+    return hasYouTubeApiKey() ? createYouTubeApiProvider() : null;
+}
+
+/**
+ * Override the enrichment provider (null = never enrich, e.g. a cassette
+ * without API data). Pass undefined to go back to the env-configured one.
+ */
+export function setEnrichmentProvider(provider: SearchProvider | null | undefined): void {
+    enrichmentOverride = provider;
+}
+
+/**
+ * Create a provider by name.
+ */
+export function createSearchProvider(name: SearchProviderName): SearchProvider {
+    switch (name) {
+        case "youtube-api":
+            return createYouTubeApiProvider();
+        case "fixture": {
+            const dir = process.env.SEARCH_FIXTURES_DIR;
+            if (!dir) {
+                throw new Error("SEARCH_PROVIDER=fixture requires SEARCH_FIXTURES_DIR");
+            }
+            return createFixtureSearchProvider(dir);
+        }
+        case "yt-search":
+            return createYtSearchProvider();
+        default:
+            throw new Error(`Unknown search provider: "${name}"`);
+    }
+}
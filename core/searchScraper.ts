@@ -4,9 +4,15 @@
  * Philosophy: Technical depth over popularity.
  * 
  * Copied from Dojo: src/utils/searchScraper.ts
- * No modifications needed — this file has no internal imports.
+ * Internal imports: the VideoChapter type (core/chapterParser), the
+ * scoring profiles (core/scoringProfiles) that replace the hard-coded weights,
+ * and per-language clickbait phrases (core/types).
  */
 
+import type { VideoChapter } from "./chapterParser.js";
+import { LANGUAGE_CLICKBAIT, type Language } from "./types.js";
+import { getScoringProfile, signalFeature, type ScoringProfile, type ScoringWeights } from "./scoringProfiles.js";
+
 export interface VideoCandidate {
     videoId: string;
     title: string;
@@ -20,8 +26,10 @@ export interface VideoCandidate {
         name: string;
         url?: string;
     };
+    thumbnail?: string;
     densityScore?: number;
     densityFlags?: string[];
+    densityFeatures?: string[];     // Rules that fired — what the weight trainer learns from
     // API Enriched Fields
     tags?: string[];
     category?: string;
@@ -30,6 +38,9 @@ export interface VideoCandidate {
     likeCount?: number;
     commentCount?: number;
     transcriptSnippet?: string;
+    defaultAudioLanguage?: string;  // BCP-47 code the uploader set, e.g. "hi" (core/languageDetector)
+    // Timestamped chapters from the description (core/chapterParser)
+    chapters?: VideoChapter[];
 }
 
 export interface SearchQuery {
@@ -38,113 +49,90 @@ export interface SearchQuery {
 }
 
 // ═══════════════════════════════════════════════════════════════
-// WEIGHTS FOR DENSITY SCORING
+// THRESHOLDS FOR DENSITY SCORING
 // ═══════════════════════════════════════════════════════════════
-const WEIGHTS = {
-    GITHUB_BOOST: 50,           // +50 for GitHub/Colab links
-    LONG_VIDEO_BOOST: 30,       // +30 for videos > 15 minutes
-    MEDIUM_VIDEO_BOOST: 15,     // +15 for videos 10-15 minutes
-    DOCUMENTATION_BOOST: 25,    // +25 for documentation keywords
-    ACADEMIC_BOOST: 20,         // +20 for academic/research terms
-    EMPTY_DESC_PENALTY: -40,    // -40 for high-view videos with empty descriptions
+// Weights, keyword signals and clickbait phrases come from the scoring
+// profile (core/scoringProfiles); these cut-offs are the same for all.
+const THRESHOLDS = {
+    LONG_VIDEO_SECONDS: 900,            // > 15 minutes
+    MEDIUM_VIDEO_SECONDS: 600,          // > 10 minutes
+    HIGH_LIKE_RATIO: 0.04,
+    LOW_LIKE_RATIO: 0.005,
+    ENGAGEMENT_MIN_VIEWS: 10000,        // Like ratios of smaller videos are noise
     HIGH_VIEW_PENALTY_THRESHOLD: 500000,
-    CLICKBAIT_PENALTY: -100,    // Heavy penalty for clickbait signals
-};
-
-// Keywords that signal high-quality technical content
-const QUALITY_SIGNALS = {
-    github: ["github.com", "github.io", "gitlab.com", "bitbucket.org"],
-    colab: ["colab.research.google.com", "kaggle.com/code", "jupyter"],
-    documentation: ["documentation", "docs", "api reference", "readme", "implementation"],
-    academic: ["paper", "research", "arxiv", "whitepaper", "thesis", "algorithm"],
-    technical: ["source code", "repository", "npm", "pip install", "docker"],
+    SHORT_DESCRIPTION_LENGTH: 100,
+    AGGRESSIVE_CAPS_RATIO: 0.5,
 };
 
-// Signals that indicate clickbait or low-density content
-const CLICKBAIT_SIGNALS = [
-    "mind-blowing",
-    "you won't believe",
-    "insane",
-    "crazy",
-    "!! ",
-    "🔥🔥🔥",
-    "secrets revealed",
-    "changed my life",
-    "in just 5 minutes",
-    "watch this before",
-    "nobody tells you",
-];
+// YouTube API categories (VideoCandidate.category, from enrichment)
+const EDUCATION_CATEGORIES = ["Education", "Science & Technology"];
+const OFF_CATEGORIES = ["Gaming", "Comedy", "Music", "Entertainment", "Sports", "Trailers"];
 
 /**
- * Calculate the Information Density Score for a video
- * Higher score = better technical content likelihood
+ * Calculate the Information Density Score for a video under a scoring
+ * profile (default: stem_programming). Every applied rule is returned
+ * as a flag with its weight, e.g. "🔗 GitHub Link (+50)", and as a
+ * feature id (its weight key, or signalFeature(flag) for keyword signals).
+ * The student's language adds its own clickbait phrases (LANGUAGE_CLICKBAIT).
+ * Higher score = better content likelihood.
  */
-export function calculateDensityScore(video: VideoCandidate): {
+export function calculateDensityScore(
+    video: VideoCandidate,
+    profile: ScoringProfile = getScoringProfile(),
+    language: Language = "english"
+): {
     score: number;
     flags: string[];
+    features: string[];
 } {
+    const { weights } = profile;
     let score = 0;
     const flags: string[] = [];
+    const features: string[] = [];
     const descLower = video.description.toLowerCase();
     const titleLower = video.title.toLowerCase();
 
+    const apply = (flag: string, weight: number, feature: string) => {
+        score += weight;
+        flags.push(`${flag} (${weight >= 0 ? "+" : ""}${weight})`);
+        features.push(feature);
+    };
+    const applyWeight = (flag: string, key: keyof ScoringWeights) => apply(flag, weights[key], key);
+
     // ═══════════════════════════════════════════════════════════════
     // POSITIVE SIGNALS
     // ═══════════════════════════════════════════════════════════════
 
-    // GitHub/Colab presence (strongest signal)
-    for (const signal of QUALITY_SIGNALS.github) {
-        if (descLower.includes(signal)) {
-            score += WEIGHTS.GITHUB_BOOST;
-            flags.push("🔗 GitHub Link");
-            break;
-        }
+    // Profile keyword signals (GitHub links, sources cited, worked examples...)
+    for (const signal of profile.qualitySignals) {
+        const matches = signal.keywords.some(keyword =>
+            descLower.includes(keyword) || (signal.inTitle && titleLower.includes(keyword))
+        );
+        if (matches) apply(signal.flag, signal.weight, signalFeature(signal.flag));
     }
 
-    for (const signal of QUALITY_SIGNALS.colab) {
-        if (descLower.includes(signal)) {
-            score += WEIGHTS.GITHUB_BOOST;
-            flags.push("📓 Notebook Link");
-            break;
-        }
+    // Chapter list in the description
+    if (video.chapters?.length) {
+        applyWeight("🧭 Chapters", "chapters");
     }
 
-    // Documentation keywords
-    for (const keyword of QUALITY_SIGNALS.documentation) {
-        if (descLower.includes(keyword) || titleLower.includes(keyword)) {
-            score += WEIGHTS.DOCUMENTATION_BOOST;
-            flags.push("📚 Documentation");
-            break;
-        }
+    // Category + engagement (only set on videos enriched via the YouTube API)
+    if (video.category && EDUCATION_CATEGORIES.includes(video.category)) {
+        applyWeight(`🏫 ${video.category}`, "educationCategory");
     }
 
-    // Academic/Research terms
-    for (const keyword of QUALITY_SIGNALS.academic) {
-        if (descLower.includes(keyword) || titleLower.includes(keyword)) {
-            score += WEIGHTS.ACADEMIC_BOOST;
-            flags.push("🎓 Academic");
-            break;
-        }
-    }
-
-    // Technical depth indicators
-    for (const keyword of QUALITY_SIGNALS.technical) {
-        if (descLower.includes(keyword)) {
-            score += 15;
-            flags.push("⚙️ Technical");
-            break;
+    if (video.likeCount !== undefined && video.views >= THRESHOLDS.ENGAGEMENT_MIN_VIEWS) {
+        const likeRatio = video.likeCount / video.views;
+        if (likeRatio >= THRESHOLDS.HIGH_LIKE_RATIO) {
+            applyWeight("👍 High Engagement", "highEngagement");
         }
     }
 
     // Duration scoring
-    if (video.duration.seconds > 900) {
-        // > 15 minutes
-        score += WEIGHTS.LONG_VIDEO_BOOST;
-        flags.push("⏱️ Deep Dive (15+ min)");
-    } else if (video.duration.seconds > 600) {
-        // 10-15 minutes
-        score += WEIGHTS.MEDIUM_VIDEO_BOOST;
-        flags.push("⏱️ Detailed (10-15 min)");
+    if (video.duration.seconds > THRESHOLDS.LONG_VIDEO_SECONDS) {
+        applyWeight("⏱️ Deep Dive (15+ min)", "longVideo");
+    } else if (video.duration.seconds > THRESHOLDS.MEDIUM_VIDEO_SECONDS) {
+        applyWeight("⏱️ Detailed (10-15 min)", "mediumVideo");
     }
 
     // ═══════════════════════════════════════════════════════════════
@@ -152,42 +140,51 @@ export function calculateDensityScore(video: VideoCandidate): {
     // ═══════════════════════════════════════════════════════════════
 
     // Clickbait detection
-    for (const signal of CLICKBAIT_SIGNALS) {
+    for (const signal of [...profile.clickbaitSignals, ...LANGUAGE_CLICKBAIT[language]]) {
         if (descLower.includes(signal) || titleLower.includes(signal)) {
-            score += WEIGHTS.CLICKBAIT_PENALTY;
-            flags.push("⚠️ Clickbait Signal");
+            applyWeight("⚠️ Clickbait Signal", "clickbait");
             break;
         }
     }
 
+    // Entertainment upload category
+    if (video.category && OFF_CATEGORIES.includes(video.category)) {
+        applyWeight(`⚠️ Off-Category (${video.category})`, "offCategory");
+    }
+
+    // Much watched, rarely liked
+    if (video.likeCount !== undefined && video.views >= THRESHOLDS.ENGAGEMENT_MIN_VIEWS) {
+        if (video.likeCount / video.views < THRESHOLDS.LOW_LIKE_RATIO) {
+            applyWeight("⚠️ Low Engagement", "lowEngagement");
+        }
+    }
+
     // High views + empty/short description = likely clickbait
     if (
-        video.views > WEIGHTS.HIGH_VIEW_PENALTY_THRESHOLD &&
-        video.description.length < 100
+        video.views > THRESHOLDS.HIGH_VIEW_PENALTY_THRESHOLD &&
+        video.description.length < THRESHOLDS.SHORT_DESCRIPTION_LENGTH
     ) {
-        score += WEIGHTS.EMPTY_DESC_PENALTY;
-        flags.push("⚠️ High Views, Low Info");
+        applyWeight("⚠️ High Views, Low Info", "emptyDescription");
     }
 
     // All caps title = aggressive marketing
     const capsRatio =
         (video.title.match(/[A-Z]/g) || []).length / video.title.length;
-    if (capsRatio > 0.5 && video.title.length > 10) {
-        score -= 20;
-        flags.push("⚠️ Aggressive Title");
+    if (capsRatio > THRESHOLDS.AGGRESSIVE_CAPS_RATIO && video.title.length > 10) {
+        applyWeight("⚠️ Aggressive Title", "aggressiveTitle");
     }
 
-    return { score, flags };
+    return { score, flags, features };
 }
 
 /**
  * Sort videos by density score (descending)
  */
-export function rankByDensity(videos: VideoCandidate[]): VideoCandidate[] {
+export function rankByDensity(videos: VideoCandidate[], profile?: ScoringProfile, language?: Language): VideoCandidate[] {
     return videos
         .map((v) => {
-            const { score, flags } = calculateDensityScore(v);
-            return { ...v, densityScore: score, densityFlags: flags };
+            const { score, flags, features } = calculateDensityScore(v, profile, language);
+            return { ...v, densityScore: score, densityFlags: flags, densityFeatures: features };
         })
         .sort((a, b) => (b.densityScore || 0) - (a.densityScore || 0));
 }
@@ -274,7 +271,7 @@ export function prepareForLLMRerank(videos: VideoCandidate[]): string {
                 extraSignals += `\nEngagement: ${likeRatio}% likes (${v.likeCount} likes)`;
             }
             if (v.transcriptSnippet) {
-                extraSignals += `\nTranscript Intro (First 60s): "${v.transcriptSnippet.slice(0, 300)}..."`;
+                extraSignals += `\nTranscript Excerpt: "${v.transcriptSnippet.slice(0, 300)}..."`;
             }
 
             return `[${i + 1}] ID: ${v.videoId}
@@ -282,7 +279,12 @@ Title: ${v.title}
 Channel: ${v.author.name}
 Duration: ${v.duration.timestamp}
 Description: ${descPreview}...
-Density Flags: ${v.densityFlags?.join(", ") || "None"}${extraSignals}`;
+Density Flags: ${v.densityFlags?.map(withoutWeight).join(", ") || "None"}${extraSignals}`;
         })
         .join("\n\n");
 }
+
+/** "🔗 GitHub Link (+50)" → "🔗 GitHub Link": the reranker judges signals, not our weights */
+function withoutWeight(flag: string): string {
+    return flag.replace(/ \([+-]\d+(?:\.\d+)?\)$/, "");
+}
@@ -0,0 +1,388 @@
+/**
+ * 🧭 Topic Matcher — TOC Topics ↔ Video Titles
+ *
+ * Decides which video (if any) covers each syllabus topic. Used by
+ * anchorHunter (coverage scoring) and gapFiller (anchor mapping).
+ *
+ * MATCHERS (all return similarities on the same 0-1 "match" scale):
+ *   - lexical   → Fuse.js title match + stemmed token overlap with
+ *                 title and description. Free, deterministic (default).
+ *   - embedding → cosine similarity of embeddings, from a local hashing
+ *                 embedder or Gemini (videoVault.generateEmbeddings).
+ *                 Catches "Lecture 7" / "L-12 | Part 2" style titles
+ *                 via their descriptions, and synonyms.
+ *   - hybrid    → best score of several matchers per pair.
+ *
+ * ASSIGNMENT: assignTopics() solves one-to-one topic → video assignment
+ * over the whole TOC (Hungarian algorithm), so two topics can never
+ * claim the same video by accident.
+ *
+ * SELECTION (when no matcher is passed explicitly):
+ *   TOPIC_MATCHER=lexical | local | gemini
+ */
+
+import Fuse from "fuse.js";
+import { cosineSimilarity, generateEmbeddings } from "./videoVault.js";
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface MatchCandidate {
+    id: string;
+    title: string;
+    description?: string;
+}
+
+export interface TopicMatcher {
+    /** Short identifier for logs, e.g. "lexical" */
+    readonly name: string;
+    /** Similarity matrix: result[topic][candidate], 0-1 (higher = better) */
+    score(topics: string[], candidates: MatchCandidate[]): Promise<number[][]>;
+}
+
+/** Batch embedder — null means "embeddings unavailable right now" */
+export type EmbedFunction = (texts: string[]) => Promise<number[][] | null>;
+
+export type TopicMatcherName = "lexical" | "local" | "gemini";
+
+// ═══════════════════════════════════════════════════════════════
+// CONFIG
+// ═══════════════════════════════════════════════════════════════
+
+/** Minimum similarity for a topic to count as covered by a video */
+export const MATCH_THRESHOLD = 0.6;
+
+/** Fuse.js config for fuzzy matching titles (score < 0.4 = match) */
+const FUSE_OPTIONS = {
+    threshold: 0.4,
+    distance: 100,
+    includeScore: true,
+    keys: ["title"],
+};
+
+/** Description-only evidence is weaker than the title saying it */
+const DESCRIPTION_WEIGHT = 0.7;
+
+/** Cosine below FLOOR = unrelated, above CEILING = same topic */
+const SEMANTIC_FLOOR = 0.5;
+const SEMANTIC_CEILING = 0.9;
+
+/** Dimensions of the local hashing embedder */
+const LOCAL_EMBEDDING_DIMS = 256;
+
+/** Words that say nothing about the topic itself */
+const STOPWORDS = new Set([
+    "a", "an", "and", "the", "of", "to", "in", "on", "for", "with", "by", "vs",
+    "is", "what", "how", "introduction", "intro", "lecture", "part", "chapter",
+    "tutorial", "explained", "basics", "complete", "full", "course", "video",
+]);
+
+// ═══════════════════════════════════════════════════════════════
+// DEFAULT MATCHER
+// ═══════════════════════════════════════════════════════════════
+
+let defaultMatcher: TopicMatcher | null = null;
+
+/**
+ * Get the process-wide default matcher (created from env on first use).
+ */
+export function getTopicMatcher(): TopicMatcher {
+    if (!defaultMatcher) {
+        defaultMatcher = createTopicMatcher(
+            (process.env.TOPIC_MATCHER as TopicMatcherName) || "lexical"
+        );
+    }
+    return defaultMatcher;
+}
+
+/**
+ * Override the default matcher. Pass null to go back to the env-configured one.
+ */
+export function setTopicMatcher(matcher: TopicMatcher | null): void {
+    defaultMatcher = matcher;
+}
+
+/**
+ * Create a matcher by name.
+ */
+export function createTopicMatcher(name: TopicMatcherName): TopicMatcher {
+    switch (name) {
+        case "lexical":
+            return createLexicalMatcher();
+        case "local":
+            return createHybridMatcher([createLexicalMatcher(), createEmbeddingMatcher(localEmbed, "local")]);
+        case "gemini":
+            return createHybridMatcher([createLexicalMatcher(), createEmbeddingMatcher(generateEmbeddings, "gemini")]);
+        default:
+            throw new Error(`Unknown topic matcher: "${name}"`);
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// MATCHERS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Fuse.js title match + stemmed token overlap (title, then description).
+ */
+export function createLexicalMatcher(): TopicMatcher {
+    return {
+        name: "lexical",
+
+        async score(topics, candidates) {
+            const fuse = new Fuse(candidates.map((c, index) => ({ title: c.title, index })), FUSE_OPTIONS);
+            const titleTokens = candidates.map(c => tokenize(c.title));
+            const descriptionTokens = candidates.map(c => tokenize(c.description || ""));
+
+            return topics.map(topic => {
+                const topicTokens = tokenize(topic);
+                const row = candidates.map((_, i) => Math.max(
+                    tokenOverlap(topicTokens, titleTokens[i]),
+                    DESCRIPTION_WEIGHT * tokenCoverage(topicTokens, descriptionTokens[i])
+                ));
+
+                for (const result of fuse.search(topic)) {
+                    if (result.score === undefined || result.score >= FUSE_OPTIONS.threshold) continue;
+                    row[result.item.index] = Math.max(row[result.item.index], 1 - result.score);
+                }
+
+                return row;
+            });
+        },
+    };
+}
+
+/**
+ * Cosine similarity of topic vs "title. description" embeddings,
+ * rescaled so SEMANTIC_FLOOR → 0 and SEMANTIC_CEILING → 1.
+ * Embeddings are cached per text for the life of the matcher.
+ */
+export function createEmbeddingMatcher(embed: EmbedFunction, label = "embedding"): TopicMatcher {
+    const cache = new Map<string, number[]>();
+
+    async function embedAll(texts: string[]): Promise<boolean> {
+        const missing = Array.from(new Set(texts.filter(t => !cache.has(t))));
+        if (missing.length === 0) return true;
+
+        const vectors = await embed(missing);
+        if (!vectors || vectors.length !== missing.length) return false;
+
+        missing.forEach((text, i) => cache.set(text, vectors[i]));
+        return true;
+    }
+
+    return {
+        name: label,
+
+        async score(topics, candidates) {
+            const candidateTexts = candidates.map(c =>
+                [c.title, c.description].filter(Boolean).join(". ").slice(0, 1000)
+            );
+
+            if (!(await embedAll([...topics, ...candidateTexts]))) {
+                // Embeddings unavailable — contribute nothing
+                return topics.map(() => candidates.map(() => 0));
+            }
+
+            return topics.map(topic => candidateTexts.map(text => {
+                const cosine = cosineSimilarity(cache.get(topic)!, cache.get(text)!);
+                if (!Number.isFinite(cosine)) return 0; // Empty text → zero vector
+                return clamp01((cosine - SEMANTIC_FLOOR) / (SEMANTIC_CEILING - SEMANTIC_FLOOR));
+            }));
+        },
+    };
+}
+
+/**
+ * Best score of several matchers for every topic/candidate pair.
+ */
+export function createHybridMatcher(matchers: TopicMatcher[]): TopicMatcher {
+    return {
+        name: matchers.map(m => m.name).join("+"),
+
+        async score(topics, candidates) {
+            const matrices = await Promise.all(matchers.map(m => m.score(topics, candidates)));
+            return topics.map((_, t) => candidates.map((_, c) =>
+                Math.max(...matrices.map(matrix => matrix[t][c]))
+            ));
+        },
+    };
+}
+
+/**
+ * Local embedding: hashed character trigrams of stemmed tokens.
+ * No network, no key — handles plurals/inflections, not synonyms.
+ */
+export async function localEmbed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+        const vector = new Array<number>(LOCAL_EMBEDDING_DIMS).fill(0);
+
+        for (const token of tokenize(text)) {
+            const padded = ` ${token} `;
+            for (let i = 0; i < padded.length - 2; i++) {
+                vector[hashString(padded.slice(i, i + 3)) % LOCAL_EMBEDDING_DIMS] += 1;
+            }
+        }
+
+        return vector;
+    });
+}
+
+// ═══════════════════════════════════════════════════════════════
+// ONE-TO-ONE ASSIGNMENT
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Assign each topic at most one candidate (and each candidate at most one
+ * topic), maximizing total similarity across the whole TOC.
+ * Returns the candidate index per topic, or null below `threshold`.
+ */
+export function assignTopics(
+    similarity: number[][],
+    threshold: number = MATCH_THRESHOLD
+): (number | null)[] {
+    const rows = similarity.length;
+    const cols = rows > 0 ? similarity[0].length : 0;
+    if (rows === 0 || cols === 0) return new Array(rows).fill(null);
+
+    // Pairs below threshold are worth nothing, so they never beat a real match
+    const cost = similarity.map(row => row.map(s => (s >= threshold ? 1 - s : 1)));
+
+    // Hungarian needs rows <= cols — transpose when there are more topics than videos
+    const assignment = rows <= cols
+        ? hungarian(cost)
+        : invert(hungarian(transpose(cost)), rows);
+
+    return assignment.map((col, row) =>
+        col !== null && similarity[row][col] >= threshold ? col : null
+    );
+}
+
+/**
+ * Min-cost assignment for an n×m cost matrix with n <= m (O(n²m)).
+ * Returns the assigned column for every row.
+ */
+function hungarian(cost: number[][]): (number | null)[] {
+    const n = cost.length;
+    const m = cost[0].length;
+    const u = new Array<number>(n + 1).fill(0);
+    const v = new Array<number>(m + 1).fill(0);
+    const p = new Array<number>(m + 1).fill(0);    // p[j] = row assigned to column j (1-based)
+    const way = new Array<number>(m + 1).fill(0);
+
+    for (let i = 1; i <= n; i++) {
+        p[0] = i;
+        let j0 = 0;
+        const minv = new Array<number>(m + 1).fill(Infinity);
+        const used = new Array<boolean>(m + 1).fill(false);
+
+        do {
+            used[j0] = true;
+            const i0 = p[j0];
+            let delta = Infinity;
+            let j1 = 0;
+
+            for (let j = 1; j <= m; j++) {
+                if (used[j]) continue;
+                const cur = cost[i0 - 1][j - 1] - u[i0] - v[j];
+                if (cur < minv[j]) {
+                    minv[j] = cur;
+                    way[j] = j0;
+                }
+                if (minv[j] < delta) {
+                    delta = minv[j];
+                    j1 = j;
+                }
+            }
+
+            for (let j = 0; j <= m; j++) {
+                if (used[j]) {
+                    u[p[j]] += delta;
+                    v[j] -= delta;
+                } else {
+                    minv[j] -= delta;
+                }
+            }
+            j0 = j1;
+        } while (p[j0] !== 0);
+
+        do {
+            const j1 = way[j0];
+            p[j0] = p[j1];
+            j0 = j1;
+        } while (j0 !== 0);
+    }
+
+    const result: (number | null)[] = new Array(n).fill(null);
+    for (let j = 1; j <= m; j++) {
+        if (p[j] !== 0) result[p[j] - 1] = j - 1;
+    }
+    return result;
+}
+
+function transpose(matrix: number[][]): number[][] {
+    return matrix[0].map((_, c) => matrix.map(row => row[c]));
+}
+
+/** Turn a column→row assignment back into row→column */
+function invert(assignment: (number | null)[], rows: number): (number | null)[] {
+    const result: (number | null)[] = new Array(rows).fill(null);
+    assignment.forEach((row, col) => {
+        if (row !== null) result[row] = col;
+    });
+    return result;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// INTERNAL: Tokens
+// ═══════════════════════════════════════════════════════════════
+
+function tokenize(text: string): string[] {
+    return Array.from(new Set(
+        text.toLowerCase()
+            .split(/[^\p{L}\p{M}\p{N}]+/u) // Any script: Devanagari, Bengali, Tamil, Telugu, ...
+            .filter(t => t.length > 1 && !STOPWORDS.has(t))
+            .map(stem)
+    ));
+}
+
+/** Crude plural stripping — "queues" → "queue", "trees" → "tree" */
+function stem(token: string): string {
+    if (token.length > 4 && token.endsWith("ies")) return token.slice(0, -3) + "y";
+    if (token.length > 3 && token.endsWith("s") && !token.endsWith("ss")) return token.slice(0, -1);
+    return token;
+}
+
+/** Share of topic tokens found in the other text (0-1) */
+function tokenCoverage(topicTokens: string[], otherTokens: string[]): number {
+    if (topicTokens.length === 0 || otherTokens.length === 0) return 0;
+    const other = new Set(otherTokens);
+    return topicTokens.filter(t => other.has(t)).length / topicTokens.length;
+}
+
+/**
+ * Topic coverage, discounted when the title is mostly about other things
+ * ("Queues" vs "Heaps and Priority Queues" scores below "Queues and Circular Queues").
+ */
+function tokenOverlap(topicTokens: string[], titleTokens: string[]): number {
+    const coverage = tokenCoverage(topicTokens, titleTokens);
+    if (coverage === 0) return 0;
+
+    const topic = new Set(topicTokens);
+    const precision = titleTokens.filter(t => topic.has(t)).length / titleTokens.length;
+    return coverage * (0.7 + 0.3 * precision);
+}
+
+function hashString(text: string): number {
+    let hash = 0;
+    for (let i = 0; i < text.length; i++) {
+        hash = ((hash << 5) - hash) + text.charCodeAt(i);
+        hash = hash & hash; // Convert to 32bit integer
+    }
+    return Math.abs(hash);
+}
+
+function clamp01(value: number): number {
+    return Math.min(1, Math.max(0, value));
+}
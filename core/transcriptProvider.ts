@@ -0,0 +1,103 @@
+/**
+ * 📝 Transcript Provider — Caption Tracks Behind One Interface
+ *
+ * A video titled "Lecture 9" says nothing about Dijkstra's algorithm;
+ * its captions do. The engine asks a TranscriptProvider for a video's
+ * caption text and never fetches captions itself.
+ *
+ * IMPLEMENTATIONS:
+ *   - none                      → no transcripts (default — ranking works as before)
+ *   - youtubeTranscriptProvider → caption tracks from the YouTube watch page
+ *   - fixtureTranscriptProvider → replays recorded transcripts (tests/offline)
+ *
+ * SELECTION (when no provider is passed explicitly):
+ *   TRANSCRIPT_PROVIDER=none | youtube | fixture
+ *   TRANSCRIPT_FIXTURES_DIR=<dir>   (required for "fixture")
+ */
+
+import { createYouTubeTranscriptProvider } from "./youtubeTranscriptProvider.js";
+import { createFixtureTranscriptProvider } from "./fixtureTranscriptProvider.js";
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface TranscriptSegment {
+    startSeconds: number;
+    text: string;
+}
+
+export interface Transcript {
+    videoId: string;
+    language: string;           // Caption track language code, e.g. "en"
+    text: string;               // All segments joined
+    segments: TranscriptSegment[];
+}
+
+export interface TranscriptProvider {
+    /** Short identifier for logs, e.g. "youtube" */
+    readonly name: string;
+    /** Caption text for a video, preferring the given language codes. Null = no captions */
+    fetchTranscript(videoId: string, languages?: string[]): Promise<Transcript | null>;
+}
+
+export type TranscriptProviderName = "none" | "youtube" | "fixture";
+
+// ═══════════════════════════════════════════════════════════════
+// DEFAULT PROVIDER
+// ═══════════════════════════════════════════════════════════════
+
+let defaultProvider: TranscriptProvider | null = null;
+
+/**
+ * Get the process-wide default provider (created from env on first use).
+ */
+export function getTranscriptProvider(): TranscriptProvider {
+    if (!defaultProvider) {
+        defaultProvider = createTranscriptProvider(
+            (process.env.TRANSCRIPT_PROVIDER as TranscriptProviderName) || "none"
+        );
+    }
+    return defaultProvider;
+}
+
+/**
+ * Override the default provider (e.g. a fixture provider in tests).
+ * Pass null to go back to the env-configured provider.
+ */
+export function setTranscriptProvider(provider: TranscriptProvider | null): void {
+    defaultProvider = provider;
+}
+
+/**
+ * Create a provider by name.
+ */
+export function createTranscriptProvider(name: TranscriptProviderName): TranscriptProvider {
+    switch (name) {
+        case "youtube":
+            return createYouTubeTranscriptProvider();
+        case "fixture": {
+            const dir = process.env.TRANSCRIPT_FIXTURES_DIR;
+            if (!dir) {
+                throw new Error("TRANSCRIPT_PROVIDER=fixture requires TRANSCRIPT_FIXTURES_DIR");
+            }
+            return createFixtureTranscriptProvider(dir);
+        }
+        case "none":
+            return createNoTranscriptProvider();
+        default:
+            throw new Error(`Unknown transcript provider: "${name}"`);
+    }
+}
+
+/**
+ * A provider that never has transcripts.
+ */
+export function createNoTranscriptProvider(): TranscriptProvider {
+    return {
+        name: "none",
+        async fetchTranscript() {
+            return null;
+        },
+    };
+}
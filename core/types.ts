@@ -10,13 +10,14 @@
 // ═══════════════════════════════════════════════════════════════
 
 export type StudentType = "high_school" | "undergrad" | "post_grad";
-export type Language = "english" | "hindi";
+export type Language = "english" | "hindi" | "hinglish" | "tamil" | "telugu" | "bengali" | "marathi";
 export type LearningMode = "from_scratch" | "revision" | "one_shot";
 
 export interface UserPreferences {
     studentType: StudentType;
     language: Language;
     learningMode: LearningMode;
+    timeBudgetMinutes?: number;          // Total watch time for the whole playlist
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -59,9 +60,83 @@ export interface PlaylistEntry {
     durationSeconds: number;
     durationDisplay: string;    // e.g., "15:32"
     topicMatched: string;       // Which TOC item this covers
+    topicsCovered?: string[];   // All TOC items, when adjacent topics were merged into this video
     source: VideoSource;
+    anchorPlaylistId?: string;  // Which anchor playlist this came from (anchor_playlist entries only)
+    role?: VideoRole;           // What this video does for its topic (only when videosPerTopic > 1)
+    topicTimestamps?: TopicTimestamp[]; // Where each TOC topic starts inside a long video (one-shot mode)
+    startSeconds?: number;      // Segment entries: watch only startSeconds-endSeconds of the video;
+    endSeconds?: number;        //   durationSeconds/durationDisplay are then the segment's length
+    rankingTrace?: RankingTrace; // Why this video won (only with BuildOptions.traceRanking)
+    rankingFeatures?: RankingFeatures; // Density rules it scored on (only with BuildOptions.recordFeatures)
+    detectedLanguage?: DetectedLanguage; // What core/languageDetector identified the video as
 }
 
+/** A video's language as identified by core/languageDetector */
+export interface DetectedLanguage {
+    language: Language | null;  // null = no letters to judge
+    confidence: number;         // 0-1
+    source: LanguageSource;
+}
+
+/** The evidence a language was identified from, strongest first */
+export type LanguageSource =
+    | "audio_track"         // YouTube API defaultAudioLanguage
+    | "script"              // Tamil / Telugu / Bengali / Devanagari letters
+    | "title_marker"        // Language named in the title ("... in Hindi")
+    | "ngram"               // Character-trigram classifier
+    | "none";
+
+/** How candidates in other languages are treated (see core/languageDetector) */
+export type LanguageCheckMode = "strict" | "lenient";
+
+/** What a searched pick scored on — logged with replace / keep feedback (core/rankingFeedback) */
+export interface RankingFeatures {
+    scoringProfile: string;
+    densityScore: number;
+    features: string[];         // calculateDensityScore feature ids, e.g. "longVideo", "signal:🔗 GitHub Link"
+}
+
+/** The candidate pool a searched entry was picked from, for auditing picks */
+export interface RankingTrace {
+    topic: string;
+    scoringProfile: string;     // Density-scoring profile name, e.g. "stem_programming"
+    fromVault: boolean;         // A cached winner — no fresh candidate pool
+    candidates: CandidateTrace[]; // Top candidates, best first (the entry's videoId marks the pick)
+    reranker?: {                // Only when the Gemini reranker ran
+        winnerId: string | null;
+        reasoning?: string;
+        fallbackUsed: boolean;
+    };
+}
+
+export interface CandidateTrace {
+    videoId: string;
+    title: string;
+    channelName: string;
+    densityScore: number;
+    densityFlags: string[];     // Every applied rule with its weight
+    durationSeconds: number;
+    durationFit: DurationFit;
+    relevanceScore: number;     // Relevance Guard score (0-100) of title + description vs the topic
+}
+
+/** How a candidate's length compares to the learning mode's DurationConfig */
+export type DurationFit = "fits" | "too_short" | "too_long" | "segment";
+
+/** A TOC topic located inside a video via its description chapters */
+export interface TopicTimestamp {
+    topic: string;
+    chapterTitle: string;       // The chapter marker it was matched to, e.g. "Normalization (1NF-3NF)"
+    startSeconds: number;
+}
+
+/** Depth levels when a topic gets several videos, in playlist order */
+export type VideoRole =
+    | "concept"             // Explains the idea (the topic's main video)
+    | "worked_example"      // Solves an example step by step
+    | "practice";           // Practice problems / exercises
+
 // ═══════════════════════════════════════════════════════════════
 // ANCHOR PLAYLIST
 // ═══════════════════════════════════════════════════════════════
@@ -77,9 +152,18 @@ export interface AnchorPlaylist {
     unmatchedTopics: string[];  // TOC items that are "gaps"
 }
 
+/** Short description of an anchor used in a built playlist */
+export interface AnchorSummary {
+    playlistId: string;
+    channelName: string;
+    playlistTitle: string;
+    coverageScore: number;      // This playlist's own coverage (0-100)
+}
+
 export interface AnchorVideo {
     videoId: string;
     title: string;
+    description?: string;       // When the provider returns it (helps match "Lecture 7" titles)
     durationSeconds: number;
     durationDisplay: string;
     position: number;           // Position within the original playlist
@@ -100,10 +184,73 @@ export interface PlaylistResult {
         playlistTitle: string;
         coverageScore: number;
     };
+    anchors?: AnchorSummary[];           // Every anchor stitched together (multi-anchor mode), primary first
+    channelConsistency: number;          // 0-100: % of videos from the two most-used channels
     preferences: UserPreferences;
+    timeBudget?: TimeBudgetReport;       // Only when preferences.timeBudgetMinutes is set
+    enrichment?: EnrichmentReport;       // Only when candidates were enriched via the YouTube API
     generatedAt: string;                 // ISO timestamp
 }
 
+/** How a playlist was fitted into UserPreferences.timeBudgetMinutes */
+export interface TimeBudgetReport {
+    budgetMinutes: number;
+    usedMinutes: number;
+    cutTopics: string[];                 // Dropped entirely, in TOC order
+    mergedTopics: string[];              // Folded into a neighbouring entry's topicsCovered
+    videosRemoved: number;               // Role videos + cut/merged topic videos
+}
+
+/** YouTube Data API enrichment of search candidates during one build */
+export interface EnrichmentReport {
+    videosEnriched: number;              // Candidates that got tags / category / likes
+    apiCalls: number;                    // videos.list calls (up to 50 videos each)
+    quotaUnits: number;                  // Quota spent on those calls
+}
+
+// ═══════════════════════════════════════════════════════════════
+// BUILD PROGRESS EVENTS
+// ═══════════════════════════════════════════════════════════════
+
+export type BuildStage =
+    | "extracting_syllabus"
+    | "hunting_anchor"
+    | "filling_gaps"
+    | "building_from_scratch"
+    | "searching_one_shot"
+    | "finalizing";
+
+export type BuildProgressEvent =
+    | { type: "stage"; stage: BuildStage; message: string }
+    | { type: "syllabus_extracted"; syllabusTitle: string; tableOfContents: string[] }
+    | {
+        type: "anchor_scored";
+        playlistTitle: string;
+        channelName: string;
+        coverageScore: number;      // 0-100
+        matchedTopics: number;
+        totalTopics: number;
+    }
+    | { type: "anchor_selected"; found: boolean; playlistTitle?: string; coverageScore?: number }
+    | {
+        type: "topic_resolved";
+        index: number;              // 1-based count of topics resolved so far
+        total: number;
+        topic: string;
+        entry: PlaylistEntry | null; // null = no video found for this topic
+    }
+    | {
+        type: "rerank_decision";
+        topic: string;
+        winnerId: string | null;
+        reasoning?: string;
+        fallbackUsed: boolean;
+    }
+    | { type: "complete"; result: PlaylistResult };
+
+/** Receives progress events while a playlist is being built */
+export type ProgressListener = (event: BuildProgressEvent) => void;
+
 // ═══════════════════════════════════════════════════════════════
 // DURATION CONFIGS (per learning mode)
 // ═══════════════════════════════════════════════════════════════
@@ -139,6 +286,33 @@ export const DURATION_CONFIGS: Record<LearningMode, DurationConfig> = {
 export const LANGUAGE_SUFFIXES: Record<Language, string> = {
     english: "",
     hindi: "in Hindi",
+    hinglish: "in Hinglish",
+    tamil: "in Tamil",
+    telugu: "in Telugu",
+    bengali: "in Bengali",
+    marathi: "in Marathi",
+};
+
+/** Caption track language codes to ask for, in order of preference */
+export const CAPTION_LANGUAGES: Record<Language, string[]> = {
+    english: ["en"],
+    hindi: ["hi", "en"],
+    hinglish: ["hi", "en"],     // Hinglish captions are usually filed under Hindi
+    tamil: ["ta", "en"],
+    telugu: ["te", "en"],
+    bengali: ["bn", "en"],
+    marathi: ["mr", "hi", "en"],
+};
+
+/** Clickbait phrases per language, on top of the scoring profile's (English) ones */
+export const LANGUAGE_CLICKBAIT: Record<Language, string[]> = {
+    english: [],
+    hindi: ["sabse aasan", "pakka aayega", "सबसे आसान", "पक्का आएगा", "100% आएगा"],
+    hinglish: ["sabse aasan", "pakka aayega", "100% aayega", "dimag hila", "bhai ne kar diya"],
+    tamil: ["கண்டிப்பாக பாருங்கள்", "100% வரும்", "மாஸ்"],
+    telugu: ["తప్పక చూడండి", "100% వస్తుంది", "మాస్"],
+    bengali: ["অবশ্যই দেখুন", "১০০% কমন", "100% common"],
+    marathi: ["नक्की बघा", "१००% येणार", "100% yenar"],
 };
 
 // ═══════════════════════════════════════════════════════════════
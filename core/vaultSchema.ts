@@ -0,0 +1,277 @@
+/**
+ * 🧱 Vault Schema — Migrations + Startup Check for the Supabase Vault
+ *
+ * The Supabase side of core/videoVault needs the video_vault table, the
+ * pgvector embedding column and the match_video_vault RPC. They're created
+ * by the versioned SQL files in supabase/migrations (0001_*.sql, ...).
+ * Each file records its version in public.vault_schema_migrations.
+ *
+ * STARTUP CHECK: before the first Supabase call, ensureVaultSchema()
+ * compares the database's version + columns with VAULT_SCHEMA_VERSION.
+ * An out-of-date schema logs one clear error and the vault sticks to its
+ * local store instead of failing on every query.
+ *
+ * LOCAL: openLocalVaultDatabase() starts PGlite (Postgres in WASM, with
+ * pgvector) so migrations and the match RPC can be tested without Supabase.
+ *
+ * CLI: npm run vault -- schema | migrate --local <dir>
+ */
+
+import { readdirSync, readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface VaultMigration {
+    version: number;
+    name: string;
+    sql: string;
+}
+
+/** The subset of a Postgres client the schema tools need (PGlite-compatible) */
+export interface SqlClient {
+    exec(sql: string): Promise<unknown>;
+    query<T>(sql: string, params?: unknown[]): Promise<{ rows: T[] }>;
+}
+
+export interface VaultSchemaStatus {
+    ok: boolean;
+    currentVersion: number;     // 0 = never migrated
+    expectedVersion: number;
+    problems: string[];
+}
+
+// ═══════════════════════════════════════════════════════════════
+// CONFIG
+// ═══════════════════════════════════════════════════════════════
+
+/** Latest migration in supabase/migrations — bump together with a new file */
+export const VAULT_SCHEMA_VERSION = 3;
+
+export const VAULT_MIGRATIONS_DIR = join(dirname(fileURLToPath(import.meta.url)), "..", "supabase", "migrations");
+
+/** Columns core/videoVault reads and writes */
+const REQUIRED_COLUMNS = [
+    "video_id",
+    "title",
+    "description",
+    "transcript_snippet",
+    "density_score",
+    "density_flags",
+    "embedding",
+    "metadata",
+    "lookup_key",
+];
+
+const MIGRATION_FILE = /^(\d+)_(.+)\.sql$/;
+
+let schemaCheck: Promise<boolean> | null = null;
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API: Migrations
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Read the migration files, ordered by version.
+ */
+export function loadVaultMigrations(dir: string = VAULT_MIGRATIONS_DIR): VaultMigration[] {
+    return readdirSync(dir)
+        .map(file => ({ file, match: MIGRATION_FILE.exec(file) }))
+        .filter(({ match }) => match !== null)
+        .map(({ file, match }) => ({
+            version: Number(match![1]),
+            name: match![2],
+            sql: readFileSync(join(dir, file), "utf-8"),
+        }))
+        .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Apply every migration newer than the database's version, in order.
+ * Returns the versions applied.
+ */
+export async function migrateVault(
+    db: SqlClient,
+    migrations: VaultMigration[] = loadVaultMigrations()
+): Promise<number[]> {
+    const current = await readSqlVersion(db);
+    const applied: number[] = [];
+
+    for (const migration of migrations.filter(m => m.version > current)) {
+        console.log(`🧱 Applying vault migration ${migration.version} (${migration.name})`);
+        await db.exec(`BEGIN;\n${migration.sql}\nCOMMIT;`).catch(async (error) => {
+            await db.exec("ROLLBACK;").catch(() => undefined);
+            throw new Error(`Vault migration ${migration.version} (${migration.name}) failed: ${String(error)}`);
+        });
+        applied.push(migration.version);
+    }
+
+    return applied;
+}
+
+/**
+ * Local Postgres-compatible database (PGlite + pgvector).
+ * In-memory unless a data directory is given.
+ */
+export async function openLocalVaultDatabase(dataDir?: string): Promise<SqlClient & { close(): Promise<void> }> {
+    const { PGlite } = await import("@electric-sql/pglite");
+    const { vector } = await import("@electric-sql/pglite/vector");
+
+    return new PGlite({ dataDir, extensions: { vector } });
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API: Schema Checks
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Check a database reached over SQL (local PGlite, direct Postgres).
+ */
+export async function checkVaultSchemaSql(db: SqlClient): Promise<VaultSchemaStatus> {
+    const currentVersion = await readSqlVersion(db);
+
+    const { rows } = await db.query<{ column_name: string }>(
+        `SELECT column_name FROM information_schema.columns
+         WHERE table_schema = 'public' AND table_name = 'video_vault'`
+    );
+    const columns = new Set(rows.map(r => r.column_name));
+
+    const { rows: functions } = await db.query<{ proname: string }>(
+        `SELECT proname FROM pg_proc WHERE proname = 'match_video_vault'`
+    );
+
+    return toStatus(currentVersion, [
+        ...missingColumnProblems(columns, rows.length > 0),
+        ...(functions.length === 0 ? ["function match_video_vault() is missing"] : []),
+    ]);
+}
+
+/**
+ * Check the Supabase vault through PostgREST (SUPABASE_URL + SUPABASE_KEY).
+ */
+export async function checkSupabaseVaultSchema(): Promise<VaultSchemaStatus> {
+    const { createClient } = await import("@supabase/supabase-js");
+
+    const supabase = createClient(
+        process.env.SUPABASE_URL!,
+        process.env.SUPABASE_KEY!
+    );
+
+    const versions = await supabase
+        .from("vault_schema_migrations")
+        .select("version")
+        .order("version", { ascending: false })
+        .limit(1);
+
+    // Missing table = never migrated; anything else is a real failure
+    if (versions.error && !isMissingRelation(versions.error)) {
+        throw versions.error;
+    }
+    const currentVersion = (versions.data?.[0] as { version: number } | undefined)?.version ?? 0;
+
+    const problems: string[] = [];
+    const probe = await supabase.from("video_vault").select(REQUIRED_COLUMNS.join(",")).limit(0);
+
+    if (probe.error) {
+        if (isMissingRelation(probe.error)) {
+            problems.push("table public.video_vault is missing");
+        } else if (probe.error.code === "42703") {
+            problems.push(`video_vault columns are out of date (${probe.error.message})`);
+        } else {
+            throw probe.error;
+        }
+    }
+
+    return toStatus(currentVersion, problems);
+}
+
+/**
+ * One-line-per-problem report with the fix.
+ */
+export function formatVaultSchemaStatus(status: VaultSchemaStatus): string {
+    if (status.ok) {
+        return `✅ Video vault schema is up to date (version ${status.currentVersion})`;
+    }
+
+    return [
+        `❌ Video vault schema is out of date: database is at version ${status.currentVersion}, ` +
+        `this build needs version ${status.expectedVersion}.`,
+        ...status.problems.map(p => `   - ${p}`),
+        `   Apply the pending files in supabase/migrations (supabase db push, or paste them into the SQL editor).`,
+    ].join("\n");
+}
+
+/**
+ * Startup check for the Supabase vault, run once per process.
+ * Resolves false (after logging why) when the schema is out of date.
+ * If the check itself can't run, Supabase stays enabled — its own calls
+ * will surface the failure.
+ */
+export function ensureVaultSchema(): Promise<boolean> {
+    if (!schemaCheck) {
+        schemaCheck = checkSupabaseVaultSchema()
+            .then(status => {
+                if (!status.ok) {
+                    console.error(formatVaultSchemaStatus(status));
+                    console.error("   Supabase vault disabled for this process — using the local store only.");
+                }
+                return status.ok;
+            })
+            .catch(error => {
+                console.warn("⚠️ Video vault schema check failed:", error);
+                return true;
+            });
+    }
+    return schemaCheck;
+}
+
+/**
+ * Forget the cached startup check (tests, or after migrating).
+ */
+export function resetVaultSchemaCheck(): void {
+    schemaCheck = null;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// INTERNAL
+// ═══════════════════════════════════════════════════════════════
+
+async function readSqlVersion(db: SqlClient): Promise<number> {
+    const { rows } = await db.query<{ exists: boolean }>(
+        `SELECT to_regclass('public.vault_schema_migrations') IS NOT NULL AS exists`
+    );
+    if (!rows[0]?.exists) return 0;
+
+    const versions = await db.query<{ version: number | null }>(
+        `SELECT MAX(version) AS version FROM public.vault_schema_migrations`
+    );
+    return versions.rows[0]?.version ?? 0;
+}
+
+function missingColumnProblems(columns: Set<string>, tableExists: boolean): string[] {
+    if (!tableExists) return ["table public.video_vault is missing"];
+
+    const missing = REQUIRED_COLUMNS.filter(c => !columns.has(c));
+    return missing.length > 0 ? [`video_vault is missing columns: ${missing.join(", ")}`] : [];
+}
+
+function toStatus(currentVersion: number, problems: string[]): VaultSchemaStatus {
+    if (currentVersion < VAULT_SCHEMA_VERSION) {
+        problems = [`${VAULT_SCHEMA_VERSION - currentVersion} migration(s) not applied`, ...problems];
+    }
+
+    return {
+        ok: problems.length === 0,
+        currentVersion,
+        expectedVersion: VAULT_SCHEMA_VERSION,
+        problems,
+    };
+}
+
+/** Postgres "undefined_table", or PostgREST's "not in the schema cache" */
+function isMissingRelation(error: { code?: string }): boolean {
+    return error.code === "42P01" || error.code === "PGRST205";
+}
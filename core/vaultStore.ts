@@ -0,0 +1,388 @@
+/**
+ * 🗃️ Vault Store — Where the Video Vault Keeps Its Entries
+ *
+ * Backends behind core/videoVault's checkVideoVault / storeInVideoVault:
+ *   - memory → in-process Map (default; gone on every cold start)
+ *   - jsonl  → append-only JSON-lines file on disk, survives restarts.
+ *              For self-hosted deployments and CI caches.
+ *
+ * Both honor a TTL (expired entries are misses) and a max entry count
+ * (oldest entries are evicted first). The JSONL file is compacted
+ * automatically once superseded lines pile up, and on prune().
+ *
+ * SELECTION (env):
+ *   VIDEO_VAULT_BACKEND=memory | jsonl
+ *   VIDEO_VAULT_PATH=.cache/video-vault.jsonl
+ *   VIDEO_VAULT_TTL_HOURS=168
+ *   VIDEO_VAULT_MAX_ENTRIES=5000
+ *
+ * CLI: npm run vault -- stats | prune
+ */
+
+import {
+    existsSync,
+    mkdirSync,
+    readFileSync,
+    renameSync,
+    statSync,
+    appendFileSync,
+    writeFileSync,
+} from "node:fs";
+import { dirname } from "node:path";
+import type { VideoVaultEntry } from "./videoVault.js";
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+/** One line of the JSONL file */
+export interface VaultRecord {
+    key: string;
+    storedAt: string;       // ISO timestamp
+    entry: VideoVaultEntry;
+}
+
+export interface VaultStoreOptions {
+    /** Entries older than this are treated as missing */
+    ttlMs?: number;
+    /** Oldest entries are evicted beyond this count */
+    maxEntries?: number;
+}
+
+export interface VaultStats {
+    backend: string;
+    entries: number;
+    expired: number;
+    oldest?: string;
+    newest?: string;
+    path?: string;
+    fileBytes?: number;
+    fileLines?: number;
+}
+
+export interface PruneResult {
+    removed: number;
+    kept: number;
+}
+
+export interface VaultStore {
+    /** Short identifier for logs, e.g. "jsonl" */
+    readonly name: string;
+    get(key: string): VideoVaultEntry | null;
+    getByVideoId(videoId: string): VideoVaultEntry | null;
+    /** Every live (unexpired) entry, oldest first — for brute-force similarity search */
+    entries(): VideoVaultEntry[];
+    set(key: string, entry: VideoVaultEntry): void;
+    clear(): void;
+    stats(): VaultStats;
+    /** Drop expired + over-limit entries (and compact the file, if any) */
+    prune(): PruneResult;
+}
+
+export type VaultBackendName = "memory" | "jsonl";
+
+// ═══════════════════════════════════════════════════════════════
+// CONFIG
+// ═══════════════════════════════════════════════════════════════
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+const DEFAULT_MAX_ENTRIES = 5000;
+const DEFAULT_VAULT_PATH = ".cache/video-vault.jsonl";
+
+/** Compact the JSONL file once it has this many lines per live entry */
+const COMPACTION_RATIO = 2;
+const MIN_LINES_BEFORE_COMPACTION = 200;
+
+// ═══════════════════════════════════════════════════════════════
+// DEFAULT STORE
+// ═══════════════════════════════════════════════════════════════
+
+let defaultStore: VaultStore | null = null;
+
+/**
+ * Get the process-wide vault store (created from env on first use).
+ */
+export function getVaultStore(): VaultStore {
+    if (!defaultStore) {
+        defaultStore = createVaultStore(
+            (process.env.VIDEO_VAULT_BACKEND as VaultBackendName) || "memory"
+        );
+    }
+    return defaultStore;
+}
+
+/**
+ * Override the default store. Pass null to go back to the env-configured one.
+ */
+export function setVaultStore(store: VaultStore | null): void {
+    defaultStore = store;
+}
+
+/**
+ * Create a store by name, with TTL / size limits from env.
+ */
+export function createVaultStore(name: VaultBackendName): VaultStore {
+    const options: VaultStoreOptions = {
+        ttlMs: positiveEnv("VIDEO_VAULT_TTL_HOURS", DEFAULT_TTL_HOURS) * 60 * 60 * 1000,
+        maxEntries: positiveEnv("VIDEO_VAULT_MAX_ENTRIES", DEFAULT_MAX_ENTRIES),
+    };
+
+    switch (name) {
+        case "memory":
+            return createMemoryVaultStore(options);
+        case "jsonl":
+            return createJsonlVaultStore(process.env.VIDEO_VAULT_PATH || DEFAULT_VAULT_PATH, options);
+        default:
+            throw new Error(`Unknown video vault backend: "${name}"`);
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// BACKENDS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * In-process store. Fast, zero config, lost on restart.
+ */
+export function createMemoryVaultStore(options: VaultStoreOptions = {}): VaultStore {
+    const records = new Map<string, VaultRecord>();
+    const limits = resolveLimits(options);
+
+    return {
+        name: "memory",
+
+        get(key) {
+            return liveEntry(records.get(key), limits.ttlMs);
+        },
+
+        getByVideoId(videoId) {
+            return findByVideoId(records, videoId, limits.ttlMs);
+        },
+
+        entries() {
+            return liveEntries(records, limits.ttlMs);
+        },
+
+        set(key, entry) {
+            records.delete(key); // Re-insert so Map order stays oldest → newest
+            records.set(key, { key, storedAt: new Date().toISOString(), entry });
+            if (records.size > limits.maxEntries) {
+                pruneRecords(records, limits);
+            }
+        },
+
+        clear() {
+            records.clear();
+        },
+
+        stats() {
+            return { backend: "memory", ...countRecords(records, limits.ttlMs) };
+        },
+
+        prune() {
+            return pruneRecords(records, limits);
+        },
+    };
+}
+
+/**
+ * JSON-lines file store. Appends one line per write; the newest line for a
+ * key wins. Loaded lazily on first access.
+ */
+export function createJsonlVaultStore(path: string, options: VaultStoreOptions = {}): VaultStore {
+    const limits = resolveLimits(options);
+    let records: Map<string, VaultRecord> | null = null;
+    let fileLines = 0;
+
+    function load(): Map<string, VaultRecord> {
+        if (records) return records;
+
+        records = new Map();
+        fileLines = 0;
+        if (!existsSync(path)) return records;
+
+        let malformed = 0;
+        for (const line of readFileSync(path, "utf-8").split("\n")) {
+            if (!line.trim()) continue;
+            fileLines++;
+
+            try {
+                const record = JSON.parse(line) as VaultRecord;
+                records.delete(record.key);
+                records.set(record.key, record);
+            } catch {
+                malformed++;
+            }
+        }
+
+        if (malformed > 0) {
+            console.warn(`⚠️ Video vault: skipped ${malformed} malformed lines in ${path}`);
+        }
+        return records;
+    }
+
+    /** Rewrite the file with only the live records (atomic rename) */
+    function compact(): void {
+        const live = load();
+        mkdirSync(dirname(path), { recursive: true });
+
+        const tmp = `${path}.tmp`;
+        const lines = Array.from(live.values()).map(r => JSON.stringify(r));
+        writeFileSync(tmp, lines.length > 0 ? lines.join("\n") + "\n" : "");
+        renameSync(tmp, path);
+        fileLines = live.size;
+    }
+
+    function prune(): PruneResult {
+        const result = pruneRecords(load(), limits);
+        compact();
+        return result;
+    }
+
+    return {
+        name: "jsonl",
+
+        get(key) {
+            return liveEntry(load().get(key), limits.ttlMs);
+        },
+
+        getByVideoId(videoId) {
+            return findByVideoId(load(), videoId, limits.ttlMs);
+        },
+
+        entries() {
+            return liveEntries(load(), limits.ttlMs);
+        },
+
+        set(key, entry) {
+            const live = load();
+            const record: VaultRecord = { key, storedAt: new Date().toISOString(), entry };
+
+            live.delete(key);
+            live.set(key, record);
+
+            mkdirSync(dirname(path), { recursive: true });
+            appendFileSync(path, JSON.stringify(record) + "\n");
+            fileLines++;
+
+            const bloated = fileLines > Math.max(MIN_LINES_BEFORE_COMPACTION, live.size * COMPACTION_RATIO);
+            if (live.size > limits.maxEntries || bloated) {
+                prune();
+            }
+        },
+
+        clear() {
+            records = new Map();
+            compact();
+        },
+
+        stats() {
+            const live = load();
+            return {
+                backend: "jsonl",
+                ...countRecords(live, limits.ttlMs),
+                path,
+                fileBytes: existsSync(path) ? statSync(path).size : 0,
+                fileLines,
+            };
+        },
+
+        prune,
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// INTERNAL: Shared record handling
+// ═══════════════════════════════════════════════════════════════
+
+/** NaN / zero / negative limits would disable expiry and eviction — use the defaults */
+function resolveLimits(options: VaultStoreOptions): Required<VaultStoreOptions> {
+    return {
+        ttlMs: isPositive(options.ttlMs) ? options.ttlMs : DEFAULT_TTL_HOURS * 60 * 60 * 1000,
+        maxEntries: isPositive(options.maxEntries) ? options.maxEntries : DEFAULT_MAX_ENTRIES,
+    };
+}
+
+function isPositive(value: number | undefined): value is number {
+    return value !== undefined && Number.isFinite(value) && value > 0;
+}
+
+/** A positive number from env, or the fallback (with a warning when the value is unusable) */
+function positiveEnv(name: string, fallback: number): number {
+    const raw = process.env[name];
+    if (raw === undefined || raw === "") return fallback;
+
+    const value = Number(raw);
+    if (isPositive(value)) return value;
+
+    console.warn(`⚠️ ${name}="${raw}" is not a positive number — using ${fallback}`);
+    return fallback;
+}
+
+function isExpired(record: VaultRecord, ttlMs: number): boolean {
+    return Date.now() - Date.parse(record.storedAt) > ttlMs;
+}
+
+function liveEntry(record: VaultRecord | undefined, ttlMs: number): VideoVaultEntry | null {
+    return record && !isExpired(record, ttlMs) ? record.entry : null;
+}
+
+function findByVideoId(
+    records: Map<string, VaultRecord>,
+    videoId: string,
+    ttlMs: number
+): VideoVaultEntry | null {
+    for (const record of records.values()) {
+        if (record.entry.video_id === videoId && !isExpired(record, ttlMs)) {
+            return record.entry;
+        }
+    }
+    return null;
+}
+
+function liveEntries(records: Map<string, VaultRecord>, ttlMs: number): VideoVaultEntry[] {
+    return Array.from(records.values())
+        .filter(record => !isExpired(record, ttlMs))
+        .map(record => record.entry);
+}
+
+/**
+ * Remove expired records, then the oldest ones beyond maxEntries.
+ * Relies on Map insertion order being oldest → newest.
+ */
+function pruneRecords(
+    records: Map<string, VaultRecord>,
+    limits: Required<VaultStoreOptions>
+): PruneResult {
+    let removed = 0;
+
+    for (const [key, record] of records) {
+        if (isExpired(record, limits.ttlMs)) {
+            records.delete(key);
+            removed++;
+        }
+    }
+
+    for (const key of records.keys()) {
+        if (records.size <= limits.maxEntries) break;
+        records.delete(key);
+        removed++;
+    }
+
+    return { removed, kept: records.size };
+}
+
+function countRecords(
+    records: Map<string, VaultRecord>,
+    ttlMs: number
+): Pick<VaultStats, "entries" | "expired" | "oldest" | "newest"> {
+    const all = Array.from(records.values());
+    const stamps = all.map(r => r.storedAt).sort();
+
+    return {
+        entries: all.length,
+        expired: all.filter(r => isExpired(r, ttlMs)).length,
+        oldest: stamps[0],
+        newest: stamps[stamps.length - 1],
+    };
+}
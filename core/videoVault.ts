@@ -4,9 +4,25 @@
  * Enables semantic search and prevents redundant API calls.
  * 
  * Copied from Dojo: src/utils/videoVault.ts
- * No modifications needed — this file has no internal imports.
+ * Local entries live in a VaultStore (core/vaultStore): in-memory by
+ * default, or a persistent JSONL file with VIDEO_VAULT_BACKEND=jsonl.
+ * Embeddings come from the Gemini key pool (core/gemini).
+ *
+ * LOOKUP ORDER:
+ *   1. Exact query hash (local store, then Supabase)
+ *   2. Semantic — when the caller passes semanticText: the nearest stored
+ *      entry in the same semanticScope whose embedding clears
+ *      VIDEO_VAULT_SIMILARITY_THRESHOLD (default 0.85). Brute-force cosine
+ *      over the local store, then pgvector (match_video_vault RPC).
+ *      "BST insertion and deletion" can reuse "Binary Search Trees".
  */
 
+import type { AnchorPlaylist } from "./types.js";
+import type { EmbedFunction } from "./topicMatcher.js";
+import { embedContentWithFailover } from "./gemini.js";
+import { getVaultStore } from "./vaultStore.js";
+import { ensureVaultSchema } from "./vaultSchema.js";
+
 export interface VideoVaultEntry {
     id?: string;
     video_id: string;
@@ -24,6 +40,14 @@ export interface VideoVaultEntry {
         query_used: string;
         user_role?: string;
         experience_level?: string;
+        /** Semantic lookups only consider entries with the same scope */
+        semantic_scope?: string;
+        /** Density rules the video scored on (searchScraper feature ids) */
+        density_features?: string[];
+        /** YouTube API audio language (BCP-47), when the video was enriched */
+        default_audio_language?: string;
+        /** Set when the entry caches an anchor hunt (video_id = primary playlist ID) */
+        anchors?: AnchorPlaylist[];
     };
 }
 
@@ -33,12 +57,42 @@ export interface CacheCheckResult {
     similarity?: number;
 }
 
+export interface VaultLookupOptions {
+    /** Text to embed for nearest-neighbour lookup/storage (e.g. a TOC topic). Omit for exact-only */
+    semanticText?: string;
+    /** Semantic matches must share this scope (e.g. "topic|dsa|english|from_scratch") */
+    semanticScope?: string;
+}
+
 // ═══════════════════════════════════════════════════════════════
-// LOCAL CACHE (In-memory fallback when Supabase is not configured)
+// CONFIG
 // ═══════════════════════════════════════════════════════════════
 
-const LOCAL_CACHE = new Map<string, VideoVaultEntry>();
-const QUERY_HASH_CACHE = new Map<string, string>(); // query -> videoId
+const DEFAULT_SIMILARITY_THRESHOLD = 0.85;
+
+/** Recent text embeddings, so a lookup miss and the store that follows embed once */
+const EMBEDDING_CACHE_SIZE = 500;
+const embeddingCache = new Map<string, number[]>();
+
+/** Minimum cosine similarity for a semantic hit */
+function similarityThreshold(): number {
+    const value = Number(process.env.VIDEO_VAULT_SIMILARITY_THRESHOLD);
+    return Number.isFinite(value) && value > 0 ? value : DEFAULT_SIMILARITY_THRESHOLD;
+}
+
+let embedder: EmbedFunction | null = null;
+
+/**
+ * Override how vault texts are embedded (e.g. a local embedder in tests).
+ * Pass null to go back to Gemini (generateEmbeddings).
+ */
+export function setVaultEmbedder(embed: EmbedFunction | null): void {
+    embedder = embed;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// LOCAL CACHE (VaultStore — memory or JSONL, see core/vaultStore)
+// ═══════════════════════════════════════════════════════════════
 
 /**
  * Generate a simple hash for cache key
@@ -55,35 +109,63 @@ function hashQuery(query: string, role: string, experience: string): string {
 }
 
 /**
- * Check if a similar query exists in cache
- * Returns cached video if similarity > 0.9
+ * Check if the same (or, with semanticText, a similar) query exists in cache
  */
 export async function checkVideoVault(
     query: string,
     userRole: string,
-    experienceLevel: string
+    experienceLevel: string,
+    options: VaultLookupOptions = {}
 ): Promise<CacheCheckResult> {
     const cacheKey = hashQuery(query, userRole, experienceLevel);
 
     // Check local cache first
-    if (QUERY_HASH_CACHE.has(cacheKey)) {
-        const videoId = QUERY_HASH_CACHE.get(cacheKey)!;
-        const entry = LOCAL_CACHE.get(videoId);
-        if (entry) {
-            console.log(`✅ Cache hit for query: "${query.slice(0, 30)}..."`);
-            return { found: true, entry, similarity: 1.0 };
-        }
+    const entry = getVaultStore().get(cacheKey);
+    if (entry) {
+        console.log(`✅ Cache hit for query: "${query.slice(0, 30)}..."`);
+        return { found: true, entry, similarity: 1.0 };
     }
 
+    const useSupabase = await supabaseReady();
+
     // If Supabase is configured, check there
-    if (process.env.SUPABASE_URL && process.env.SUPABASE_KEY) {
+    if (useSupabase) {
         try {
-            return await checkSupabaseVault(query, userRole, experienceLevel);
+            const result = await checkSupabaseVault(query, userRole, experienceLevel);
+            if (result.found) return result;
         } catch (error) {
             console.warn("⚠️ Supabase check failed, using local cache:", error);
         }
     }
 
+    if (!options.semanticText) {
+        return { found: false };
+    }
+
+    // Semantic lookup: nearest neighbour within the same scope
+    const embedding = await embedText(options.semanticText);
+    if (!embedding) {
+        return { found: false };
+    }
+
+    const local = findNearestLocal(embedding, userRole, experienceLevel, options.semanticScope);
+    if (local.found) {
+        logSemanticHit(options.semanticText, local);
+        return local;
+    }
+
+    if (useSupabase) {
+        try {
+            const remote = await matchSupabaseVault(embedding, userRole, experienceLevel, options.semanticScope);
+            if (remote.found) {
+                logSemanticHit(options.semanticText, remote);
+                return remote;
+            }
+        } catch (error) {
+            console.warn("⚠️ Supabase similarity search failed:", error);
+        }
+    }
+
     return { found: false };
 }
 
@@ -94,18 +176,30 @@ export async function storeInVideoVault(
     entry: VideoVaultEntry,
     query: string,
     userRole: string,
-    experienceLevel: string
+    experienceLevel: string,
+    options: VaultLookupOptions = {}
 ): Promise<boolean> {
     const cacheKey = hashQuery(query, userRole, experienceLevel);
 
+    // Embed the semantic text so later, similar queries can find this entry
+    if (options.semanticText && !entry.embedding) {
+        const embedding = await embedText(options.semanticText);
+        if (embedding) {
+            entry = {
+                ...entry,
+                embedding,
+                metadata: { ...entry.metadata, semantic_scope: options.semanticScope },
+            };
+        }
+    }
+
     // Always store in local cache
-    LOCAL_CACHE.set(entry.video_id, entry);
-    QUERY_HASH_CACHE.set(cacheKey, entry.video_id);
+    getVaultStore().set(cacheKey, entry);
 
     console.log(`💾 Cached video: ${entry.video_id} for query hash: ${cacheKey}`);
 
     // If Supabase is configured, store there too
-    if (process.env.SUPABASE_URL && process.env.SUPABASE_KEY) {
+    if (await supabaseReady()) {
         try {
             await storeInSupabase(entry);
             return true;
@@ -121,21 +215,60 @@ export async function storeInVideoVault(
  * Get cached video by ID
  */
 export function getCachedVideo(videoId: string): VideoVaultEntry | null {
-    return LOCAL_CACHE.get(videoId) || null;
+    return getVaultStore().getByVideoId(videoId);
 }
 
 /**
  * Clear local cache (for development/testing)
  */
 export function clearLocalCache(): void {
-    LOCAL_CACHE.clear();
-    QUERY_HASH_CACHE.clear();
+    getVaultStore().clear();
+}
+
+/**
+ * Brute-force cosine search over the local store.
+ */
+function findNearestLocal(
+    embedding: number[],
+    userRole: string,
+    experienceLevel: string,
+    scope: string | undefined
+): CacheCheckResult {
+    let best: CacheCheckResult = { found: false };
+    const threshold = similarityThreshold();
+
+    for (const entry of getVaultStore().entries()) {
+        const { metadata } = entry;
+        if (!entry.embedding || entry.embedding.length !== embedding.length) continue;
+        if (metadata.semantic_scope !== scope) continue;
+        if (metadata.user_role !== userRole || metadata.experience_level !== experienceLevel) continue;
+
+        const similarity = cosineSimilarity(embedding, entry.embedding);
+        if (similarity >= threshold && similarity > (best.similarity ?? 0)) {
+            best = { found: true, entry, similarity };
+        }
+    }
+
+    return best;
+}
+
+function logSemanticHit(text: string, result: CacheCheckResult): void {
+    console.log(
+        `🧲 Semantic cache hit for "${text.slice(0, 30)}": ` +
+        `${result.entry?.video_id} (similarity ${result.similarity?.toFixed(2)})`
+    );
 }
 
 // ═══════════════════════════════════════════════════════════════
 // SUPABASE INTEGRATION (Activated when env vars are present)
 // ═══════════════════════════════════════════════════════════════
 
+/** Configured, and the schema passed the startup check (core/vaultSchema) */
+async function supabaseReady(): Promise<boolean> {
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_KEY) return false;
+    return ensureVaultSchema();
+}
+
 async function checkSupabaseVault(
     query: string,
     userRole: string,
@@ -172,6 +305,44 @@ async function checkSupabaseVault(
     return { found: false };
 }
 
+/**
+ * Nearest neighbour via pgvector (match_video_vault RPC, supabase/migrations/0002).
+ */
+async function matchSupabaseVault(
+    embedding: number[],
+    userRole: string,
+    experienceLevel: string,
+    scope: string | undefined
+): Promise<CacheCheckResult> {
+    const { createClient } = await import("@supabase/supabase-js");
+
+    const supabase = createClient(
+        process.env.SUPABASE_URL!,
+        process.env.SUPABASE_KEY!
+    );
+
+    const { data, error } = await supabase.rpc("match_video_vault", {
+        query_embedding: embedding,
+        match_threshold: similarityThreshold(),
+        match_count: 1,
+        filter_scope: scope ?? null,
+        filter_role: userRole,
+        filter_experience: experienceLevel,
+    });
+
+    if (error) {
+        throw error;
+    }
+
+    const rows = (data || []) as Array<VideoVaultEntry & { similarity: number }>;
+    if (rows.length > 0) {
+        const { similarity, ...entry } = rows[0];
+        return { found: true, entry, similarity };
+    }
+
+    return { found: false };
+}
+
 async function storeInSupabase(entry: VideoVaultEntry): Promise<void> {
     const { createClient } = await import("@supabase/supabase-js");
 
@@ -187,9 +358,10 @@ async function storeInSupabase(entry: VideoVaultEntry): Promise<void> {
         transcript_snippet: entry.transcript_snippet,
         density_score: entry.density_score,
         density_flags: entry.density_flags,
+        embedding: entry.embedding,
         metadata: entry.metadata,
     }, {
-        onConflict: "video_id",
+        onConflict: "lookup_key", // user_role|query_used — a video can be cached under several keys
     });
 
     if (error) {
@@ -198,17 +370,49 @@ async function storeInSupabase(entry: VideoVaultEntry): Promise<void> {
 }
 
 // ═══════════════════════════════════════════════════════════════
-// EMBEDDING UTILITIES (For future pgvector integration)
+// EMBEDDING UTILITIES
 // ═══════════════════════════════════════════════════════════════
 
 /**
- * Generate embedding using Gemini (placeholder for pgvector)
+ * Generate an embedding for a query using Gemini.
+ * Returns null when no key is configured or the call fails.
  */
 export async function generateQueryEmbedding(
-    _query: string
+    query: string
 ): Promise<number[] | null> {
-    console.log("ℹ️ Embedding generation not yet implemented");
-    return null;
+    const [embedding] = (await generateEmbeddings([query])) || [];
+    return embedding || null;
+}
+
+/**
+ * Batch version of generateQueryEmbedding (one API call for all texts).
+ */
+export async function generateEmbeddings(
+    texts: string[]
+): Promise<number[][] | null> {
+    if (!process.env.GEMINI_API_KEY) return null; // Primary key is required for the pool
+
+    try {
+        return await embedContentWithFailover(texts);
+    } catch (error) {
+        console.warn("⚠️ Embedding generation failed:", error);
+        return null;
+    }
+}
+
+async function embedText(text: string): Promise<number[] | null> {
+    const key = `${embedder ? "custom" : "gemini"}|${text.toLowerCase().trim()}`;
+    const cached = embeddingCache.get(key);
+    if (cached) return cached;
+
+    const [embedding] = (await (embedder || generateEmbeddings)([text])) || [];
+    if (!embedding) return null;
+
+    if (embeddingCache.size >= EMBEDDING_CACHE_SIZE) {
+        embeddingCache.delete(embeddingCache.keys().next().value!);
+    }
+    embeddingCache.set(key, embedding);
+    return embedding;
 }
 
 /**
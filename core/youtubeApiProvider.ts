@@ -0,0 +1,124 @@
+/**
+ * 📺 YouTube Data API Provider
+ *
+ * SearchProvider backed by the official YouTube Data API (core/youtubeClient).
+ * Reliable where scraping gets blocked (Vercel), but costs quota:
+ *   - searchVideos / searchPlaylists: 100 units (search.list) + 1 per 50 videos
+ *   - getPlaylistVideos: 1 unit per 50 items + 1 per 50 videos
+ *   - getVideoDetails: 1 unit per 50 videos
+ *
+ * Every result is enriched with tags, category and statistics for free,
+ * since we need videos.list for durations anyway.
+ */
+
+import type { VideoCandidate } from "./searchScraper.js";
+import { withChapters } from "./chapterParser.js";
+import type {
+    SearchProvider,
+    PlaylistSummary,
+    PlaylistVideo,
+    VideoDetails,
+} from "./searchProvider.js";
+import {
+    searchYouTube,
+    fetchPlaylistItems,
+    fetchVideoDetails,
+    parseISODuration,
+    formatTimestamp,
+    type YouTubeEnhancement,
+} from "./youtubeClient.js";
+
+/**
+ * Create a SearchProvider backed by the YouTube Data API.
+ */
+export function createYouTubeApiProvider(): SearchProvider {
+    return {
+        name: "youtube-api",
+
+        async searchVideos(query: string): Promise<VideoCandidate[]> {
+            const items = await searchYouTube(query, "video");
+            if (items.length === 0) return [];
+
+            const details = await fetchVideoDetails(items.map(i => i.id));
+
+            return items.map(item => {
+                const detail = details.get(item.id);
+                return detail
+                    ? toVideoCandidate(detail)
+                    : {
+                        videoId: item.id,
+                        title: item.title,
+                        description: item.description,
+                        duration: { seconds: 0, timestamp: "0:00" },
+                        views: 0,
+                        author: { name: item.channelTitle },
+                        thumbnail: item.thumbnail,
+                    };
+            });
+        },
+
+        async searchPlaylists(query: string): Promise<PlaylistSummary[]> {
+            const items = await searchYouTube(query, "playlist");
+            return items.map(item => ({
+                playlistId: item.id,
+                title: item.title,
+                channelName: item.channelTitle,
+            }));
+        },
+
+        async getPlaylistVideos(playlistId: string): Promise<PlaylistVideo[]> {
+            const items = await fetchPlaylistItems(playlistId);
+            if (items.length === 0) return [];
+
+            const details = await fetchVideoDetails(items.map(i => i.videoId));
+
+            return items.map(item => {
+                const detail = details.get(item.videoId);
+                const seconds = detail ? parseISODuration(detail.exactDuration) : 0;
+                return withChapters({
+                    videoId: item.videoId,
+                    title: item.title,
+                    description: detail?.description,
+                    duration: detail
+                        ? { seconds, timestamp: formatTimestamp(seconds) }
+                        : undefined,
+                });
+            });
+        },
+
+        async getVideoDetails(videoIds: string[]): Promise<Map<string, VideoDetails>> {
+            const details = await fetchVideoDetails(videoIds);
+            const mapped = new Map<string, VideoDetails>();
+
+            for (const [videoId, detail] of details) {
+                mapped.set(videoId, toVideoCandidate(detail));
+            }
+
+            return mapped;
+        },
+    };
+}
+
+/**
+ * Map a videos.list enhancement into a fully-enriched VideoCandidate.
+ */
+function toVideoCandidate(detail: YouTubeEnhancement): VideoCandidate {
+    const seconds = parseISODuration(detail.exactDuration);
+
+    return withChapters({
+        videoId: detail.videoId,
+        title: detail.title,
+        description: detail.description,
+        duration: { seconds, timestamp: formatTimestamp(seconds) },
+        views: detail.statistics.viewCount,
+        author: { name: detail.channelTitle },
+        thumbnail: detail.thumbnail,
+        tags: detail.tags,
+        category: detail.categoryName,
+        officialTopics: detail.officialTopics,
+        channelId: detail.channelId,
+        likeCount: detail.statistics.likeCount,
+        commentCount: detail.statistics.commentCount,
+        defaultAudioLanguage: detail.defaultAudioLanguage,
+    });
+}
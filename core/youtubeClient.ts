@@ -8,17 +8,26 @@
  * Used to enrich video candidates with tags, official categories, and exact statistics.
  * 
  * COST: 1 Unit per 50 videos (extremely cheap).
+ *       search.list is 100 units per call — only used by the youtube-api SearchProvider.
+ * 
+ * KEYS: YOUTUBE_API_KEY, YOUTUBE_API_KEY_2, YOUTUBE_API_KEY_3 (or GOOGLE_API_KEY).
+ * A 403 (quota/forbidden) rotates to the next key.
  */
 
-const YOUTUBE_API_BASE = "https://www.googleapis.com/youtube/v3/videos";
+const YOUTUBE_API_ROOT = "https://www.googleapis.com/youtube/v3";
 
 export interface YouTubeEnhancement {
     videoId: string;
+    title: string;
+    description: string;
+    channelTitle: string;
+    thumbnail?: string;
     channelId: string;
     tags: string[];
     categoryId: string;
     categoryName?: string;
     officialTopics: string[];
+    defaultAudioLanguage?: string;
     exactDuration: string;
     statistics: {
         viewCount: number;
@@ -63,15 +72,89 @@ const CATEGORY_MAP: Record<string, string> = {
     "44": "Trailers",
 };
 
+export interface YouTubeSearchItem {
+    id: string;
+    kind: "video" | "playlist";
+    title: string;
+    description: string;
+    channelTitle: string;
+    thumbnail?: string;
+}
+
+export interface YouTubePlaylistItem {
+    videoId: string;
+    title: string;
+    position: number;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// KEY ROTATION
+// ═══════════════════════════════════════════════════════════════
+
+function getApiKeys(): string[] {
+    return [
+        process.env.YOUTUBE_API_KEY,
+        process.env.YOUTUBE_API_KEY_2,
+        process.env.YOUTUBE_API_KEY_3,
+        process.env.GOOGLE_API_KEY,
+    ].filter((k): k is string => !!k && k.trim().length > 0);
+}
+
+/**
+ * True if at least one YouTube Data API key is configured.
+ */
+export function hasYouTubeApiKey(): boolean {
+    return getApiKeys().length > 0;
+}
+
+/**
+ * GET a YouTube Data API endpoint, rotating keys on 403.
+ * Returns null if no key works (missing, exhausted, bad request, network).
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function youtubeApiGet(endpoint: string, params: Record<string, string>): Promise<any | null> {
+    const keys = getApiKeys();
+
+    if (keys.length === 0) {
+        console.warn("⚠️ No YouTube API Key found. Skipping YouTube API call.");
+        return null;
+    }
+
+    for (let i = 0; i < keys.length; i++) {
+        try {
+            const query = new URLSearchParams({ ...params, key: keys[i] });
+            const res = await fetch(`${YOUTUBE_API_ROOT}/${endpoint}?${query.toString()}`);
+
+            if (res.ok) {
+                return await res.json();
+            }
+
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const errorData: any = await res.json().catch(() => ({}));
+            console.warn(`⚠️ YouTube API Error (${res.status}) on key #${i + 1}:`, errorData.error?.message);
+
+            // 403 = quota exceeded or key blocked → next key. Anything else is the request's fault.
+            if (res.status !== 403) return null;
+        } catch (error) {
+            console.error(`❌ YouTube API Network Error on key #${i + 1}:`, error);
+        }
+    }
+
+    console.warn("⚠️ All YouTube API keys failed or exhausted.");
+    return null;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ═══════════════════════════════════════════════════════════════
+
 /**
  * Fetch detailed metadata for a list of video IDs.
  * Fails safely (returns empty map) if API key is missing or quota exceeded.
  */
 export async function fetchVideoDetails(videoIds: string[]): Promise<Map<string, YouTubeEnhancement>> {
-    const apiKey = process.env.YOUTUBE_API_KEY || process.env.GOOGLE_API_KEY;
-
-    if (!apiKey || videoIds.length === 0) {
-        if (!apiKey) console.warn("⚠️ No YouTube API Key found. Skipping enrichment.");
+    if (!hasYouTubeApiKey() || videoIds.length === 0) {
+        if (!hasYouTubeApiKey()) console.warn("⚠️ No YouTube API Key found. Skipping enrichment.");
         return new Map();
     }
 
@@ -84,32 +167,26 @@ export async function fetchVideoDetails(videoIds: string[]): Promise<Map<string,
 
     for (const chunk of chunks) {
         try {
-            const params = new URLSearchParams({
-                key: apiKey,
+            const data = await youtubeApiGet("videos", {
                 part: "snippet,contentDetails,statistics,topicDetails",
                 id: chunk.join(","),
             });
 
-            const res = await fetch(`${YOUTUBE_API_BASE}?${params.toString()}`);
-
-            if (!res.ok) {
-                const errorData: any = await res.json();
-                console.warn(`⚠️ YouTube API Error (${res.status}):`, errorData.error?.message);
-                continue;
-            }
-
-            const data: any = await res.json();
-
-            if (data.items) {
+            if (data?.items) {
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
                 data.items.forEach((item: any) => {
                     const enhancement: YouTubeEnhancement = {
                         videoId: item.id,
+                        title: item.snippet.title,
+                        description: item.snippet.description || "",
+                        channelTitle: item.snippet.channelTitle,
+                        thumbnail: pickThumbnail(item.snippet.thumbnails),
                         channelId: item.snippet.channelId,
                         tags: item.snippet.tags || [],
                         categoryId: item.snippet.categoryId,
                         categoryName: CATEGORY_MAP[item.snippet.categoryId] || "Unknown",
                         officialTopics: extractTopicNames(item.topicDetails?.topicCategories),
+                        defaultAudioLanguage: item.snippet.defaultAudioLanguage,
                         exactDuration: item.contentDetails.duration,
                         statistics: {
                             viewCount: parseInt(item.statistics.viewCount || "0", 10),
@@ -122,7 +199,7 @@ export async function fetchVideoDetails(videoIds: string[]): Promise<Map<string,
             }
 
         } catch (error) {
-            console.error("❌ YouTube API Network Error:", error);
+            console.error("❌ YouTube API Parse Error:", error);
         }
     }
 
@@ -133,6 +210,94 @@ export async function fetchVideoDetails(videoIds: string[]): Promise<Map<string,
     return results;
 }
 
+/**
+ * Free-text search via search.list (100 quota units per call).
+ * Returns an empty array if the API is unavailable.
+ */
+export async function searchYouTube(
+    query: string,
+    type: "video" | "playlist",
+    maxResults: number = 15
+): Promise<YouTubeSearchItem[]> {
+    const data = await youtubeApiGet("search", {
+        part: "snippet",
+        q: query,
+        type,
+        maxResults: String(maxResults),
+    });
+
+    if (!data?.items) return [];
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return data.items.map((item: any) => ({
+        id: type === "video" ? item.id.videoId : item.id.playlistId,
+        kind: type,
+        title: item.snippet.title,
+        description: item.snippet.description || "",
+        channelTitle: item.snippet.channelTitle,
+        thumbnail: pickThumbnail(item.snippet.thumbnails),
+    }));
+}
+
+/**
+ * Fetch the ordered contents of a playlist (first `maxItems`, 1 unit per 50).
+ */
+export async function fetchPlaylistItems(
+    playlistId: string,
+    maxItems: number = 200
+): Promise<YouTubePlaylistItem[]> {
+    const items: YouTubePlaylistItem[] = [];
+    let pageToken: string | undefined;
+
+    do {
+        const data = await youtubeApiGet("playlistItems", {
+            part: "snippet",
+            playlistId,
+            maxResults: "50",
+            ...(pageToken ? { pageToken } : {}),
+        });
+
+        if (!data?.items) break;
+
+        for (const item of data.items) {
+            items.push({
+                videoId: item.snippet.resourceId?.videoId,
+                title: item.snippet.title,
+                position: item.snippet.position,
+            });
+        }
+
+        pageToken = data.nextPageToken;
+    } while (pageToken && items.length < maxItems);
+
+    return items.filter(i => i.videoId).slice(0, maxItems);
+}
+
+/**
+ * Parse an ISO 8601 duration ("PT1H2M3S") into seconds.
+ */
+export function parseISODuration(iso: string): number {
+    const match = iso.match(/^P(?:(\d+)D)?T?(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?$/);
+    if (!match) return 0;
+
+    const [, days, hours, minutes, seconds] = match.map(v => parseInt(v || "0", 10));
+    return days * 86400 + hours * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * Format seconds as a YouTube-style timestamp ("1:02:03" / "2:03").
+ */
+export function formatTimestamp(totalSeconds: number): string {
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const pad = (n: number) => String(n).padStart(2, "0");
+
+    return hours > 0
+        ? `${hours}:${pad(minutes)}:${pad(seconds)}`
+        : `${minutes}:${pad(seconds)}`;
+}
+
 /**
  * Helper: Parse Wikipedia URLs from topicCategories into readable names.
  * e.g. "https://en.wikipedia.org/wiki/Computer_science" -> "Computer science"
@@ -146,6 +311,11 @@ function extractTopicNames(urls: string[] | undefined): string[] {
     });
 }
 
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function pickThumbnail(thumbnails: any): string | undefined {
+    return thumbnails?.high?.url || thumbnails?.medium?.url || thumbnails?.default?.url;
+}
+
 function chunkArray<T>(array: T[], size: number): T[][] {
     const chunked: T[][] = [];
     for (let i = 0; i < array.length; i += size) {
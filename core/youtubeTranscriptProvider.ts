@@ -0,0 +1,140 @@
+/**
+ * 🎞️ YouTube Transcript Provider
+ *
+ * TranscriptProvider that reads caption tracks the way the player does:
+ *   1. Fetch the watch page and pull `captionTracks` out of its player config
+ *   2. Pick a track — requested language first, uploaded captions over
+ *      auto-generated ("asr") ones
+ *   3. Fetch the track as json3 and flatten its events into segments
+ *
+ * Free, no API key — but, like yt-search, it depends on the watch page's
+ * markup and can be IP-blocked. Any failure just means "no transcript".
+ */
+
+import type { Transcript, TranscriptProvider, TranscriptSegment } from "./transcriptProvider.js";
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+interface CaptionTrack {
+    baseUrl: string;
+    languageCode: string;
+    kind?: string;              // "asr" = auto-generated
+}
+
+interface Json3Captions {
+    events?: {
+        tStartMs?: number;
+        segs?: { utf8?: string }[];
+    }[];
+}
+
+// ═══════════════════════════════════════════════════════════════
+// CONFIG
+// ═══════════════════════════════════════════════════════════════
+
+const WATCH_URL = "https://www.youtube.com/watch?v=";
+
+const CAPTION_TRACKS_KEY = `"captionTracks":`;
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Create a TranscriptProvider backed by YouTube caption tracks.
+ */
+export function createYouTubeTranscriptProvider(): TranscriptProvider {
+    return {
+        name: "youtube",
+
+        async fetchTranscript(videoId: string, languages: string[] = ["en"]): Promise<Transcript | null> {
+            try {
+                const page = await fetch(`${WATCH_URL}${videoId}`, {
+                    headers: { "Accept-Language": "en-US,en;q=0.9" },
+                });
+                if (!page.ok) return null;
+
+                const tracks = extractCaptionTracks(await page.text());
+                const track = pickTrack(tracks, languages);
+                if (!track) return null;
+
+                const captions = await fetch(`${track.baseUrl}&fmt=json3`);
+                if (!captions.ok) return null;
+
+                const segments = toSegments(await captions.json() as Json3Captions);
+                if (segments.length === 0) return null;
+
+                return {
+                    videoId,
+                    language: track.languageCode,
+                    text: segments.map(s => s.text).join(" "),
+                    segments,
+                };
+            } catch (error) {
+                console.warn(`⚠️ Transcript fetch failed for ${videoId}:`, error);
+                return null;
+            }
+        },
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// INTERNAL
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * The `captionTracks` array from the watch page's player config.
+ * Bracket-matched rather than regexed — track names contain arrays too.
+ */
+function extractCaptionTracks(html: string): CaptionTrack[] {
+    const start = html.indexOf(CAPTION_TRACKS_KEY);
+    if (start < 0) return [];
+
+    const open = start + CAPTION_TRACKS_KEY.length;
+    let depth = 0;
+    let inString = false;
+
+    for (let i = open; i < html.length; i++) {
+        const ch = html[i];
+
+        if (inString) {
+            if (ch === "\\") i++;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+
+        if (ch === '"') inString = true;
+        else if (ch === "[") depth++;
+        else if (ch === "]" && --depth === 0) {
+            try {
+                return JSON.parse(html.slice(open, i + 1)) as CaptionTrack[];
+            } catch {
+                return [];
+            }
+        }
+    }
+
+    return [];
+}
+
+/** Requested languages in order; uploaded captions beat auto-generated ones */
+function pickTrack(tracks: CaptionTrack[], languages: string[]): CaptionTrack | null {
+    for (const language of languages) {
+        const matching = tracks.filter(t => t.languageCode.toLowerCase().startsWith(language.toLowerCase()));
+        const track = matching.find(t => t.kind !== "asr") || matching[0];
+        if (track) return track;
+    }
+    return tracks[0] || null;
+}
+
+function toSegments(captions: Json3Captions): TranscriptSegment[] {
+    return (captions.events || [])
+        .filter(e => e.segs)
+        .map(e => ({
+            startSeconds: Math.floor((e.tStartMs || 0) / 1000),
+            text: e.segs!.map(s => s.utf8 || "").join("").replace(/\s+/g, " ").trim(),
+        }))
+        .filter(s => s.text.length > 0);
+}
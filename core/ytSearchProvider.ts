@@ -0,0 +1,94 @@
+/**
+ * 🕷️ yt-search Provider
+ *
+ * SearchProvider backed by the yt-search scraper.
+ * Free, no API key — but can be IP-blocked on shared hosting.
+ *
+ * This is the ONLY module that maps yt-search's loose result shapes.
+ */
+
+import ytSearch, { type VideoResult } from "yt-search";
+import type { VideoCandidate } from "./searchScraper.js";
+import { withChapters } from "./chapterParser.js";
+import type {
+    SearchProvider,
+    PlaylistSummary,
+    PlaylistVideo,
+    VideoDetails,
+} from "./searchProvider.js";
+
+/**
+ * Create a SearchProvider backed by yt-search.
+ */
+export function createYtSearchProvider(): SearchProvider {
+    return {
+        name: "yt-search",
+
+        async searchVideos(query: string): Promise<VideoCandidate[]> {
+            const result = await ytSearch(query);
+            return (result.videos || []).map(toVideoCandidate);
+        },
+
+        async searchPlaylists(query: string): Promise<PlaylistSummary[]> {
+            const result = await ytSearch(query);
+            return (result.playlists || []).map(p => ({
+                playlistId: p.listId,
+                title: p.title,
+                channelName: p.author?.name || "Unknown",
+                videoCount: p.videoCount,
+            }));
+        },
+
+        async getPlaylistVideos(playlistId: string): Promise<PlaylistVideo[]> {
+            const result = await ytSearch({ listId: playlistId });
+            if (!result || !result.videos) return [];
+
+            return result.videos.map(v => ({
+                videoId: v.videoId,
+                title: v.title,
+                duration: v.duration
+                    ? { seconds: v.duration.seconds, timestamp: v.duration.timestamp }
+                    : undefined,
+            }));
+        },
+
+        async getVideoDetails(videoIds: string[]): Promise<Map<string, VideoDetails>> {
+            const details = new Map<string, VideoDetails>();
+
+            // One scrape per video — yt-search has no batch lookup
+            for (const videoId of Array.from(new Set(videoIds))) {
+                try {
+                    const video = await ytSearch({ videoId });
+                    if (video?.videoId) {
+                        details.set(videoId, toVideoCandidate(video));
+                    }
+                } catch (error) {
+                    console.warn(`⚠️ yt-search lookup failed for ${videoId}:`, error);
+                }
+            }
+
+            return details;
+        },
+    };
+}
+
+/**
+ * Map a raw yt-search video into a VideoCandidate.
+ */
+function toVideoCandidate(v: VideoResult): VideoCandidate {
+    return withChapters({
+        videoId: v.videoId,
+        title: v.title,
+        description: v.description || "",
+        duration: {
+            seconds: v.duration?.seconds || 0,
+            timestamp: v.duration?.timestamp || "0:00",
+        },
+        views: v.views || 0,
+        author: {
+            name: v.author?.name || "Unknown",
+            url: v.author?.url,
+        },
+        thumbnail: v.thumbnail || v.image,
+    });
+}
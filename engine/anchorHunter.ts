@@ -8,17 +8,34 @@
  *   - Searches for existing playlists matching the subject
  *   - Scores each by % of TOC items covered
  *   - Returns the best one if coverage > 50%
+ *   - combineAnchors: greedily stitches up to 3 playlists (set cover),
+ *     preferring channels whose style matches the ones already picked
  * 
  * PATH B: Channel Scanner (fallback)
  *   - If no good playlist found, identifies promising channels
  *   - Returns channel names for per-topic searching
  * 
- * API CALLS: 1-3 free yt-search calls. Zero quota cost.
+ * The chosen anchor(s) are cached in the video vault (engine/vaultCache),
+ * keyed by subject + TOC, so a repeat build skips the hunt entirely.
+ * 
+ * API CALLS: 1-3 searches via the SearchProvider (free with yt-search).
  */
 
-import ytSearch from "yt-search";
-import Fuse from "fuse.js";
-import type { AnchorPlaylist, AnchorVideo } from "../core/types.js";
+import type { AnchorPlaylist, ProgressListener } from "../core/types.js";
+import {
+    getSearchProvider,
+    type SearchProvider,
+    type PlaylistVideo,
+} from "../core/searchProvider.js";
+import {
+    getTopicMatcher,
+    assignTopics,
+    MATCH_THRESHOLD,
+    type TopicMatcher,
+} from "../core/topicMatcher.js";
+import type { SearchModifiers } from "./preferences.js";
+import { emitProgress } from "./progress.js";
+import { vaultKey, lookupCachedAnchors, cacheAnchors } from "./vaultCache.js";
 
 // ═══════════════════════════════════════════════════════════════
 // CONFIG
@@ -27,13 +44,8 @@ import type { AnchorPlaylist, AnchorVideo } from "../core/types.js";
 /** Minimum coverage % to accept a playlist as an "anchor" */
 const MIN_COVERAGE_THRESHOLD = 0.5; // 50%
 
-/** Fuse.js config for fuzzy matching playlist titles against TOC */
-const FUSE_OPTIONS = {
-    threshold: 0.4,        // Lower = stricter matching
-    distance: 100,
-    includeScore: true,
-    keys: ["title"],
-};
+/** Max playlists stitched together in combineAnchors mode */
+const MAX_STITCHED_ANCHORS = 3;
 
 // ═══════════════════════════════════════════════════════════════
 // TYPES
@@ -41,15 +53,26 @@ const FUSE_OPTIONS = {
 
 export interface AnchorHuntResult {
     found: boolean;
-    anchor?: AnchorPlaylist;
+    anchor?: AnchorPlaylist;          // Primary anchor (best coverage)
+    anchors?: AnchorPlaylist[];       // Every anchor to use, primary first (just [anchor] unless combining)
+    uncoveredTopics?: string[];       // TOC items no selected anchor covers → gap fill
     fallbackChannels?: string[];  // Promising channel names for per-topic search
     searchesPerformed: number;
 }
 
-interface PlaylistVideoItem {
-    videoId: string;
-    title: string;
-    duration?: { seconds: number; timestamp: string };
+export interface AnchorHuntOptions {
+    /** Receives an anchor_scored event per playlist checked */
+    onProgress?: ProgressListener;
+    /** Where to search (defaults to getSearchProvider()) */
+    searchProvider?: SearchProvider;
+    /** Stitch several partial playlists together instead of keeping only the best one */
+    combineAnchors?: boolean;
+    /** How topics are matched to playlist videos (defaults to getTopicMatcher()) */
+    topicMatcher?: TopicMatcher;
+    /** Keys the video vault cache (language, mode, experience); without it the vault is skipped */
+    modifiers?: SearchModifiers;
+    /** Ignore a cached anchor selection (a fresh one is still stored) */
+    bypassCache?: boolean;
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -62,13 +85,28 @@ interface PlaylistVideoItem {
  * @param subject - Course title or main subject (e.g., "Data Structures and Algorithms")
  * @param tableOfContents - Flat list of TOC topics
  * @param language - Language suffix (e.g., "in Hindi")
+ * @param options - Progress listener, search provider and multi-anchor mode
  */
 export async function huntForAnchor(
     subject: string,
     tableOfContents: string[],
-    languageSuffix: string = ""
+    languageSuffix: string = "",
+    options: AnchorHuntOptions = {}
 ): Promise<AnchorHuntResult> {
     let searchesPerformed = 0;
+    const provider = options.searchProvider || getSearchProvider();
+
+    const cacheKey = options.modifiers
+        ? vaultKey("anchor", subject, anchorCacheDetail(tableOfContents, options), options.modifiers)
+        : null;
+
+    if (cacheKey && options.modifiers && !options.bypassCache) {
+        const cached = await lookupCachedAnchors(cacheKey, options.modifiers);
+        if (cached) {
+            console.log(`🗄️ Anchor Hunter: using cached anchor "${cached[0].playlistTitle}"`);
+            return toFoundResult(cached, tableOfContents, searchesPerformed);
+        }
+    }
 
     // ─────────────────────────────────────────────────────────
     // STEP 1: Search for playlists matching the subject
@@ -77,14 +115,12 @@ export async function huntForAnchor(
     console.log(`🔎 Anchor Hunter: searching playlists for "${playlistQuery}"`);
 
     try {
-        const searchResult = await ytSearch(playlistQuery);
+        const playlists = await provider.searchPlaylists(playlistQuery);
         searchesPerformed++;
 
-        const playlists = searchResult.playlists || [];
-
         if (playlists.length === 0) {
             console.log("📭 No playlists found. Trying channel search...");
-            const fallbackChannels = await findPromisingChannels(subject, languageSuffix);
+            const fallbackChannels = await findPromisingChannels(subject, languageSuffix, provider);
             searchesPerformed++;
 
             return {
@@ -99,20 +135,22 @@ export async function huntForAnchor(
         // ─────────────────────────────────────────────────────
         console.log(`📋 Found ${playlists.length} playlists. Scoring against ${tableOfContents.length} TOC items...`);
 
+        const scoredAnchors: AnchorPlaylist[] = [];
         let bestAnchor: AnchorPlaylist | null = null;
         let bestScore = 0;
 
         for (const playlist of playlists.slice(0, 5)) { // Check top 5 playlists
             // Get video list for this playlist
-            const playlistVideos = await getPlaylistVideos(playlist.listId);
+            const playlistVideos = await getPlaylistVideos(playlist.playlistId, provider);
             searchesPerformed++;
 
             if (playlistVideos.length < 3) continue; // Too short to be useful
 
             // Score it
-            const scored = scorePlaylistCoverage(
+            const scored = await scorePlaylistCoverage(
                 playlistVideos,
-                tableOfContents
+                tableOfContents,
+                options.topicMatcher || getTopicMatcher()
             );
 
             console.log(
@@ -120,51 +158,77 @@ export async function huntForAnchor(
                 `(${scored.matchedTopics.length}/${tableOfContents.length} topics matched)`
             );
 
+            emitProgress(options.onProgress, {
+                type: "anchor_scored",
+                playlistTitle: playlist.title,
+                channelName: playlist.channelName,
+                coverageScore: scored.coverageScore,
+                matchedTopics: scored.matchedTopics.length,
+                totalTopics: tableOfContents.length,
+            });
+
+            const candidate: AnchorPlaylist = {
+                playlistId: playlist.playlistId,
+                playlistTitle: playlist.title,
+                channelName: playlist.channelName,
+                videoCount: playlistVideos.length,
+                videos: playlistVideos.map((v, i) => ({
+                    videoId: v.videoId,
+                    title: v.title,
+                    description: v.description,
+                    durationSeconds: v.duration?.seconds || 0,
+                    durationDisplay: v.duration?.timestamp || "0:00",
+                    position: i,
+                })),
+                coverageScore: scored.coverageScore,
+                matchedTopics: scored.matchedTopics,
+                unmatchedTopics: scored.unmatchedTopics,
+            };
+            scoredAnchors.push(candidate);
+
             if (scored.coverageScore > bestScore) {
                 bestScore = scored.coverageScore;
-                bestAnchor = {
-                    playlistId: playlist.listId,
-                    playlistTitle: playlist.title,
-                    channelName: playlist.author?.name || "Unknown",
-                    videoCount: playlistVideos.length,
-                    videos: playlistVideos.map((v, i) => ({
-                        videoId: v.videoId,
-                        title: v.title,
-                        durationSeconds: v.duration?.seconds || 0,
-                        durationDisplay: v.duration?.timestamp || "0:00",
-                        position: i,
-                    })),
-                    coverageScore: scored.coverageScore,
-                    matchedTopics: scored.matchedTopics,
-                    unmatchedTopics: scored.unmatchedTopics,
-                };
+                bestAnchor = candidate;
             }
 
-            // Short-circuit if we found a great match
-            if (bestScore >= 80) break;
+            // Short-circuit if we found a great match (when combining, only a complete one)
+            if (bestScore >= (options.combineAnchors ? 100 : 80)) break;
         }
 
         // ─────────────────────────────────────────────────────
         // STEP 3: Return result
         // ─────────────────────────────────────────────────────
-        if (bestAnchor && bestScore >= MIN_COVERAGE_THRESHOLD * 100) {
-            console.log(
-                `✅ Anchor found: "${bestAnchor.playlistTitle}" ` +
-                `(${bestScore}% coverage, ${bestAnchor.videoCount} videos)`
-            );
-            return {
-                found: true,
-                anchor: bestAnchor,
-                searchesPerformed,
-            };
+        const anchors = options.combineAnchors
+            ? stitchAnchors(scoredAnchors, tableOfContents)
+            : bestAnchor ? [bestAnchor] : [];
+
+        const covered = new Set(anchors.flatMap(a => a.matchedTopics));
+        const combinedScore = Math.round((covered.size / tableOfContents.length) * 100);
+
+        if (anchors.length > 0 && combinedScore >= MIN_COVERAGE_THRESHOLD * 100) {
+            for (const anchor of anchors) {
+                console.log(
+                    `✅ Anchor found: "${anchor.playlistTitle}" ` +
+                    `(${anchor.coverageScore}% coverage, ${anchor.videoCount} videos)`
+                );
+            }
+            if (anchors.length > 1) {
+                console.log(`🧵 Stitched ${anchors.length} anchors: ${combinedScore}% combined coverage`);
+            }
+
+            if (cacheKey && options.modifiers) {
+                await cacheAnchors(cacheKey, options.modifiers, anchors);
+            }
+
+            return toFoundResult(anchors, tableOfContents, searchesPerformed);
         }
 
         // No good anchor — return channels as fallback
-        console.log(`📭 No playlist reached ${MIN_COVERAGE_THRESHOLD * 100}% threshold (best: ${bestScore}%)`);
+        console.log(`📭 No playlist reached ${MIN_COVERAGE_THRESHOLD * 100}% threshold (best: ${combinedScore}%)`);
         const channelNames = playlists
             .slice(0, 3)
-            .map(p => p.author?.name)
-            .filter(Boolean) as string[];
+            .map(p => p.channelName)
+            .filter(name => name && name !== "Unknown");
 
         return {
             found: false,
@@ -178,6 +242,31 @@ export async function huntForAnchor(
     }
 }
 
+// ═══════════════════════════════════════════════════════════════
+// INTERNAL: Results + Vault
+// ═══════════════════════════════════════════════════════════════
+
+function toFoundResult(
+    anchors: AnchorPlaylist[],
+    tableOfContents: string[],
+    searchesPerformed: number
+): AnchorHuntResult {
+    const covered = new Set(anchors.flatMap(a => a.matchedTopics));
+
+    return {
+        found: true,
+        anchor: anchors[0],
+        anchors,
+        uncoveredTopics: tableOfContents.filter(t => !covered.has(t)),
+        searchesPerformed,
+    };
+}
+
+/** Coverage depends on the whole TOC and on whether anchors are stitched */
+function anchorCacheDetail(tableOfContents: string[], options: AnchorHuntOptions): string {
+    return [options.combineAnchors ? "combined" : "single", ...tableOfContents].join(" / ");
+}
+
 // ═══════════════════════════════════════════════════════════════
 // INTERNAL: Playlist Scoring
 // ═══════════════════════════════════════════════════════════════
@@ -188,27 +277,23 @@ interface CoverageScore {
     unmatchedTopics: string[];
 }
 
-function scorePlaylistCoverage(
-    playlistVideos: PlaylistVideoItem[],
-    tableOfContents: string[]
-): CoverageScore {
-    // Build a fuse index from playlist video titles
-    const fuseItems = playlistVideos.map(v => ({ title: v.title }));
-    const fuse = new Fuse(fuseItems, FUSE_OPTIONS);
-
-    const matchedTopics: string[] = [];
-    const unmatchedTopics: string[] = [];
-
-    for (const topic of tableOfContents) {
-        const results = fuse.search(topic);
-
-        // Consider it a match if the best result has a score < 0.4 (lower = better in fuse)
-        if (results.length > 0 && results[0].score !== undefined && results[0].score < 0.4) {
-            matchedTopics.push(topic);
-        } else {
-            unmatchedTopics.push(topic);
-        }
-    }
+/**
+ * A topic is covered if the one-to-one assignment gives it a video —
+ * a single "All Data Structures in 10 Minutes" video covers one topic, not six.
+ */
+async function scorePlaylistCoverage(
+    playlistVideos: PlaylistVideo[],
+    tableOfContents: string[],
+    matcher: TopicMatcher
+): Promise<CoverageScore> {
+    const similarity = await matcher.score(
+        tableOfContents,
+        playlistVideos.map(v => ({ id: v.videoId, title: v.title, description: v.description }))
+    );
+    const assignment = assignTopics(similarity, MATCH_THRESHOLD);
+
+    const matchedTopics = tableOfContents.filter((_, i) => assignment[i] !== null);
+    const unmatchedTopics = tableOfContents.filter((_, i) => assignment[i] === null);
 
     const coverageScore = Math.round(
         (matchedTopics.length / tableOfContents.length) * 100
@@ -217,22 +302,89 @@ function scorePlaylistCoverage(
     return { coverageScore, matchedTopics, unmatchedTopics };
 }
 
+// ═══════════════════════════════════════════════════════════════
+// INTERNAL: Multi-Anchor Stitching
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Greedy set cover: repeatedly take the playlist that covers the most
+ * still-uncovered topics, weighted by how well its style fits the anchors
+ * already picked. Stops when nothing adds a topic, the TOC is fully
+ * covered, or MAX_STITCHED_ANCHORS is reached.
+ */
+function stitchAnchors(
+    candidates: AnchorPlaylist[],
+    tableOfContents: string[]
+): AnchorPlaylist[] {
+    const chosen: AnchorPlaylist[] = [];
+    const covered = new Set<string>();
+
+    while (chosen.length < MAX_STITCHED_ANCHORS && covered.size < tableOfContents.length) {
+        let best: AnchorPlaylist | null = null;
+        let bestGain = 0;
+
+        for (const candidate of candidates) {
+            if (chosen.includes(candidate)) continue;
+
+            const newTopics = candidate.matchedTopics.filter(t => !covered.has(t)).length;
+            const gain = newTopics * styleCompatibility(candidate, chosen);
+
+            if (gain > bestGain) {
+                bestGain = gain;
+                best = candidate;
+            }
+        }
+
+        if (!best) break;
+
+        chosen.push(best);
+        best.matchedTopics.forEach(t => covered.add(t));
+    }
+
+    return chosen;
+}
+
+/**
+ * How well a playlist fits next to the anchors already chosen (0-1).
+ * Same channel = same teacher and style; otherwise compare typical
+ * video length (a 10-min explainer series vs 2-hour lectures jars).
+ */
+function styleCompatibility(
+    candidate: AnchorPlaylist,
+    chosen: AnchorPlaylist[]
+): number {
+    if (chosen.length === 0) return 1;
+    if (chosen.some(a => a.channelName === candidate.channelName)) return 1;
+
+    const a = medianDuration(candidate);
+    const b = medianDuration(chosen[0]);
+    if (a === 0 || b === 0) return 0.6; // Unknown durations — neutral
+
+    const ratio = Math.max(a, b) / Math.min(a, b);
+    if (ratio <= 1.5) return 0.8;
+    if (ratio <= 3) return 0.6;
+    return 0.4;
+}
+
+function medianDuration(anchor: AnchorPlaylist): number {
+    const durations = anchor.videos
+        .map(v => v.durationSeconds)
+        .filter(d => d > 0)
+        .sort((x, y) => x - y);
+
+    return durations.length > 0 ? durations[Math.floor(durations.length / 2)] : 0;
+}
+
 // ═══════════════════════════════════════════════════════════════
 // INTERNAL: Playlist Video Fetching
 // ═══════════════════════════════════════════════════════════════
 
-async function getPlaylistVideos(playlistId: string): Promise<PlaylistVideoItem[]> {
+async function getPlaylistVideos(
+    playlistId: string,
+    provider: SearchProvider
+): Promise<PlaylistVideo[]> {
     try {
-        const result = await ytSearch({ listId: playlistId });
-        if (!result || !result.videos) return [];
-
-        return result.videos.map(v => ({
-            videoId: v.videoId,
-            title: v.title,
-            duration: v.duration
-                ? { seconds: v.duration.seconds, timestamp: v.duration.timestamp }
-                : undefined,
-        }));
+        return await provider.getPlaylistVideos(playlistId);
     } catch (error) {
         console.warn(`⚠️ Failed to fetch playlist ${playlistId}:`, error);
         return [];
@@ -245,16 +397,17 @@ async function getPlaylistVideos(playlistId: string): Promise<PlaylistVideoItem[
 
 async function findPromisingChannels(
     subject: string,
-    languageSuffix: string
+    languageSuffix: string,
+    provider: SearchProvider
 ): Promise<string[]> {
     try {
         const query = `${subject} tutorial ${languageSuffix}`.trim();
-        const result = await ytSearch(query);
+        const videos = await provider.searchVideos(query);
 
         // Extract unique channel names from top results
         const channels = new Set<string>();
-        for (const video of (result.videos || []).slice(0, 10)) {
-            if (video.author?.name) {
+        for (const video of videos.slice(0, 10)) {
+            if (video.author.name && video.author.name !== "Unknown") {
                 channels.add(video.author.name);
             }
         }
@@ -0,0 +1,99 @@
+/**
+ * 🧭 Chapter Mapper — "Where Is Normalization in This 3-Hour Video?"
+ *
+ * Marathon videos usually list their chapters in the description:
+ *
+ *   00:00 Introduction
+ *   12:30 ER Diagrams
+ *   1:05:00 Normalization
+ *
+ * core/chapterParser turns those into VideoCandidate.chapters; here we
+ * match them against the syllabus TOC with the TopicMatcher, so each
+ * one-shot entry knows where every topic it covers starts
+ * (PlaylistEntry.topicTimestamps → `&t=` deep links).
+ *
+ * SEGMENTS: findTopicSegment picks the chapter run covering one topic, so
+ * gap filling can use a slice of a lecture that's too long to watch whole
+ * (PlaylistEntry.startSeconds / endSeconds).
+ *
+ * Zero API calls except the TopicMatcher (lexical by default).
+ */
+
+import type { TopicTimestamp } from "../core/types.js";
+import { assignTopics, MATCH_THRESHOLD, type TopicMatcher } from "../core/topicMatcher.js";
+import type { VideoChapter } from "../core/chapterParser.js";
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Match TOC topics to chapters (one chapter per topic).
+ * Returns the topics that were found, in TOC order.
+ */
+export async function mapTopicsToChapters(
+    tableOfContents: string[],
+    chapters: VideoChapter[],
+    matcher: TopicMatcher
+): Promise<TopicTimestamp[]> {
+    if (tableOfContents.length === 0 || chapters.length === 0) return [];
+
+    const similarity = await matcher.score(
+        tableOfContents,
+        chapters.map((c, i) => ({ id: String(i), title: c.title }))
+    );
+
+    return assignTopics(similarity).flatMap((col, row) => col === null ? [] : [{
+        topic: tableOfContents[row],
+        chapterTitle: chapters[col].title,
+        startSeconds: chapters[col].startSeconds,
+    }]);
+}
+
+/**
+ * The slice of a video covering one topic: its best-matching chapter,
+ * extended over neighbouring chapters that match too ("Joins Part 1",
+ * "Joins Part 2"). Null when no chapter matches.
+ */
+export async function findTopicSegment(
+    topic: string,
+    chapters: VideoChapter[],
+    matcher: TopicMatcher
+): Promise<VideoChapter | null> {
+    if (chapters.length === 0) return null;
+
+    const [scores] = await matcher.score(
+        [topic],
+        chapters.map((c, i) => ({ id: String(i), title: c.title }))
+    );
+
+    const best = scores.indexOf(Math.max(...scores));
+    if (scores[best] < MATCH_THRESHOLD) return null;
+
+    let first = best;
+    let last = best;
+    while (first > 0 && scores[first - 1] >= MATCH_THRESHOLD) first--;
+    while (last < chapters.length - 1 && scores[last + 1] >= MATCH_THRESHOLD) last++;
+
+    return {
+        title: chapters.slice(first, last + 1).map(c => c.title).join(" + "),
+        startSeconds: chapters[first].startSeconds,
+        endSeconds: chapters[last].endSeconds,
+    };
+}
+
+/**
+ * Identity of a playlist entry for de-duplication: the video, or the
+ * video + start for a segment — two slices of one lecture are different
+ * entries.
+ */
+export function entryKey(entry: { videoId: string; startSeconds?: number }): string {
+    return entry.startSeconds === undefined ? entry.videoId : `${entry.videoId}@${entry.startSeconds}`;
+}
+
+/**
+ * YouTube link that starts playback at a given second.
+ */
+export function toTimestampURL(videoId: string, startSeconds: number): string {
+    return `https://www.youtube.com/watch?v=${videoId}&t=${startSeconds}s`;
+}
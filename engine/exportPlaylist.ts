@@ -12,7 +12,10 @@
  * URL FORMAT: https://www.youtube.com/watch_videos?video_ids=ID1,ID2,ID3,...
  */
 
-import type { PlaylistResult, PlaylistEntry } from "../core/types.js";
+import type { PlaylistResult, PlaylistEntry, RankingTrace } from "../core/types.js";
+import { roleLabel } from "./videoRoles.js";
+import { toTimestampURL } from "./chapterMapper.js";
+import { formatTimestamp } from "../core/youtubeClient.js";
 
 // ═══════════════════════════════════════════════════════════════
 // URL EXPORT (Zero cost, instant)
@@ -23,7 +26,8 @@ import type { PlaylistResult, PlaylistEntry } from "../core/types.js";
  * Users click this → temporary playlist opens → they click "Save".
  * 
  * NOTE: YouTube limits this to ~50 video IDs. For longer playlists,
- * chunk into multiple URLs.
+ * chunk into multiple URLs. watch_videos has no per-video start time, so
+ * segment entries are only timestamped in their own links (toVideoURL).
  */
 export function toWatchURL(videoIds: string[]): string {
     if (videoIds.length === 0) return "";
@@ -45,6 +49,15 @@ export function toWatchURLs(videoIds: string[], chunkSize: number = 50): string[
     return urls;
 }
 
+/**
+ * Link to one entry — starting at the segment for segment entries.
+ */
+export function toVideoURL(entry: PlaylistEntry): string {
+    return entry.startSeconds !== undefined
+        ? toTimestampURL(entry.videoId, entry.startSeconds)
+        : `https://www.youtube.com/watch?v=${entry.videoId}`;
+}
+
 // ═══════════════════════════════════════════════════════════════
 // JSON EXPORT
 // ═══════════════════════════════════════════════════════════════
@@ -68,9 +81,16 @@ export function toMinimalJSON(result: PlaylistResult): string {
         videos: result.entries.map(e => ({
             position: e.position + 1,  // 1-indexed for humans
             title: e.title,
-            url: `https://www.youtube.com/watch?v=${e.videoId}`,
-            duration: e.durationDisplay,
-            topic: e.topicMatched,
+            url: toVideoURL(e),
+            duration: formatDuration(e),
+            topic: formatTopics(e),
+            ...(e.topicTimestamps ? {
+                timestamps: e.topicTimestamps.map(t => ({
+                    topic: t.topic,
+                    start: formatTimestamp(t.startSeconds),
+                    url: toTimestampURL(e.videoId, t.startSeconds),
+                })),
+            } : {}),
         })),
     };
     return JSON.stringify(minimal, null, 2);
@@ -82,31 +102,79 @@ export function toMinimalJSON(result: PlaylistResult): string {
 
 /**
  * Export the playlist as a CSV string.
- * Columns: Position, Title, Video URL, Duration, Channel, Topic, Source
+ * Columns: Position, Title, Video URL, Duration, Channel, Topic, Source, Topic Timestamps
  */
 export function toCSV(result: PlaylistResult): string {
-    const header = "Position,Title,Video URL,Duration,Channel,Topic,Source";
+    const header = "Position,Title,Video URL,Duration,Channel,Topic,Source,Topic Timestamps";
     const rows = result.entries.map(e => {
-        const url = `https://www.youtube.com/watch?v=${e.videoId}`;
+        const url = toVideoURL(e);
         // Escape commas and quotes in fields
         const safeTitle = `"${e.title.replace(/"/g, '""')}"`;
-        const safeTopic = `"${e.topicMatched.replace(/"/g, '""')}"`;
+        const safeTopic = `"${formatTopics(e).replace(/"/g, '""')}"`;
         const safeChannel = `"${e.channelName.replace(/"/g, '""')}"`;
+        const safeTimestamps = `"${(e.topicTimestamps || [])
+            .map(t => `${t.topic} @ ${formatTimestamp(t.startSeconds)} ${toTimestampURL(e.videoId, t.startSeconds)}`)
+            .join("; ")
+            .replace(/"/g, '""')}"`;
 
         return [
             e.position + 1,    // 1-indexed
             safeTitle,
             url,
-            e.durationDisplay,
+            formatDuration(e),
             safeChannel,
             safeTopic,
             e.source,
+            safeTimestamps,
         ].join(",");
     });
 
     return [header, ...rows].join("\n");
 }
 
+// ═══════════════════════════════════════════════════════════════
+// RANKING REPORT EXPORT (entries built with BuildOptions.traceRanking)
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Export every traced entry's candidate pool as a CSV string, one row per
+ * candidate. Entries without a rankingTrace (anchor videos, untraced builds)
+ * are skipped.
+ * Columns: Position, Topic, Rank, Picked, Title, Video URL, Channel, Density Score,
+ * Density Flags, Duration, Duration Fit, Relevance, Scoring Profile, From Vault, Reranker
+ */
+export function toRankingCSV(result: PlaylistResult): string {
+    const header = "Position,Topic,Rank,Picked,Title,Video URL,Channel,Density Score,Density Flags,Duration,Duration Fit,Relevance,Scoring Profile,From Vault,Reranker";
+    const rows: string[] = [];
+
+    for (const e of result.entries) {
+        const trace = e.rankingTrace;
+        if (!trace) continue;
+
+        for (const [rank, c] of trace.candidates.entries()) {
+            rows.push([
+                e.position + 1,    // 1-indexed
+                csvField(trace.topic),
+                rank + 1,
+                c.videoId === e.videoId ? "yes" : "",
+                csvField(c.title),
+                `https://www.youtube.com/watch?v=${c.videoId}`,
+                csvField(c.channelName),
+                c.densityScore,
+                csvField(c.densityFlags.join("; ")),
+                formatTimestamp(c.durationSeconds),
+                c.durationFit,
+                c.relevanceScore,
+                trace.scoringProfile,
+                trace.fromVault ? "yes" : "",
+                csvField(rerankerVerdict(trace, c.videoId)),
+            ].join(","));
+        }
+    }
+
+    return [header, ...rows].join("\n");
+}
+
 // ═══════════════════════════════════════════════════════════════
 // MARKDOWN EXPORT (for docs/README)
 // ═══════════════════════════════════════════════════════════════
@@ -134,12 +202,27 @@ export function toMarkdown(result: PlaylistResult): string {
     lines.push("|---|-------|----------|-------|--------|");
 
     for (const entry of result.entries) {
-        const link = `[${entry.title}](https://www.youtube.com/watch?v=${entry.videoId})`;
+        const link = `[${entry.title}](${toVideoURL(entry)})`;
         lines.push(
-            `| ${entry.position + 1} | ${link} | ${entry.durationDisplay} | ${entry.topicMatched} | ${entry.source} |`
+            `| ${entry.position + 1} | ${link} | ${formatDuration(entry)} | ${formatTopics(entry)} | ${entry.source} |`
         );
     }
 
+    const located = result.entries.filter(e => e.topicTimestamps?.length);
+    if (located.length > 0) {
+        lines.push("");
+        lines.push("## 🧭 Topic Timestamps");
+
+        for (const entry of located) {
+            lines.push("");
+            lines.push(`**${entry.title}**`);
+            lines.push("");
+            for (const t of entry.topicTimestamps!) {
+                lines.push(`- [${formatTimestamp(t.startSeconds)}](${toTimestampURL(entry.videoId, t.startSeconds)}) ${t.topic}`);
+            }
+        }
+    }
+
     lines.push("");
     lines.push(`*Generated at ${result.generatedAt}*`);
 
@@ -150,6 +233,26 @@ export function toMarkdown(result: PlaylistResult): string {
 // SUMMARY STATS
 // ═══════════════════════════════════════════════════════════════
 
+/**
+ * Channel consistency (0-100): share of videos coming from the playlist's
+ * two most-used channels. 100 = one or two teachers, low = random creators.
+ */
+export function channelConsistency(entries: PlaylistEntry[]): number {
+    if (entries.length === 0) return 0;
+
+    const counts = new Map<string, number>();
+    for (const e of entries) {
+        counts.set(e.channelName, (counts.get(e.channelName) || 0) + 1);
+    }
+
+    const topTwo = Array.from(counts.values())
+        .sort((a, b) => b - a)
+        .slice(0, 2)
+        .reduce((sum, n) => sum + n, 0);
+
+    return Math.round((topTwo / entries.length) * 100);
+}
+
 /**
  * Generate a human-readable summary of the playlist.
  */
@@ -168,6 +271,18 @@ export function generateSummary(result: PlaylistResult): string {
         );
     }
 
+    if (result.timeBudget) {
+        const { budgetMinutes, usedMinutes, cutTopics, mergedTopics } = result.timeBudget;
+        lines.push(`⏱️ Time budget: ${usedMinutes}/${budgetMinutes} min`);
+        if (mergedTopics.length > 0) lines.push(`   Merged: ${mergedTopics.join(", ")}`);
+        if (cutTopics.length > 0) lines.push(`   Cut: ${cutTopics.join(", ")}`);
+    }
+
+    if (result.enrichment) {
+        const { videosEnriched, apiCalls, quotaUnits } = result.enrichment;
+        lines.push(`✨ Enriched ${videosEnriched} videos (${apiCalls} API calls, ${quotaUnits} quota units)`);
+    }
+
     // Source breakdown
     const sources = result.entries.reduce((acc, e) => {
         acc[e.source] = (acc[e.source] || 0) + 1;
@@ -175,7 +290,44 @@ export function generateSummary(result: PlaylistResult): string {
     }, {} as Record<string, number>);
 
     lines.push(`📊 Sources: ${Object.entries(sources).map(([k, v]) => `${k}: ${v}`).join(", ")}`);
+    lines.push(`👩‍🏫 Channel consistency: ${result.channelConsistency}%`);
     lines.push(`🔗 ${result.watchUrl}`);
 
     return lines.join("\n");
 }
+
+// ═══════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * "Stacks + Stack Implementation" for merged entries, else the single topic.
+ * Entries with a role get it appended: "Stacks (Worked example)".
+ */
+function formatTopics(entry: PlaylistEntry): string {
+    const topics = entry.topicsCovered?.join(" + ") || entry.topicMatched;
+    return entry.role ? `${topics} (${roleLabel(entry.role)})` : topics;
+}
+
+/**
+ * "10:00 (12:30-22:30)" for segment entries, else the video's duration.
+ */
+function formatDuration(entry: PlaylistEntry): string {
+    if (entry.startSeconds === undefined || entry.endSeconds === undefined) return entry.durationDisplay;
+    return `${entry.durationDisplay} (${formatTimestamp(entry.startSeconds)}-${formatTimestamp(entry.endSeconds)})`;
+}
+
+/** Quote a CSV field, doubling embedded quotes */
+function csvField(value: string): string {
+    return `"${value.replace(/"/g, '""')}"`;
+}
+
+/** The reranker's say on one candidate: its winner (with reasoning), or nothing */
+function rerankerVerdict(trace: RankingTrace, videoId: string): string {
+    if (!trace.reranker) return "";
+    if (trace.reranker.fallbackUsed) {
+        return videoId === trace.candidates[0]?.videoId ? "fallback (density order)" : "";
+    }
+    if (trace.reranker.winnerId !== videoId) return "";
+    return trace.reranker.reasoning ? `winner: ${trace.reranker.reasoning}` : "winner";
+}
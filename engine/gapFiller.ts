@@ -1,37 +1,77 @@
 /**
  * 🔧 Gap Filler — "The Bridge"
  * 
- * Takes an anchor playlist + syllabus TOC and identifies missing topics.
+ * Takes one or more anchor playlists + syllabus TOC and identifies missing topics.
  * Surgically fills gaps with individually-searched videos,
  * then re-sequences everything to match the syllabus order.
  * 
  * PIPELINE (per gap):
- *   1. Build preference-enhanced search query
- *   2. yt-search for candidates
- *   3. Density scoring + duration filtering
+ *   1. Video vault lookup (engine/vaultCache) — a cached winner skips steps 2-4
+ *   2. SearchProvider lookup — preferred channels first (anchor / fallback
+ *      channels), then a global search if they don't have enough candidates
+ *   3. YouTube API enrichment (engine/videoEnrichment — batched across topics),
+ *      density scoring + duration filtering (a lecture too long for the mode
+ *      competes as the chapter slice covering the topic — a segment entry),
+ *      candidates not in the student's language dropped (core/languageDetector —
+ *      strict or lenient, GapFillOptions.languageCheck),
+ *      then transcript scoring of the top candidates (engine/transcriptScoring)
  *   4. Optional Gemini rerank
- *   5. Insert at correct position
+ *   5. Insert at correct position (never repeating a video already in the playlist)
+ *   6. Store the winner (with its density score) in the vault
+ *
+ * With traceRanking, each searched entry carries the candidate pool it
+ * was picked from (engine/rankingTrace).
  * 
- * API CALLS: 1 yt-search per gap (free), optional Gemini rerank per gap.
+ * With several videoRoles (BuildOptions.videosPerTopic), each topic's main
+ * video is followed by a worked example / practice video (engine/videoRoles).
+ * 
+ * Topics are searched through a bounded worker pool (GapFillOptions.concurrency)
+ * and the provider is wrapped with its per-provider rate limit + retries.
+ * Results are keyed by TOC position, so completion order never affects
+ * the final sequence.
+ * 
+ * API CALLS: 1 search per gap (free with yt-search), optional Gemini rerank per gap.
  */
 
-import ytSearch from "yt-search";
-import Fuse from "fuse.js";
 import type {
     AnchorPlaylist,
     PlaylistEntry,
     AnchorVideo,
-    DurationConfig,
+    LanguageCheckMode,
+    ProgressListener,
+    RankingTrace,
+    VideoRole,
 } from "../core/types.js";
-import { analyzeQuery } from "../core/queryIntelligence.js";
 import {
     rankByDensity,
     filterByDuration,
     prepareForLLMRerank,
     type VideoCandidate,
 } from "../core/searchScraper.js";
-import { vibeCheckRerank } from "../core/geminiReranker.js";
+import { vibeCheckRerank, type RerankerResult } from "../core/geminiReranker.js";
+import { getSearchProvider, type SearchProvider } from "../core/searchProvider.js";
+import { createRateLimitedSearchProvider } from "../core/rateLimitedSearchProvider.js";
+import { mapWithConcurrency } from "../core/concurrency.js";
+import {
+    getTopicMatcher,
+    assignTopics,
+    MATCH_THRESHOLD,
+    type TopicMatcher,
+} from "../core/topicMatcher.js";
 import type { SearchModifiers } from "./preferences.js";
+import { emitProgress } from "./progress.js";
+import { vaultKey, lookupCachedVideo, cacheVideo } from "./vaultCache.js";
+import { buildRoleQueries, roleLabel } from "./videoRoles.js";
+import { pickWithinBudget } from "./timeBudget.js";
+import { findTopicSegment, entryKey } from "./chapterMapper.js";
+import { formatTimestamp } from "../core/youtubeClient.js";
+import type { VideoChapter } from "../core/chapterParser.js";
+import { getTranscriptProvider, type TranscriptProvider } from "../core/transcriptProvider.js";
+import { scoreByTranscript } from "./transcriptScoring.js";
+import type { VideoEnricher } from "./videoEnrichment.js";
+import type { ScoringProfile } from "../core/scoringProfiles.js";
+import { buildRankingTrace, buildRankingFeatures } from "./rankingTrace.js";
+import { detectLanguage, filterByLanguage } from "../core/languageDetector.js";
 
 // ═══════════════════════════════════════════════════════════════
 // TYPES
@@ -44,83 +84,115 @@ export interface GapFillResult {
     gapsFailed: string[];   // Topics we couldn't find videos for
 }
 
+export interface GapFillOptions {
+    /** Receives topic_resolved / rerank_decision events */
+    onProgress?: ProgressListener;
+    /** Skip Gemini reranking (faster, slightly lower quality) */
+    skipReranker?: boolean;
+    /** Where to search (defaults to getSearchProvider()) */
+    searchProvider?: SearchProvider;
+    /** Max topics searched at once (defaults to DEFAULT_CONCURRENCY) */
+    concurrency?: number;
+    /** Fold adjacent topics into one entry when the same video wins both */
+    mergeAdjacentTopics?: boolean;
+    /** Channels to search first (anchor channels, anchorHunter fallbackChannels) */
+    preferredChannels?: string[];
+    /** How topics are matched to anchor videos (defaults to getTopicMatcher()) */
+    topicMatcher?: TopicMatcher;
+    /** Ignore cached winners in the video vault (fresh winners are still stored) */
+    bypassCache?: boolean;
+    /** Videos per topic, in order (from resolveVideoRoles). Default: just the concept video */
+    videoRoles?: VideoRole[];
+    /** Seconds per TOC position (engine/timeBudget) — picks prefer candidates that fit */
+    topicBudgets?: number[];
+    /** Where captions come from for transcript scoring (defaults to getTranscriptProvider()) */
+    transcriptProvider?: TranscriptProvider;
+    /** Merges YouTube API metadata into candidates before scoring (shared by every topic of a build) */
+    videoEnricher?: VideoEnricher;
+    /** Density-scoring profile for the subject (defaults to stem_programming) */
+    scoringProfile?: ScoringProfile;
+    /** Attach a RankingTrace (the candidate pool and why the pick won) to every searched entry */
+    traceRanking?: boolean;
+    /** Attach the density rules each searched pick scored on (PlaylistEntry.rankingFeatures) */
+    recordFeatures?: boolean;
+    /** strict = only candidates confidently in the student's language; lenient (default) = drop confident mismatches */
+    languageCheck?: LanguageCheckMode;
+}
+
 interface TopicMapping {
     topic: string;
     position: number;           // Position in TOC (defines playlist order)
+    anchor?: AnchorPlaylist;    // Anchor the matched video belongs to
     anchorVideo?: AnchorVideo;  // Matched video from anchor, if any
     isGap: boolean;             // True if needs gap-filling
-    matchScore?: number;        // Fuse.js match quality (lower = better)
+    matchScore?: number;        // TopicMatcher similarity (0-1, higher = better)
+}
+
+/** A ranked search result, kept with its VideoCandidate for the vault */
+interface RankedCandidate {
+    entry: PlaylistEntry;
+    video: VideoCandidate;
+}
+
+interface TopicSearch {
+    ranked: RankedCandidate[];  // Best first
+    fromVault: boolean;         // Served from the video vault, not the provider
 }
 
 // ═══════════════════════════════════════════════════════════════
 // CONFIG
 // ═══════════════════════════════════════════════════════════════
 
-/** Fuse.js threshold — below this is considered a "match" */
-const MATCH_THRESHOLD = 0.4;
-
 /** Use Gemini reranker for gap-fill candidates? (Costs 1 API call per gap) */
 const USE_RERANKER = true;
 
+/** Topics searched in parallel when GapFillOptions.concurrency is not set */
+export const DEFAULT_CONCURRENCY = 4;
+
+/** Preferred channels tried per topic before searching globally */
+const MAX_CHANNEL_SEARCHES = 2;
+
+/** Preferred-channel candidates needed to skip the global search */
+const MIN_PREFERRED_CANDIDATES = 3;
+
 // ═══════════════════════════════════════════════════════════════
 // PUBLIC API
 // ═══════════════════════════════════════════════════════════════
 
 /**
- * Fill gaps in an anchor playlist to match the syllabus 100%.
+ * Fill gaps in the anchor playlist(s) to match the syllabus 100%.
  * 
- * @param anchor - The anchor playlist (from anchorHunter)
+ * @param anchors - Anchor playlists in priority order (from anchorHunter)
  * @param tableOfContents - The syllabus TOC (ordered)
  * @param subject - The main subject name (for search context)
  * @param modifiers - Search modifiers from user preferences
+ * @param options - Progress listener, reranker switch, search provider, concurrency, merging
  */
 export async function fillGaps(
-    anchor: AnchorPlaylist,
+    anchors: AnchorPlaylist[],
     tableOfContents: string[],
     subject: string,
-    modifiers: SearchModifiers
+    modifiers: SearchModifiers,
+    options: GapFillOptions = {}
 ): Promise<GapFillResult> {
     // ─────────────────────────────────────────────────────────
     // STEP 1: Map every TOC item to an anchor video (or mark as gap)
     // ─────────────────────────────────────────────────────────
-    const mappings = mapTopicsToAnchor(tableOfContents, anchor.videos);
+    const mappings = await mapTopicsToAnchors(tableOfContents, anchors, options);
     const gaps = mappings.filter(m => m.isGap);
 
     console.log(`🔧 Gap Filler: ${gaps.length}/${tableOfContents.length} topics need filling`);
 
     // ─────────────────────────────────────────────────────────
-    // STEP 2: Fill each gap with individually-searched videos
+    // STEP 2-3: Search each gap (in parallel), then merge anchor
+    // videos + gap fills into the final sequence
     // ─────────────────────────────────────────────────────────
-    const gapsFailed: string[] = [];
-    const gapEntries = new Map<number, PlaylistEntry>();
-
-    for (const gap of gaps) {
-        console.log(`  🔍 Filling gap: "${gap.topic}" (position ${gap.position})`);
-
-        const entry = await searchForTopic(
-            gap.topic,
-            subject,
-            modifiers,
-            gap.position
-        );
-
-        if (entry) {
-            gapEntries.set(gap.position, entry);
-        } else {
-            gapsFailed.push(gap.topic);
-            console.warn(`  ⚠️ No video found for: "${gap.topic}"`);
-        }
-    }
-
-    // ─────────────────────────────────────────────────────────
-    // STEP 3: Merge anchor videos + gap fills into final sequence
-    // ─────────────────────────────────────────────────────────
-    const entries = resequence(mappings, anchor, gapEntries);
+    const { entries, gapsFailed } = await fillTopics(mappings, gaps, subject, modifiers, options);
 
     return {
         entries,
         gapsFound: gaps.length,
-        gapsFilled: gapEntries.size,
+        gapsFilled: gaps.length - gapsFailed.length,
         gapsFailed,
     };
 }
@@ -132,157 +204,429 @@ export async function fillGaps(
 export async function buildFromScratch(
     tableOfContents: string[],
     subject: string,
-    modifiers: SearchModifiers
+    modifiers: SearchModifiers,
+    options: GapFillOptions = {}
 ): Promise<GapFillResult> {
     console.log(`🔧 Building from scratch: ${tableOfContents.length} topics to search`);
 
-    const entries: PlaylistEntry[] = [];
-    const gapsFailed: string[] = [];
-
-    for (let i = 0; i < tableOfContents.length; i++) {
-        const topic = tableOfContents[i];
-        console.log(`  🔍 [${i + 1}/${tableOfContents.length}] Searching: "${topic}"`);
-
-        const entry = await searchForTopic(topic, subject, modifiers, i);
+    const mappings: TopicMapping[] = tableOfContents.map((topic, position) => ({
+        topic,
+        position,
+        isGap: true,
+    }));
 
-        if (entry) {
-            entries.push(entry);
-        } else {
-            gapsFailed.push(topic);
-        }
-    }
+    const { entries, gapsFailed } = await fillTopics(mappings, mappings, subject, modifiers, options);
 
     return {
         entries,
         gapsFound: tableOfContents.length,
-        gapsFilled: entries.length,
+        gapsFilled: tableOfContents.length - gapsFailed.length,
         gapsFailed,
     };
 }
 
 // ═══════════════════════════════════════════════════════════════
-// INTERNAL: Topic Mapping with Fuse.js
+// INTERNAL: Concurrency
 // ═══════════════════════════════════════════════════════════════
 
-function mapTopicsToAnchor(
-    tableOfContents: string[],
-    anchorVideos: AnchorVideo[]
-): TopicMapping[] {
-    const fuseItems = anchorVideos.map(v => ({ title: v.title, video: v }));
-    const fuse = new Fuse(fuseItems, {
-        threshold: MATCH_THRESHOLD,
-        distance: 100,
-        includeScore: true,
-        keys: ["title"],
+function concurrencyOf(options: GapFillOptions): number {
+    return Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+}
+
+/** Same options, but searches go through the provider's rate limiter + retries */
+function withRateLimitedProvider(options: GapFillOptions): GapFillOptions {
+    return {
+        ...options,
+        searchProvider: createRateLimitedSearchProvider(options.searchProvider || getSearchProvider()),
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// INTERNAL: Search → Resequence → Vault
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Search the gaps, pick one video per topic, and store fresh winners in
+ * the vault. A cached winner can collide with a video already picked in
+ * this playlist — those topics are searched again, skipping the vault.
+ */
+async function fillTopics(
+    mappings: TopicMapping[],
+    gaps: TopicMapping[],
+    subject: string,
+    modifiers: SearchModifiers,
+    options: GapFillOptions
+): Promise<{ entries: PlaylistEntry[]; gapsFailed: string[] }> {
+    const searches = await searchTopics(gaps, subject, modifiers, options);
+    let result = resequence(mappings, toCandidateLists(searches), options);
+
+    const stale = gaps.filter(g =>
+        searches.get(g.position)?.fromVault && result.gapsFailed.includes(g.topic)
+    );
+
+    if (stale.length > 0) {
+        console.log(`  🗄️ ${stale.length} cached winners were duplicates. Searching again...`);
+        const fresh = await searchTopics(stale, subject, modifiers, { ...options, bypassCache: true });
+        fresh.forEach((search, position) => searches.set(position, search));
+        result = resequence(mappings, toCandidateLists(searches), options);
+    }
+
+    await cacheWinners(result.entries, searches, subject, modifiers, options);
+
+    return {
+        entries: await addRoleVideos(result.entries, subject, modifiers, options),
+        gapsFailed: result.gapsFailed,
+    };
+}
+
+/**
+ * Follow each topic's main video with one video per extra role
+ * (worked example, practice), never repeating a video. Topics that got
+ * no main video get no role videos either.
+ */
+async function addRoleVideos(
+    entries: PlaylistEntry[],
+    subject: string,
+    modifiers: SearchModifiers,
+    options: GapFillOptions
+): Promise<PlaylistEntry[]> {
+    const [mainRole, ...extraRoles] = options.videoRoles || [];
+    if (!mainRole || extraRoles.length === 0) return entries;
+
+    console.log(`🎚️ Adding ${extraRoles.map(roleLabel).join(" + ")} videos to ${entries.length} topics`);
+
+    const jobs = entries.flatMap(entry =>
+        (entry.topicsCovered || [entry.topicMatched]).flatMap(topic =>
+            extraRoles.map(role => ({ entry, topic, role }))
+        )
+    );
+    const searchOptions = withRateLimitedProvider(options);
+    const searches = await mapWithConcurrency(jobs, concurrencyOf(options), job =>
+        searchForTopic(job.topic, subject, modifiers, job.entry.position, searchOptions, job.role)
+    );
+
+    const usedIds = new Set(entries.map(entryKey));
+    const withRoles: PlaylistEntry[] = [];
+    let next = 0;
+
+    for (const entry of entries) {
+        withRoles.push({ ...entry, role: mainRole });
+
+        for (const job of jobs.filter(j => j.entry === entry)) {
+            const search = searches[next++];
+            const pick = search.ranked.find(c => !usedIds.has(entryKey(c.entry)));
+
+            if (!pick) {
+                console.warn(`  ⚠️ No ${roleLabel(job.role).toLowerCase()} video for: "${job.topic}"`);
+                continue;
+            }
+
+            usedIds.add(entryKey(pick.entry));
+            withRoles.push({ ...pick.entry, topicMatched: job.topic, role: job.role });
+
+            if (!search.fromVault && pick.entry.startSeconds === undefined) {
+                await cacheVideo(vaultKey("topic", subject, job.topic, modifiers, job.role), modifiers, pick.video);
+            }
+        }
+    }
+
+    withRoles.forEach((e, i) => { e.position = i; });
+    return withRoles;
+}
+
+function toCandidateLists(searches: Map<number, TopicSearch>): Map<number, PlaylistEntry[]> {
+    return new Map(
+        Array.from(searches, ([position, search]) => [position, search.ranked.map(c => c.entry)])
+    );
+}
+
+/**
+ * Store every freshly searched gap-fill winner under each topic it covers.
+ * With a time budget, a shorter pick only suits this playlist — just the
+ * top-ranked candidates are cached. Segments aren't cached: the vault
+ * stores whole videos.
+ */
+async function cacheWinners(
+    entries: PlaylistEntry[],
+    searches: Map<number, TopicSearch>,
+    subject: string,
+    modifiers: SearchModifiers,
+    options: GapFillOptions
+): Promise<void> {
+    const fresh = new Map<string, VideoCandidate>();
+    for (const search of searches.values()) {
+        if (search.fromVault) continue;
+        const cacheable = options.topicBudgets ? search.ranked.slice(0, 1) : search.ranked;
+        for (const { video } of cacheable) fresh.set(video.videoId, video);
+    }
+
+    for (const entry of entries) {
+        const video = fresh.get(entry.videoId);
+        if (entry.source !== "gap_fill" || !video || entry.startSeconds !== undefined) continue;
+
+        for (const topic of entry.topicsCovered || [entry.topicMatched]) {
+            await cacheVideo(vaultKey("topic", subject, topic, modifiers), modifiers, video);
+        }
+    }
+}
+
+/**
+ * Search every gap through the worker pool.
+ * Returns ranked candidates (best first) keyed by TOC position.
+ */
+async function searchTopics(
+    gaps: TopicMapping[],
+    subject: string,
+    modifiers: SearchModifiers,
+    options: GapFillOptions
+): Promise<Map<number, TopicSearch>> {
+    const searchOptions = withRateLimitedProvider(options);
+    let resolved = 0;
+
+    const results = await mapWithConcurrency(gaps, concurrencyOf(options), async (gap, i) => {
+        console.log(`  🔍 [${i + 1}/${gaps.length}] Searching: "${gap.topic}" (position ${gap.position})`);
+
+        const search = await searchForTopic(
+            gap.topic,
+            subject,
+            modifiers,
+            gap.position,
+            searchOptions
+        );
+
+        if (search.ranked.length === 0) {
+            console.warn(`  ⚠️ No video found for: "${gap.topic}"`);
+        }
+
+        // Provisional pick — resequence() may still swap it for a non-duplicate
+        emitProgress(options.onProgress, {
+            type: "topic_resolved",
+            index: ++resolved,
+            total: gaps.length,
+            topic: gap.topic,
+            entry: search.ranked[0]?.entry || null,
+        });
+
+        return search;
     });
 
-    return tableOfContents.map((topic, position) => {
-        const results = fuse.search(topic);
+    return new Map(gaps.map((gap, i) => [gap.position, results[i]]));
+}
+
+// ═══════════════════════════════════════════════════════════════
+// INTERNAL: Topic Mapping (TopicMatcher + one-to-one assignment)
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Map TOC topics to anchor videos. Anchors are tried in priority order,
+ * so the primary anchor wins every topic it covers; each anchor's videos
+ * are assigned one-to-one over the still-open topics. With merging on,
+ * an unassigned topic whose best match is the video of the topic right
+ * before it shares that video (resequence folds them together).
+ */
+async function mapTopicsToAnchors(
+    tableOfContents: string[],
+    anchors: AnchorPlaylist[],
+    options: GapFillOptions
+): Promise<TopicMapping[]> {
+    const matcher = options.topicMatcher || getTopicMatcher();
+    const mappings: TopicMapping[] = tableOfContents.map((topic, position) => ({
+        topic,
+        position,
+        isGap: true,
+    }));
+    const claimed = new Set<string>();
+
+    for (const anchor of anchors) {
+        const open = mappings.filter(m => m.isGap);
+        const videos = anchor.videos.filter(v => !claimed.has(v.videoId));
+        if (open.length === 0 || videos.length === 0) continue;
+
+        const similarity = await matcher.score(
+            open.map(m => m.topic),
+            videos.map(v => ({ id: v.videoId, title: v.title, description: v.description }))
+        );
+        const assignment = assignTopics(similarity, MATCH_THRESHOLD);
+
+        open.forEach((mapping, row) => {
+            const col = assignment[row];
+            if (col === null) return;
 
-        if (results.length > 0 && results[0].score !== undefined && results[0].score < MATCH_THRESHOLD) {
-            return {
-                topic,
-                position,
-                anchorVideo: results[0].item.video,
+            Object.assign(mapping, {
+                anchor,
+                anchorVideo: videos[col],
                 isGap: false,
-                matchScore: results[0].score,
-            };
+                matchScore: similarity[row][col],
+            });
+            claimed.add(videos[col].videoId);
+        });
+
+        if (options.mergeAdjacentTopics) {
+            open.forEach((mapping, row) => {
+                const previous = mappings[mapping.position - 1];
+                if (!mapping.isGap || !previous?.anchorVideo) return;
+
+                const col = videos.findIndex(v => v.videoId === previous.anchorVideo!.videoId);
+                const best = Math.max(...similarity[row]);
+                if (col >= 0 && similarity[row][col] === best && best >= MATCH_THRESHOLD) {
+                    Object.assign(mapping, {
+                        anchor,
+                        anchorVideo: videos[col],
+                        isGap: false,
+                        matchScore: best,
+                    });
+                }
+            });
         }
+    }
 
-        return {
-            topic,
-            position,
-            isGap: true,
-        };
-    });
+    return mappings;
 }
 
 // ═══════════════════════════════════════════════════════════════
 // INTERNAL: Per-Topic Video Search
 // ═══════════════════════════════════════════════════════════════
 
+/**
+ * Search one topic. Returns every acceptable candidate, best first, so
+ * duplicates can fall through to the next-best video. Videos from
+ * preferred channels always rank ahead of global results.
+ * A winner cached in the vault is returned on its own, without searching.
+ */
 async function searchForTopic(
     topic: string,
     subject: string,
     modifiers: SearchModifiers,
-    position: number
-): Promise<PlaylistEntry | null> {
-    try {
-        // Build search query with preferences
-        const contextualTopic = `${subject} ${topic}`;
-        const { smartQuery } = analyzeQuery(contextualTopic);
+    position: number,
+    options: GapFillOptions,
+    role: VideoRole = "concept"
+): Promise<TopicSearch> {
+    const provider = options.searchProvider || getSearchProvider();
+
+    if (!options.bypassCache) {
+        const key = vaultKey("topic", subject, topic, modifiers, role === "concept" ? undefined : role);
+        const cached = await lookupCachedVideo(key, modifiers);
+        if (cached) {
+            const trace = options.traceRanking
+                ? buildRankingTrace({ topic, ranked: [cached], modifiers, scoringProfile: options.scoringProfile, fromVault: true })
+                : undefined;
+            return { ranked: [toRankedCandidate(cached, topic, position, options, undefined, trace)], fromVault: true };
+        }
+    }
 
-        // Append language suffix and mode keywords
-        const searchQuery = [
-            smartQuery.primary,
-            modifiers.languageSuffix,
-        ].filter(Boolean).join(" ");
+    try {
+        // Role-specific query with language suffix (engine/videoRoles)
+        const queries = buildRoleQueries(topic, subject, modifiers, role);
+        const searchQuery = queries.primary;
+
+        // Preferred channels first — keeps the playlist to one or two teachers
+        const preferred = await searchPreferredChannels(searchQuery, provider, options);
+        const preferredRanked = preferred.length > 0
+            ? await rankCandidates(preferred, topic, modifiers, position, options)
+            : [];
+
+        if (preferredRanked.length >= MIN_PREFERRED_CANDIDATES) {
+            return { ranked: preferredRanked, fromVault: false };
+        }
 
-        // yt-search
-        const result = await ytSearch(searchQuery);
-        const videos = result.videos || [];
+        // Global search (reranked only if the preferred channels had nothing)
+        const globalOptions = preferredRanked.length > 0 ? { ...options, skipReranker: true } : options;
+        let videos = await provider.searchVideos(searchQuery);
 
         if (videos.length === 0) {
             // Fallback: simpler query
-            const fallbackResult = await ytSearch(`${topic} ${modifiers.languageSuffix}`.trim());
-            if (!fallbackResult.videos || fallbackResult.videos.length === 0) {
-                return null;
-            }
-            return pickBestVideo(fallbackResult.videos, topic, modifiers, position);
+            videos = await provider.searchVideos(queries.fallback);
         }
 
-        return pickBestVideo(videos, topic, modifiers, position);
+        const globalRanked = await rankCandidates(videos, topic, modifiers, position, globalOptions);
+        const preferredIds = new Set(preferredRanked.map(c => c.video.videoId));
+
+        return {
+            ranked: [...preferredRanked, ...globalRanked.filter(c => !preferredIds.has(c.video.videoId))],
+            fromVault: false,
+        };
 
     } catch (error) {
         console.error(`❌ Search failed for "${topic}":`, error);
-        return null;
+        return { ranked: [], fromVault: false };
+    }
+}
+
+/**
+ * Search `<query> <channel>` for the first few preferred channels and keep
+ * only videos actually uploaded by that channel. Stops at the first channel
+ * that has something. A failed channel search is not fatal — we just move
+ * on to the global search.
+ */
+async function searchPreferredChannels(
+    searchQuery: string,
+    provider: SearchProvider,
+    options: GapFillOptions
+): Promise<VideoCandidate[]> {
+    const channels = (options.preferredChannels || []).slice(0, MAX_CHANNEL_SEARCHES);
+
+    for (const channel of channels) {
+        try {
+            const videos = await provider.searchVideos(`${searchQuery} ${channel}`);
+            const fromChannel = videos.filter(v => sameChannel(v.author.name, channel));
+
+            if (fromChannel.length > 0) {
+                return fromChannel;
+            }
+        } catch (error) {
+            console.warn(`  ⚠️ Channel search failed for "${channel}":`, error);
+        }
     }
+
+    return [];
+}
+
+function sameChannel(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function pickBestVideo(
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    rawVideos: any[],
+async function rankCandidates(
+    videos: VideoCandidate[],
     topic: string,
     modifiers: SearchModifiers,
-    position: number
-): Promise<PlaylistEntry | null> {
-    // Convert yt-search results to VideoCandidate format
-    const candidates: VideoCandidate[] = rawVideos.slice(0, 15).map(v => ({
-        videoId: v.videoId,
-        title: v.title,
-        description: v.description || "",
-        duration: {
-            seconds: v.duration?.seconds || 0,
-            timestamp: v.duration?.timestamp || "0:00",
-        },
-        views: v.views || 0,
-        author: {
-            name: v.author?.name || "Unknown",
-            url: v.author?.url,
-        },
-    }));
+    position: number,
+    options: GapFillOptions
+): Promise<RankedCandidate[]> {
+    if (videos.length === 0) return [];
+
+    const top = videos.slice(0, 15);
+    const enriched = options.videoEnricher ? await options.videoEnricher.enrich(top) : top;
+    const { videos: candidates, segments } = await sliceLongVideos(enriched, topic, modifiers, options);
 
     // Filter by duration
     const filtered = filterByDuration(candidates, modifiers.duration.minSeconds)
         .filter(v => v.duration.seconds <= modifiers.duration.maxSeconds);
 
     // If duration filtering removed everything, relax constraints
-    const pool = filtered.length > 0
+    const sized = filtered.length > 0
         ? filtered
         : filterByDuration(candidates, 60); // At least 1 minute
 
-    if (pool.length === 0) return null;
+    if (sized.length === 0) return [];
+
+    // Videos in the student's language first (core/languageDetector)
+    const pool = filterByLanguage(sized, modifiers.language, options.languageCheck);
+    if (pool.length === 0) return [];
 
-    // Rank by density
-    const ranked = rankByDensity(pool);
+    // Rank by density, then by what the top candidates actually say
+    const ranked = await scoreByTranscript(rankByDensity(pool, options.scoringProfile, modifiers.language), topic, {
+        provider: options.transcriptProvider || getTranscriptProvider(),
+        language: modifiers.language,
+        segments,
+    });
 
     // Optional: Gemini rerank
     let winnerId = ranked[0].videoId;
+    let reranked: RerankerResult | undefined;
 
-    if (USE_RERANKER && ranked.length >= 3) {
+    if (USE_RERANKER && !options.skipReranker && ranked.length >= 3) {
         const llmInput = prepareForLLMRerank(ranked.slice(0, 5));
-        const reranked = await vibeCheckRerank({
+        reranked = await vibeCheckRerank({
             candidates: llmInput,
             userRole: "Student",
             topic,
@@ -292,58 +636,188 @@ async function pickBestVideo(
         if (reranked.winnerId) {
             winnerId = reranked.winnerId;
         }
+
+        emitProgress(options.onProgress, {
+            type: "rerank_decision",
+            topic,
+            winnerId: reranked.winnerId,
+            reasoning: reranked.reasoning,
+            fallbackUsed: reranked.fallbackUsed,
+        });
     }
 
+    // Winner first, then the rest in density order
     const winner = ranked.find(v => v.videoId === winnerId) || ranked[0];
+    const ordered = [winner, ...ranked.filter(v => v !== winner)];
+
+    const segmentIds = new Set(segments.keys());
+    const traceFor = (videoId: string) => options.traceRanking
+        ? buildRankingTrace({
+            topic,
+            ranked: ordered,
+            modifiers,
+            scoringProfile: options.scoringProfile,
+            segmentIds,
+            reranker: reranked,
+            pickedId: videoId,
+        })
+        : undefined;
+
+    return ordered.map(v => toRankedCandidate(v, topic, position, options, segments.get(v.videoId), traceFor(v.videoId)));
+}
+
+/**
+ * Videos too long for the learning mode are swapped for the chapter slice
+ * covering the topic, when their description has one. The slice's length
+ * stands in for the duration, so filtering and scoring judge the part the
+ * student will actually watch.
+ */
+async function sliceLongVideos(
+    videos: VideoCandidate[],
+    topic: string,
+    modifiers: SearchModifiers,
+    options: GapFillOptions
+): Promise<{ videos: VideoCandidate[]; segments: Map<string, VideoChapter> }> {
+    const matcher = options.topicMatcher || getTopicMatcher();
+    const segments = new Map<string, VideoChapter>();
+    const sliced: VideoCandidate[] = [];
+
+    for (const video of videos) {
+        const segment = video.duration.seconds > modifiers.duration.maxSeconds && video.chapters
+            ? await findTopicSegment(topic, video.chapters, matcher)
+            : null;
+
+        if (!segment) {
+            sliced.push(video);
+            continue;
+        }
+
+        const seconds = segment.endSeconds - segment.startSeconds;
+        segments.set(video.videoId, segment);
+        sliced.push({ ...video, duration: { seconds, timestamp: formatTimestamp(seconds) } });
+        console.log(`  ✂️ "${topic}": ${formatTimestamp(segment.startSeconds)}-${formatTimestamp(segment.endSeconds)} of "${video.title}"`);
+    }
+
+    return { videos: sliced, segments };
+}
+
+function toRankedCandidate(
+    video: VideoCandidate,
+    topic: string,
+    position: number,
+    options: GapFillOptions,
+    segment?: VideoChapter,
+    rankingTrace?: RankingTrace
+): RankedCandidate {
+    const rankingFeatures = options.recordFeatures
+        ? buildRankingFeatures(video, options.scoringProfile)
+        : undefined;
 
     return {
-        position,
-        videoId: winner.videoId,
-        title: winner.title,
-        channelName: winner.author.name,
-        durationSeconds: winner.duration.seconds,
-        durationDisplay: winner.duration.timestamp,
-        topicMatched: topic,
-        source: "gap_fill",
+        video,
+        entry: {
+            position,
+            videoId: video.videoId,
+            title: video.title,
+            channelName: video.author.name,
+            durationSeconds: video.duration.seconds,
+            durationDisplay: video.duration.timestamp,
+            topicMatched: topic,
+            source: "gap_fill",
+            ...(segment ? { startSeconds: segment.startSeconds, endSeconds: segment.endSeconds } : {}),
+            ...(rankingTrace ? { rankingTrace } : {}),
+            ...(rankingFeatures ? { rankingFeatures } : {}),
+            detectedLanguage: detectLanguage(video.title, video.description, video.defaultAudioLanguage),
+        },
     };
 }
 
 // ═══════════════════════════════════════════════════════════════
-// INTERNAL: Re-sequencing
+// INTERNAL: Re-sequencing + De-duplication
 // ═══════════════════════════════════════════════════════════════
 
+/**
+ * Walk the TOC in order and pick one video per topic.
+ * 
+ * - Anchor videos are reserved up front, so gap fills never repeat them.
+ * - Each gap takes its best candidate not already in the playlist (with
+ *   topicBudgets, the best one that fits the topic's share of the budget).
+ * - With mergeAdjacentTopics, a topic whose top pick is the video chosen
+ *   for the topic right before it is folded into that entry instead.
+ */
 function resequence(
     mappings: TopicMapping[],
-    anchor: AnchorPlaylist,
-    gapEntries: Map<number, PlaylistEntry>
-): PlaylistEntry[] {
+    candidatesByPosition: Map<number, PlaylistEntry[]>,
+    options: GapFillOptions
+): { entries: PlaylistEntry[]; gapsFailed: string[] } {
     const entries: PlaylistEntry[] = [];
+    const gapsFailed: string[] = [];
+    const usedIds = new Set(
+        mappings.flatMap(m => (m.anchorVideo ? [m.anchorVideo.videoId] : []))
+    );
+
+    let previous: PlaylistEntry | null = null;
 
     for (const mapping of mappings) {
-        if (!mapping.isGap && mapping.anchorVideo) {
+        // The entry chosen for the TOC topic right before this one, if any
+        const adjacent: PlaylistEntry | null = previous && previous.position === mapping.position - 1
+            ? previous
+            : null;
+
+        let entry: PlaylistEntry | null = null;
+
+        if (!mapping.isGap && mapping.anchorVideo && mapping.anchor) {
             // Use the anchor video
-            entries.push({
+            entry = {
                 position: mapping.position,
                 videoId: mapping.anchorVideo.videoId,
                 title: mapping.anchorVideo.title,
-                channelName: anchor.channelName,
+                channelName: mapping.anchor.channelName,
                 durationSeconds: mapping.anchorVideo.durationSeconds,
                 durationDisplay: mapping.anchorVideo.durationDisplay,
                 topicMatched: mapping.topic,
                 source: "anchor_playlist",
-            });
-        } else if (gapEntries.has(mapping.position)) {
-            // Use the gap-filled video
-            entries.push(gapEntries.get(mapping.position)!);
+                anchorPlaylistId: mapping.anchor.playlistId,
+                detectedLanguage: detectLanguage(mapping.anchorVideo.title, mapping.anchorVideo.description),
+            };
+        } else {
+            const candidates = candidatesByPosition.get(mapping.position) || [];
+            const pick = pickWithinBudget(candidates, usedIds, options.topicBudgets?.[mapping.position]);
+            entry = pick ? { ...pick } : null; // Copied: merging + renumbering mutate entries
+
+            if (options.mergeAdjacentTopics && adjacent && candidates[0] && entryKey(candidates[0]) === entryKey(adjacent)) {
+                entry = adjacent;
+            } else if (!entry) {
+                // If neither exists, this topic is simply missing
+                gapsFailed.push(mapping.topic);
+                if (candidates.length > 0) {
+                    console.warn(`  ⚠️ Only duplicate videos found for: "${mapping.topic}"`);
+                }
+            } else if (usedIds.has(entryKey(candidates[0]))) {
+                console.log(`  ♻️ "${mapping.topic}": skipped duplicate "${candidates[0].title}"`);
+            } else if (entryKey(entry) !== entryKey(candidates[0])) {
+                console.log(`  ⏱️ "${mapping.topic}": took shorter "${entry.title}" to fit the time budget`);
+            }
         }
-        // If neither exists, this topic is simply missing (tracked in gapsFailed)
-    }
 
-    // Sort by position (should already be, but ensure)
-    entries.sort((a, b) => a.position - b.position);
+        if (!entry) continue;
+
+        if (adjacent && options.mergeAdjacentTopics && entryKey(entry) === entryKey(adjacent)) {
+            // One video genuinely covers both topics — fold this one in
+            adjacent.topicsCovered = [...(adjacent.topicsCovered || [adjacent.topicMatched]), mapping.topic];
+            adjacent.position = mapping.position;
+            console.log(`  🔗 Merged "${mapping.topic}" into "${adjacent.title}"`);
+            previous = adjacent;
+            continue;
+        }
+
+        usedIds.add(entryKey(entry));
+        entries.push(entry);
+        previous = entry;
+    }
 
     // Re-number positions to be contiguous
     entries.forEach((e, i) => { e.position = i; });
 
-    return entries;
+    return { entries, gapsFailed };
 }
@@ -7,14 +7,27 @@
  * STRATEGY:
  *   1. Search for "[subject] one shot full course in [language]"
  *   2. Filter to MIN_DURATION = 45 minutes
- *   3. Rank by density
+ *   3. Keep videos in the student's language (OneShotOptions.languageCheck), rank by density
  *   4. Return 1-5 videos (covering major sections)
+ * 
+ * Results are cached in the video vault (engine/vaultCache), one entry
+ * per rank, so a repeat search for the same subject skips the provider.
+ *
+ * Each entry carries topicTimestamps: where every TOC topic starts in the
+ * video, from its description chapters (core/chapterParser + engine/chapterMapper).
+ * With traceRanking, also the ranked pool it was picked from (engine/rankingTrace).
  */
 
-import ytSearch from "yt-search";
-import type { SyllabusData, PlaylistEntry } from "../core/types.js";
+import type { SyllabusData, PlaylistEntry, LanguageCheckMode } from "../core/types.js";
 import { rankByDensity, filterByDuration, type VideoCandidate } from "../core/searchScraper.js";
+import type { ScoringProfile } from "../core/scoringProfiles.js";
+import { getSearchProvider, type SearchProvider } from "../core/searchProvider.js";
 import type { SearchModifiers } from "./preferences.js";
+import { vaultKey, lookupCachedVideo, cacheVideo } from "./vaultCache.js";
+import { mapTopicsToChapters } from "./chapterMapper.js";
+import { getTopicMatcher, type TopicMatcher } from "../core/topicMatcher.js";
+import { buildRankingTrace, buildRankingFeatures } from "./rankingTrace.js";
+import { detectLanguage, filterByLanguage } from "../core/languageDetector.js";
 
 // ═══════════════════════════════════════════════════════════════
 // CONFIG
@@ -26,6 +39,27 @@ const ONE_SHOT_MIN_DURATION = 2700; // 45 minutes
 /** Maximum results to return */
 const MAX_ONE_SHOT_RESULTS = 5;
 
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface OneShotOptions {
+    /** Where to search (defaults to getSearchProvider()) */
+    searchProvider?: SearchProvider;
+    /** Ignore cached results in the video vault (fresh results are still stored) */
+    bypassCache?: boolean;
+    /** How TOC topics are matched to description chapters (defaults to getTopicMatcher()) */
+    topicMatcher?: TopicMatcher;
+    /** Density-scoring profile (defaults to stem_programming) */
+    scoringProfile?: ScoringProfile;
+    /** Attach a RankingTrace (the candidate pool) to every entry */
+    traceRanking?: boolean;
+    /** Attach the density rules each pick scored on */
+    recordFeatures?: boolean;
+    /** How strictly videos must be in the student's language (default lenient) */
+    languageCheck?: LanguageCheckMode;
+}
+
 // ═══════════════════════════════════════════════════════════════
 // PUBLIC API
 // ═══════════════════════════════════════════════════════════════
@@ -35,11 +69,21 @@ const MAX_ONE_SHOT_RESULTS = 5;
  */
 export async function searchOneShot(
     syllabus: SyllabusData,
-    modifiers: SearchModifiers
+    modifiers: SearchModifiers,
+    options: OneShotOptions = {}
 ): Promise<PlaylistEntry[]> {
+    const provider = options.searchProvider || getSearchProvider();
     const subject = syllabus.title;
     const queries = buildOneShotQueries(subject, modifiers);
 
+    if (!options.bypassCache) {
+        const cached = await lookupCachedResults(subject, modifiers);
+        if (cached.length > 0) {
+            console.log(`🗄️ One-Shot Search: ${cached.length} cached videos for "${subject}"`);
+            return formatResults(cached, syllabus, modifiers, options, true);
+        }
+    }
+
     console.log(`🎯 One-Shot Search for "${subject}" with ${queries.length} queries`);
 
     // Collect candidates from all queries
@@ -49,26 +93,12 @@ export async function searchOneShot(
     for (const query of queries) {
         try {
             console.log(`  🔍 Query: "${query}"`);
-            const result = await ytSearch(query);
+            const videos = await provider.searchVideos(query);
 
-            for (const v of (result.videos || []).slice(0, 10)) {
+            for (const v of videos.slice(0, 10)) {
                 if (seenIds.has(v.videoId)) continue;
                 seenIds.add(v.videoId);
-
-                allCandidates.push({
-                    videoId: v.videoId,
-                    title: v.title,
-                    description: v.description || "",
-                    duration: {
-                        seconds: v.duration?.seconds || 0,
-                        timestamp: v.duration?.timestamp || "0:00",
-                    },
-                    views: v.views || 0,
-                    author: {
-                        name: v.author?.name || "Unknown",
-                        url: v.author?.url,
-                    },
-                });
+                allCandidates.push(v);
             }
         } catch (error) {
             console.warn(`  ⚠️ Query failed: "${query}"`, error);
@@ -87,13 +117,13 @@ export async function searchOneShot(
             console.error("  ❌ No suitable one-shot videos found at all.");
             return [];
         }
-        return formatResults(rankByDensity(relaxed), subject, MAX_ONE_SHOT_RESULTS);
+        return cacheAndFormat(rankByDensity(filterByLanguage(relaxed, modifiers.language, options.languageCheck), options.scoringProfile, modifiers.language), syllabus, modifiers, options);
     }
 
-    // Rank by density
-    const ranked = rankByDensity(longVideos);
+    // Rank by density (videos in the student's language only — lenient mode keeps all if none are)
+    const ranked = rankByDensity(filterByLanguage(longVideos, modifiers.language, options.languageCheck), options.scoringProfile, modifiers.language);
 
-    return formatResults(ranked, subject, MAX_ONE_SHOT_RESULTS);
+    return cacheAndFormat(ranked, syllabus, modifiers, options);
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -110,19 +140,79 @@ function buildOneShotQueries(subject: string, modifiers: SearchModifiers): strin
     ];
 }
 
-function formatResults(
+/** Cached winners in rank order (stops at the first missing rank) */
+async function lookupCachedResults(subject: string, modifiers: SearchModifiers): Promise<VideoCandidate[]> {
+    const cached: VideoCandidate[] = [];
+
+    for (let rank = 0; rank < MAX_ONE_SHOT_RESULTS; rank++) {
+        const video = await lookupCachedVideo(vaultKey("one_shot", subject, `#${rank}`, modifiers), modifiers);
+        if (!video) break;
+        cached.push(video);
+    }
+
+    return cached;
+}
+
+async function cacheAndFormat(
     ranked: VideoCandidate[],
-    subject: string,
-    maxResults: number
-): PlaylistEntry[] {
-    return ranked.slice(0, maxResults).map((v, i) => ({
-        position: i,
-        videoId: v.videoId,
-        title: v.title,
-        channelName: v.author.name,
-        durationSeconds: v.duration.seconds,
-        durationDisplay: v.duration.timestamp,
-        topicMatched: subject,
-        source: "one_shot" as const,
-    }));
+    syllabus: SyllabusData,
+    modifiers: SearchModifiers,
+    options: OneShotOptions
+): Promise<PlaylistEntry[]> {
+    const winners = ranked.slice(0, MAX_ONE_SHOT_RESULTS);
+
+    for (const [rank, video] of winners.entries()) {
+        await cacheVideo(vaultKey("one_shot", syllabus.title, `#${rank}`, modifiers), modifiers, video);
+    }
+
+    return formatResults(ranked, syllabus, modifiers, options);
+}
+
+async function formatResults(
+    ranked: VideoCandidate[],
+    syllabus: SyllabusData,
+    modifiers: SearchModifiers,
+    options: OneShotOptions,
+    fromVault = false
+): Promise<PlaylistEntry[]> {
+    const matcher = options.topicMatcher || getTopicMatcher();
+    const entries: PlaylistEntry[] = [];
+
+    for (const [i, v] of ranked.slice(0, MAX_ONE_SHOT_RESULTS).entries()) {
+        const chapters = v.chapters || [];
+        const topicTimestamps = await mapTopicsToChapters(syllabus.tableOfContents, chapters, matcher);
+        const rankingFeatures = options.recordFeatures
+            ? buildRankingFeatures(v, options.scoringProfile)
+            : undefined;
+
+        if (topicTimestamps.length > 0) {
+            console.log(`  🧭 "${v.title}": ${topicTimestamps.length}/${syllabus.tableOfContents.length} topics located in ${chapters.length} chapters`);
+        }
+
+        entries.push({
+            position: i,
+            videoId: v.videoId,
+            title: v.title,
+            channelName: v.author.name,
+            durationSeconds: v.duration.seconds,
+            durationDisplay: v.duration.timestamp,
+            topicMatched: syllabus.title,
+            source: "one_shot" as const,
+            ...(topicTimestamps.length > 0 ? { topicTimestamps } : {}),
+            ...(options.traceRanking ? {
+                rankingTrace: buildRankingTrace({
+                    topic: syllabus.title,
+                    ranked,
+                    modifiers,
+                    scoringProfile: options.scoringProfile,
+                    fromVault,
+                    pickedId: v.videoId,
+                }),
+            } : {}),
+            ...(rankingFeatures ? { rankingFeatures } : {}),
+            detectedLanguage: detectLanguage(v.title, v.description, v.defaultAudioLanguage),
+        });
+    }
+
+    return entries;
 }
@@ -7,16 +7,20 @@
  *   1. Extract TOC from syllabus screenshot (syllabusExtractor)
  *   2. Resolve user preferences → search modifiers (preferences)
  *   3. IF one-shot mode → short-circuit with single search
- *   4. ELSE → hunt for anchor playlist (anchorHunter)
+ *   4. ELSE → hunt for anchor playlist(s) (anchorHunter)
  *   5. IF anchor found → fill gaps (gapFiller)
  *   6. ELSE → build from scratch (gapFiller.buildFromScratch)
- *   7. Generate export URL (exportPlaylist)
- *   8. Return PlaylistResult
+ *   7. IF timeBudgetMinutes → fit the playlist into the budget (timeBudget)
+ *   8. Generate export URL (exportPlaylist)
+ *   9. Return PlaylistResult
+ * 
+ * Every stage reports BuildProgressEvents through `BuildOptions.onProgress`
+ * so callers (e.g. the SSE route) can show live progress.
  * 
  * API CALLS (total):
  *   - 1 Gemini call (syllabus OCR)
- *   - 1-5 yt-search calls (free, anchor hunting)
- *   - 0-N yt-search calls (free, gap filling)
+ *   - 1-5 searches (free with yt-search, anchor hunting)
+ *   - 0-N searches (free with yt-search, gap filling)
  *   - 0-N Gemini calls (optional reranking)
  */
 
@@ -25,25 +29,64 @@ import type {
     SyllabusData,
     PlaylistResult,
     PlaylistEntry,
+    ProgressListener,
+    TimeBudgetReport,
+    LanguageCheckMode,
 } from "../core/types.js";
 import { extractSyllabus, extractSyllabusFromText } from "./syllabusExtractor.js";
 import { resolvePreferences, getDefaultPreferences, validatePreferences } from "./preferences.js";
 import { huntForAnchor } from "./anchorHunter.js";
 import { fillGaps, buildFromScratch } from "./gapFiller.js";
-import { toWatchURL, generateSummary } from "./exportPlaylist.js";
-import { searchOneShot } from "./oneShotSearch.js";
+import { toWatchURL, generateSummary, channelConsistency } from "./exportPlaylist.js";
+import { searchOneShot, type OneShotOptions } from "./oneShotSearch.js";
+import { resolveVideoRoles } from "./videoRoles.js";
+import { planTimeBudget, fitToTimeBudget, trimToTimeBudget } from "./timeBudget.js";
+import { createVideoEnricher } from "./videoEnrichment.js";
+import { emitProgress } from "./progress.js";
+import { getEnrichmentProvider, type SearchProvider } from "../core/searchProvider.js";
+import { getTopicMatcher, type TopicMatcher } from "../core/topicMatcher.js";
+import { getScoringProfile, selectScoringProfile } from "../core/scoringProfiles.js";
+import type { TranscriptProvider } from "../core/transcriptProvider.js";
 
 // ═══════════════════════════════════════════════════════════════
 // TYPES
 // ═══════════════════════════════════════════════════════════════
 
 export interface BuildOptions {
-    /** User preferences (student type, language, learning mode) */
+    /** User preferences (student type, language, learning mode, optional time budget) */
     preferences?: Partial<UserPreferences>;
     /** Skip anchor hunting and always build from scratch */
     skipAnchorSearch?: boolean;
     /** Skip Gemini reranking (faster, slightly lower quality) */
     skipReranker?: boolean;
+    /** Receives stage-by-stage progress events (stages, anchors, topics, reranks) */
+    onProgress?: ProgressListener;
+    /** Where to search for videos/playlists (defaults to SEARCH_PROVIDER env / yt-search) */
+    searchProvider?: SearchProvider;
+    /** Max topics searched in parallel during gap filling (default 4) */
+    concurrency?: number;
+    /** Merge adjacent TOC topics into one entry when the same video wins both */
+    mergeAdjacentTopics?: boolean;
+    /** Stitch several partial anchor playlists together (gap fill only what none cover) */
+    combineAnchors?: boolean;
+    /** How TOC topics are matched to playlist videos (defaults to TOPIC_MATCHER env / lexical) */
+    topicMatcher?: TopicMatcher;
+    /** Ignore cached topic winners / anchors / one-shot results in the video vault (fresh ones are still stored) */
+    bypassCache?: boolean;
+    /** Videos per topic, 1-3: concept, + worked example, + practice problems (default 1; ignored in one-shot mode) */
+    videosPerTopic?: number;
+    /** Density-scoring profile name, e.g. "humanities" (defaults to one selected from the syllabus) */
+    scoringProfile?: string;
+    /** Where candidates get YouTube API metadata (defaults to the Data API when a key is set; null = never) */
+    enrichmentProvider?: SearchProvider | null;
+    /** Where captions come from for transcript scoring (defaults to TRANSCRIPT_PROVIDER env / none) */
+    transcriptProvider?: TranscriptProvider;
+    /** Attach a RankingTrace to every searched entry — see exportPlaylist.toRankingCSV (default false) */
+    traceRanking?: boolean;
+    /** Attach the density rules each searched pick scored on, for replace / keep feedback (default false) */
+    recordFeatures?: boolean;
+    /** "strict" keeps only candidates confidently in the student's language; "lenient" only drops clear mismatches (default) */
+    languageCheck?: LanguageCheckMode;
 }
 
 export interface BuildFromImageOptions extends BuildOptions {
@@ -73,15 +116,22 @@ export interface BuildFromTOCOptions extends BuildOptions {
 export async function buildPlaylistFromImage(
     options: BuildFromImageOptions
 ): Promise<PlaylistResult> {
+    const { imageBuffer, mimeType, ...buildOptions } = options;
     const prefs = validatePreferences(options.preferences || getDefaultPreferences());
     const modifiers = resolvePreferences(prefs);
 
     console.log(`\n🏗️ Playlist Builder starting (${modifiers.modeLabel})\n`);
 
     // Step 1: Extract syllabus from image
+    emitProgress(options.onProgress, {
+        type: "stage",
+        stage: "extracting_syllabus",
+        message: "Reading your syllabus...",
+    });
+
     const extraction = await extractSyllabus(
-        options.imageBuffer,
-        options.mimeType,
+        imageBuffer,
+        mimeType,
         prefs.learningMode
     );
 
@@ -89,11 +139,12 @@ export async function buildPlaylistFromImage(
         throw new Error(`Syllabus extraction failed: ${extraction.error}`);
     }
 
+    emitSyllabusExtracted(extraction.data, options.onProgress);
+
     return buildPlaylistFromSyllabus({
+        ...buildOptions,
         syllabus: extraction.data,
         preferences: prefs,
-        skipAnchorSearch: options.skipAnchorSearch,
-        skipReranker: options.skipReranker,
     });
 }
 
@@ -103,13 +154,20 @@ export async function buildPlaylistFromImage(
 export async function buildPlaylistFromText(
     options: BuildFromTextOptions
 ): Promise<PlaylistResult> {
+    const { syllabusText, ...buildOptions } = options;
     const prefs = validatePreferences(options.preferences || getDefaultPreferences());
     const modifiers = resolvePreferences(prefs);
 
     console.log(`\n🏗️ Playlist Builder starting (${modifiers.modeLabel})\n`);
 
+    emitProgress(options.onProgress, {
+        type: "stage",
+        stage: "extracting_syllabus",
+        message: "Reading your syllabus...",
+    });
+
     const extraction = await extractSyllabusFromText(
-        options.syllabusText,
+        syllabusText,
         prefs.learningMode
     );
 
@@ -117,11 +175,20 @@ export async function buildPlaylistFromText(
         throw new Error(`Syllabus extraction failed: ${extraction.error}`);
     }
 
+    emitSyllabusExtracted(extraction.data, options.onProgress);
+
     return buildPlaylistFromSyllabus({
+        ...buildOptions,
         syllabus: extraction.data,
         preferences: prefs,
-        skipAnchorSearch: options.skipAnchorSearch,
-        skipReranker: options.skipReranker,
+    });
+}
+
+function emitSyllabusExtracted(syllabus: SyllabusData, onProgress?: ProgressListener): void {
+    emitProgress(onProgress, {
+        type: "syllabus_extracted",
+        syllabusTitle: syllabus.title,
+        tableOfContents: syllabus.tableOfContents,
     });
 }
 
@@ -138,18 +205,31 @@ export async function buildPlaylistFromSyllabus(
 ): Promise<PlaylistResult> {
     const prefs = validatePreferences(options.preferences || getDefaultPreferences());
     const modifiers = resolvePreferences(prefs);
-    const { syllabus } = options;
+    const { syllabus, onProgress, searchProvider } = options;
 
     console.log(`📚 Subject: "${syllabus.title}"`);
     console.log(`📋 TOC: ${syllabus.tableOfContents.length} topics`);
     console.log(`⚙️  Mode: ${modifiers.modeLabel}`);
+
+    const scoringProfile = options.scoringProfile
+        ? getScoringProfile(options.scoringProfile)
+        : selectScoringProfile(syllabus);
+    console.log(`🧮 Scoring profile: ${scoringProfile.label}`);
     console.log("");
 
     // ─────────────────────────────────────────────────────────
     // ONE-SHOT SHORT-CIRCUIT
     // ─────────────────────────────────────────────────────────
     if (prefs.learningMode === "one_shot") {
-        return handleOneShotMode(syllabus, prefs, modifiers);
+        return handleOneShotMode(syllabus, prefs, modifiers, onProgress, {
+            searchProvider,
+            bypassCache: options.bypassCache,
+            topicMatcher: options.topicMatcher,
+            scoringProfile,
+            traceRanking: options.traceRanking,
+            recordFeatures: options.recordFeatures,
+            languageCheck: options.languageCheck,
+        });
     }
 
     // ─────────────────────────────────────────────────────────
@@ -157,24 +237,92 @@ export async function buildPlaylistFromSyllabus(
     // ─────────────────────────────────────────────────────────
     let entries: PlaylistEntry[];
     let anchorInfo: PlaylistResult["anchor"] | undefined;
+    let anchorsInfo: PlaylistResult["anchors"] | undefined;
+    let timeBudget: TimeBudgetReport | undefined;
+
+    // Topic shares of the time budget steer gap-fill picks towards shorter videos
+    const budgetPlan = prefs.timeBudgetMinutes
+        ? planTimeBudget(syllabus, prefs.timeBudgetMinutes)
+        : null;
+
+    // One enricher per build, so videos.list calls are shared across topics
+    const enricher = createVideoEnricher(
+        options.enrichmentProvider !== undefined ? options.enrichmentProvider : getEnrichmentProvider()
+    );
+
+    const gapOptions = {
+        onProgress,
+        skipReranker: options.skipReranker,
+        searchProvider,
+        concurrency: options.concurrency,
+        mergeAdjacentTopics: options.mergeAdjacentTopics,
+        topicMatcher: options.topicMatcher,
+        bypassCache: options.bypassCache,
+        videoRoles: resolveVideoRoles(options.videosPerTopic),
+        topicBudgets: budgetPlan?.allocations,
+        transcriptProvider: options.transcriptProvider,
+        videoEnricher: enricher,
+        scoringProfile,
+        traceRanking: options.traceRanking,
+        recordFeatures: options.recordFeatures,
+        languageCheck: options.languageCheck,
+    };
 
     if (!options.skipAnchorSearch) {
         // Step 2: Hunt for anchor playlist
+        emitProgress(onProgress, {
+            type: "stage",
+            stage: "hunting_anchor",
+            message: "Looking for existing playlists that cover your syllabus...",
+        });
+
         const anchorResult = await huntForAnchor(
             syllabus.title,
             syllabus.tableOfContents,
-            modifiers.languageSuffix
+            modifiers.languageSuffix,
+            {
+                onProgress,
+                searchProvider,
+                combineAnchors: options.combineAnchors,
+                topicMatcher: options.topicMatcher,
+                modifiers,
+                bypassCache: options.bypassCache,
+            }
         );
 
+        emitProgress(onProgress, {
+            type: "anchor_selected",
+            found: anchorResult.found,
+            playlistTitle: anchorResult.anchor?.playlistTitle,
+            coverageScore: anchorResult.anchor?.coverageScore,
+        });
+
         if (anchorResult.found && anchorResult.anchor) {
             // Step 3a: Anchor found — fill gaps
-            console.log(`\n✅ Anchor found! Filling ${anchorResult.anchor.unmatchedTopics.length} gaps...\n`);
+            const anchors = anchorResult.anchors || [anchorResult.anchor];
+            const gapCount = (anchorResult.uncoveredTopics || anchorResult.anchor.unmatchedTopics).length;
+            const anchorLabel = anchors.length > 1
+                ? `"${anchorResult.anchor.playlistTitle}" + ${anchors.length - 1} more`
+                : `"${anchorResult.anchor.playlistTitle}"`;
+
+            console.log(`\n✅ Anchor found! Filling ${gapCount} gaps...\n`);
+
+            emitProgress(onProgress, {
+                type: "stage",
+                stage: "filling_gaps",
+                message: `Filling ${gapCount} gaps in ${anchorLabel}...`,
+            });
 
             const gapResult = await fillGaps(
-                anchorResult.anchor,
+                anchors,
                 syllabus.tableOfContents,
                 syllabus.title,
-                modifiers
+                modifiers,
+                {
+                    ...gapOptions,
+                    preferredChannels: Array.from(new Set(anchors.map(a => a.channelName)))
+                        .filter(name => name && name !== "Unknown"),
+                }
             );
 
             entries = gapResult.entries;
@@ -183,6 +331,14 @@ export async function buildPlaylistFromSyllabus(
                 playlistTitle: anchorResult.anchor.playlistTitle,
                 coverageScore: anchorResult.anchor.coverageScore,
             };
+            if (anchors.length > 1) {
+                anchorsInfo = anchors.map(a => ({
+                    playlistId: a.playlistId,
+                    channelName: a.channelName,
+                    playlistTitle: a.playlistTitle,
+                    coverageScore: a.coverageScore,
+                }));
+            }
 
             if (gapResult.gapsFailed.length > 0) {
                 console.warn(`⚠️ ${gapResult.gapsFailed.length} topics couldn't be filled:`, gapResult.gapsFailed);
@@ -190,20 +346,24 @@ export async function buildPlaylistFromSyllabus(
         } else {
             // Step 3b: No anchor — build from scratch
             console.log("\n📭 No anchor found. Building from scratch...\n");
+            emitBuildingFromScratch(syllabus, onProgress);
             const scratchResult = await buildFromScratch(
                 syllabus.tableOfContents,
                 syllabus.title,
-                modifiers
+                modifiers,
+                { ...gapOptions, preferredChannels: anchorResult.fallbackChannels }
             );
             entries = scratchResult.entries;
         }
     } else {
         // Skip anchor entirely
         console.log("\n⏩ Anchor search skipped. Building from scratch...\n");
+        emitBuildingFromScratch(syllabus, onProgress);
         const scratchResult = await buildFromScratch(
             syllabus.tableOfContents,
             syllabus.title,
-            modifiers
+            modifiers,
+            gapOptions
         );
         entries = scratchResult.entries;
     }
@@ -211,10 +371,24 @@ export async function buildPlaylistFromSyllabus(
     // ─────────────────────────────────────────────────────────
     // Step 4: Build final result
     // ─────────────────────────────────────────────────────────
+    emitProgress(onProgress, { type: "stage", stage: "finalizing", message: "Sequencing your playlist..." });
+
+    if (budgetPlan) {
+        const fitted = await fitToTimeBudget(
+            entries,
+            budgetPlan,
+            syllabus.tableOfContents,
+            options.topicMatcher || getTopicMatcher()
+        );
+        entries = fitted.entries;
+        timeBudget = fitted.report;
+    }
+
     const videoIds = entries.map(e => e.videoId);
     const totalDurationMinutes = Math.round(
         entries.reduce((sum: number, e: PlaylistEntry) => sum + e.durationSeconds, 0) / 60
     );
+    const enrichment = enricher.report();
 
     const result: PlaylistResult = {
         syllabusTitle: syllabus.title,
@@ -222,16 +396,29 @@ export async function buildPlaylistFromSyllabus(
         totalDurationMinutes,
         entries,
         watchUrl: toWatchURL(videoIds),
+        channelConsistency: channelConsistency(entries),
         anchor: anchorInfo,
+        anchors: anchorsInfo,
         preferences: prefs,
+        timeBudget,
+        enrichment: enrichment.apiCalls > 0 ? enrichment : undefined,
         generatedAt: new Date().toISOString(),
     };
 
     console.log("\n" + generateSummary(result));
+    emitProgress(onProgress, { type: "complete", result });
 
     return result;
 }
 
+function emitBuildingFromScratch(syllabus: SyllabusData, onProgress?: ProgressListener): void {
+    emitProgress(onProgress, {
+        type: "stage",
+        stage: "building_from_scratch",
+        message: `Searching ${syllabus.tableOfContents.length} topics...`,
+    });
+}
+
 // ═══════════════════════════════════════════════════════════════
 // ONE-SHOT MODE (Exam Prep)
 // ═══════════════════════════════════════════════════════════════
@@ -239,11 +426,25 @@ export async function buildPlaylistFromSyllabus(
 async function handleOneShotMode(
     syllabus: SyllabusData,
     prefs: UserPreferences,
-    modifiers: ReturnType<typeof resolvePreferences>
+    modifiers: ReturnType<typeof resolvePreferences>,
+    onProgress?: ProgressListener,
+    oneShotOptions: OneShotOptions = {}
 ): Promise<PlaylistResult> {
     console.log("🎯 ONE-SHOT MODE: Searching for comprehensive marathon videos...\n");
+    emitProgress(onProgress, {
+        type: "stage",
+        stage: "searching_one_shot",
+        message: "Searching for comprehensive one-shot videos...",
+    });
 
-    const entries = await searchOneShot(syllabus, modifiers);
+    let entries = await searchOneShot(syllabus, modifiers, oneShotOptions);
+    let timeBudget: TimeBudgetReport | undefined;
+
+    if (prefs.timeBudgetMinutes) {
+        const trimmed = trimToTimeBudget(entries, prefs.timeBudgetMinutes, syllabus.tableOfContents);
+        entries = trimmed.entries;
+        timeBudget = trimmed.report;
+    }
 
     const videoIds = entries.map(e => e.videoId);
     const totalDurationMinutes = Math.round(
@@ -256,11 +457,14 @@ async function handleOneShotMode(
         totalDurationMinutes,
         entries,
         watchUrl: toWatchURL(videoIds),
+        channelConsistency: channelConsistency(entries),
         preferences: prefs,
+        timeBudget,
         generatedAt: new Date().toISOString(),
     };
 
     console.log("\n" + generateSummary(result));
+    emitProgress(onProgress, { type: "complete", result });
 
     return result;
 }
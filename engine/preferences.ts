@@ -21,6 +21,10 @@ import {
 // ═══════════════════════════════════════════════════════════════
 
 export interface SearchModifiers {
+    /** Preferred language (keys the video vault) */
+    language: Language;
+    /** Learning mode (keys the video vault) */
+    learningMode: LearningMode;
     /** Suffix appended to all queries, e.g. "in Hindi" */
     languageSuffix: string;
     /** Experience level for the reranker, e.g. "intermediate" */
@@ -61,6 +65,8 @@ export function resolvePreferences(prefs: UserPreferences): SearchModifiers {
     }
 
     return {
+        language: prefs.language,
+        learningMode: prefs.learningMode,
         languageSuffix,
         experienceLevel,
         duration,
@@ -120,8 +126,9 @@ export function getDefaultPreferences(): UserPreferences {
  */
 export function validatePreferences(prefs: Partial<UserPreferences>): UserPreferences {
     const validStudentTypes: StudentType[] = ["high_school", "undergrad", "post_grad"];
-    const validLanguages: Language[] = ["english", "hindi"];
+    const validLanguages = Object.keys(LANGUAGE_SUFFIXES) as Language[];
     const validModes: LearningMode[] = ["from_scratch", "revision", "one_shot"];
+    const budget = Number(prefs.timeBudgetMinutes);
 
     return {
         studentType: validStudentTypes.includes(prefs.studentType as StudentType)
@@ -133,5 +140,6 @@ export function validatePreferences(prefs: Partial<UserPreferences>): UserPrefer
         learningMode: validModes.includes(prefs.learningMode as LearningMode)
             ? (prefs.learningMode as LearningMode)
             : "from_scratch",
+        ...(Number.isFinite(budget) && budget > 0 ? { timeBudgetMinutes: budget } : {}),
     };
 }
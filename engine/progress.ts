@@ -0,0 +1,25 @@
+/**
+ * 📡 Progress Reporting
+ *
+ * Tiny helper shared by every engine stage for emitting BuildProgressEvents.
+ * Listeners are UI/transport code (SSE streams, CLIs) — a broken listener
+ * must never take down a playlist build, so errors are swallowed here.
+ */
+
+import type { BuildProgressEvent, ProgressListener } from "../core/types.js";
+
+/**
+ * Emit a progress event to an optional listener.
+ */
+export function emitProgress(
+    listener: ProgressListener | undefined,
+    event: BuildProgressEvent
+): void {
+    if (!listener) return;
+
+    try {
+        listener(event);
+    } catch (error) {
+        console.warn(`⚠️ Progress listener failed on "${event.type}" event:`, error);
+    }
+}
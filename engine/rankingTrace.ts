@@ -0,0 +1,110 @@
+/**
+ * 🔎 Ranking Trace — "Why This Video?"
+ *
+ * With BuildOptions.traceRanking, every searched entry keeps the pool it
+ * was picked from (PlaylistEntry.rankingTrace): the top candidates with
+ * their density score and flags, how their length fits the learning
+ * mode, their Relevance Guard score, and the Gemini reranker's verdict.
+ * exportPlaylist.toRankingCSV flattens it for auditing.
+ *
+ * With BuildOptions.recordFeatures, every searched entry keeps the density
+ * rules it scored on (PlaylistEntry.rankingFeatures), so replace / keep
+ * feedback can be logged with them (core/rankingFeedback).
+ *
+ * Pure bookkeeping — zero API calls.
+ */
+
+import type { CandidateTrace, DurationFit, RankingFeatures, RankingTrace } from "../core/types.js";
+import type { VideoCandidate } from "../core/searchScraper.js";
+import type { RerankerResult } from "../core/geminiReranker.js";
+import { checkRelevance, extractMeaning } from "../core/queryIntelligence.js";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "../core/scoringProfiles.js";
+import type { SearchModifiers } from "./preferences.js";
+
+// ═══════════════════════════════════════════════════════════════
+// CONFIG
+// ═══════════════════════════════════════════════════════════════
+
+/** Candidates kept per trace */
+export const TRACE_CANDIDATES = 5;
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ═══════════════════════════════════════════════════════════════
+
+export interface RankingTraceInput {
+    topic: string;
+    /** Candidates, best first */
+    ranked: VideoCandidate[];
+    modifiers: SearchModifiers;
+    scoringProfile?: ScoringProfile;
+    /** videoIds competing as a chapter slice (their duration is the slice's) */
+    segmentIds?: Set<string>;
+    reranker?: RerankerResult;
+    fromVault?: boolean;
+    /** The entry's own video — appended when it ranked below the top candidates */
+    pickedId?: string;
+}
+
+/**
+ * Trace of the top TRACE_CANDIDATES of a ranked pool (plus the picked
+ * video, wherever it ranked).
+ */
+export function buildRankingTrace(input: RankingTraceInput): RankingTrace {
+    const subjects = extractMeaning(input.topic).subjects;
+    const top = input.ranked.slice(0, TRACE_CANDIDATES);
+    const picked = input.ranked.find(v => v.videoId === input.pickedId);
+    if (picked && !top.includes(picked)) top.push(picked);
+
+    return {
+        topic: input.topic,
+        scoringProfile: input.scoringProfile?.name || DEFAULT_SCORING_PROFILE,
+        fromVault: input.fromVault || false,
+        candidates: top.map((video): CandidateTrace => ({
+            videoId: video.videoId,
+            title: video.title,
+            channelName: video.author.name,
+            densityScore: video.densityScore || 0,
+            densityFlags: video.densityFlags || [],
+            durationSeconds: video.duration.seconds,
+            durationFit: input.segmentIds?.has(video.videoId)
+                ? "segment"
+                : durationFit(video.duration.seconds, input.modifiers),
+            relevanceScore: checkRelevance(video.title, video.description, subjects).score,
+        })),
+        ...(input.reranker ? {
+            reranker: {
+                winnerId: input.reranker.winnerId,
+                reasoning: input.reranker.reasoning,
+                fallbackUsed: input.reranker.fallbackUsed,
+            },
+        } : {}),
+    };
+}
+
+/**
+ * The density rules a picked video scored on, or undefined when it was
+ * never scored (e.g. a vault entry cached before features were recorded).
+ */
+export function buildRankingFeatures(
+    video: VideoCandidate,
+    scoringProfile?: ScoringProfile
+): RankingFeatures | undefined {
+    if (!video.densityFeatures) return undefined;
+
+    return {
+        scoringProfile: scoringProfile?.name || DEFAULT_SCORING_PROFILE,
+        densityScore: video.densityScore || 0,
+        features: video.densityFeatures,
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// INTERNAL
+// ═══════════════════════════════════════════════════════════════
+
+function durationFit(seconds: number, modifiers: SearchModifiers): DurationFit {
+    if (seconds < modifiers.duration.minSeconds) return "too_short";
+    if (seconds > modifiers.duration.maxSeconds) return "too_long";
+    return "fits";
+}
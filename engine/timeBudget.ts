@@ -0,0 +1,260 @@
+/**
+ * ⏱️ Time Budget — "I Have 6 Hours Before the Exam"
+ *
+ * Honours UserPreferences.timeBudgetMinutes across the whole playlist:
+ *   1. Plan    → weight every TOC topic by importance and split the budget
+ *                proportionally (planTimeBudget)
+ *   2. Pick    → gap fill prefers the best candidate that fits the topic's
+ *                share, so low-weight topics get shorter videos (pickWithinBudget)
+ *   3. Fit     → if the playlist still runs over: drop role videos (practice,
+ *                then worked examples), then merge or cut the least important
+ *                topics until it fits (fitToTimeBudget)
+ *
+ * IMPORTANCE: the fundamental concept counts double, and earlier topics
+ * outweigh later ones — the TOC is in first-principles order, so early
+ * topics are prerequisites for everything after them.
+ *
+ * Zero API calls except the TopicMatcher used to decide merges.
+ */
+
+import type {
+    PlaylistEntry,
+    SyllabusData,
+    TimeBudgetReport,
+    VideoRole,
+} from "../core/types.js";
+import { MATCH_THRESHOLD, type TopicMatcher } from "../core/topicMatcher.js";
+import { VIDEO_ROLE_ORDER } from "./videoRoles.js";
+import { entryKey } from "./chapterMapper.js";
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface TimeBudgetPlan {
+    budgetSeconds: number;
+    weights: number[];          // Importance by TOC position
+    allocations: number[];      // Seconds by TOC position
+}
+
+// ═══════════════════════════════════════════════════════════════
+// CONFIG
+// ═══════════════════════════════════════════════════════════════
+
+/** Extra weight for the syllabus' fundamental concept */
+const FUNDAMENTAL_BONUS = 1;
+
+/** Extra weight for the first topic, fading linearly to 0 for the last */
+const ORDER_BONUS = 0.5;
+
+/** A candidate "fits" if it's at most this much over its topic's share */
+const ALLOCATION_SLACK = 1.15;
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Weight each topic and split the budget across them.
+ */
+export function planTimeBudget(syllabus: SyllabusData, budgetMinutes: number): TimeBudgetPlan {
+    const toc = syllabus.tableOfContents;
+    const fundamental = normalize(syllabus.fundamentalConcept || "");
+
+    const weights = toc.map((topic, i) => {
+        const isFundamental = fundamental !== "" &&
+            (normalize(topic).includes(fundamental) || fundamental.includes(normalize(topic)));
+
+        return 1 +
+            (isFundamental ? FUNDAMENTAL_BONUS : 0) +
+            ORDER_BONUS * (1 - i / Math.max(toc.length, 1));
+    });
+
+    const budgetSeconds = Math.round(budgetMinutes * 60);
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0) || 1;
+
+    return {
+        budgetSeconds,
+        weights,
+        allocations: weights.map(w => Math.round((budgetSeconds * w) / totalWeight)),
+    };
+}
+
+/**
+ * Best unused candidate that fits the topic's share of the budget;
+ * the shortest unused one if none fit. Without an allocation, just the
+ * best unused candidate.
+ */
+export function pickWithinBudget(
+    candidates: PlaylistEntry[],
+    usedIds: Set<string>,       // entryKey()s already in the playlist
+    allocationSeconds?: number
+): PlaylistEntry | undefined {
+    const unused = candidates.filter(c => !usedIds.has(entryKey(c)));
+    if (allocationSeconds === undefined || unused.length === 0) return unused[0];
+
+    return unused.find(c => c.durationSeconds <= allocationSeconds * ALLOCATION_SLACK) ||
+        unused.reduce((shortest, c) => (c.durationSeconds < shortest.durationSeconds ? c : shortest));
+}
+
+/**
+ * Trim a finished playlist until it fits the budget. Role videos go
+ * first, then whole topics, least important first. A cut topic whose
+ * neighbouring video plausibly covers it (TopicMatcher) is merged into
+ * that entry instead of disappearing. At least one entry always remains.
+ */
+export async function fitToTimeBudget(
+    entries: PlaylistEntry[],
+    plan: TimeBudgetPlan,
+    tableOfContents: string[],
+    matcher: TopicMatcher
+): Promise<{ entries: PlaylistEntry[]; report: TimeBudgetReport }> {
+    let kept = entries.map(e => ({ ...e }));
+    const cutTopics: string[] = [];
+    let mergedTopics: string[] = [];
+
+    const weightOf = (entry: PlaylistEntry) => Math.max(
+        ...(entry.topicsCovered || [entry.topicMatched]).map(t => plan.weights[tableOfContents.indexOf(t)] ?? 1)
+    );
+    const overBudget = () => totalSeconds(kept) > plan.budgetSeconds;
+
+    // Step 1: role videos — practice before worked examples, least important topics first
+    const roleVideos = kept
+        .filter(e => e.role && e.role !== VIDEO_ROLE_ORDER[0])
+        .sort((a, b) => roleRank(b.role!) - roleRank(a.role!) || weightOf(a) - weightOf(b));
+
+    for (const video of roleVideos) {
+        if (!overBudget()) break;
+        kept = kept.filter(e => e !== video);
+    }
+
+    // Step 2: whole topics (and any role videos still attached), least important first
+    const mainEntries = kept
+        .filter(e => !e.role || e.role === VIDEO_ROLE_ORDER[0])
+        .sort((a, b) => weightOf(a) - weightOf(b) || b.position - a.position);
+
+    for (const entry of mainEntries) {
+        if (!overBudget() || kept.length <= 1) break;
+
+        const topics = entry.topicsCovered || [entry.topicMatched];
+        kept = kept.filter(e => e !== entry && !(e.role && topics.includes(e.topicMatched)));
+
+        const host = await findMergeHost(entry, topics, kept, matcher);
+        if (host) {
+            host.topicsCovered = orderByToc(
+                [...(host.topicsCovered || [host.topicMatched]), ...topics],
+                tableOfContents
+            );
+            mergedTopics.push(...topics);
+            console.log(`  ⏱️ Merged "${topics.join(" + ")}" into "${host.title}" to fit the time budget`);
+        } else {
+            // Topics merged into this entry earlier go with it
+            mergedTopics = mergedTopics.filter(t => !topics.includes(t));
+            cutTopics.push(...topics);
+            console.log(`  ⏱️ Cut "${topics.join(" + ")}" to fit the time budget`);
+        }
+    }
+
+    kept.forEach((e, i) => { e.position = i; });
+
+    return {
+        entries: kept,
+        report: {
+            budgetMinutes: Math.round(plan.budgetSeconds / 60),
+            usedMinutes: Math.round(totalSeconds(kept) / 60),
+            cutTopics: orderByToc(cutTopics, tableOfContents),
+            mergedTopics: orderByToc(mergedTopics, tableOfContents),
+            videosRemoved: entries.length - kept.length,
+        },
+    };
+}
+
+/**
+ * One-shot mode: keep the best-ranked videos that fit (always at least one).
+ * TOC topics only the dropped videos covered (their chapters) are reported as cut.
+ */
+export function trimToTimeBudget(
+    entries: PlaylistEntry[],
+    budgetMinutes: number,
+    tableOfContents: string[] = []
+): { entries: PlaylistEntry[]; report: TimeBudgetReport } {
+    const budgetSeconds = budgetMinutes * 60;
+    const kept: PlaylistEntry[] = [];
+
+    for (const entry of entries) {
+        if (kept.length > 0 && totalSeconds(kept) + entry.durationSeconds > budgetSeconds) continue;
+        kept.push(entry);
+    }
+
+    const stillCovered = new Set(kept.flatMap(e => tocTopicsOf(e, tableOfContents)));
+    const cutTopics = entries
+        .filter(e => !kept.includes(e))
+        .flatMap(e => tocTopicsOf(e, tableOfContents))
+        .filter(t => !stillCovered.has(t));
+
+    return {
+        entries: kept,
+        report: {
+            budgetMinutes: Math.round(budgetMinutes),
+            usedMinutes: Math.round(totalSeconds(kept) / 60),
+            cutTopics: orderByToc(cutTopics, tableOfContents),
+            mergedTopics: [],
+            videosRemoved: entries.length - kept.length,
+        },
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// INTERNAL
+// ═══════════════════════════════════════════════════════════════
+
+/** Previous or next main entry whose video covers the topics well enough */
+async function findMergeHost(
+    entry: PlaylistEntry,
+    topics: string[],
+    kept: PlaylistEntry[],
+    matcher: TopicMatcher
+): Promise<PlaylistEntry | null> {
+    const main = kept.filter(e => !e.role || e.role === VIDEO_ROLE_ORDER[0]);
+    const before = main.filter(e => e.position < entry.position).pop();
+    const after = main.find(e => e.position > entry.position);
+    const neighbours = [before, after].filter((e): e is PlaylistEntry => e !== undefined);
+    if (neighbours.length === 0) return null;
+
+    const similarity = await matcher.score(
+        topics,
+        neighbours.map(n => ({ id: n.videoId, title: n.title }))
+    );
+
+    // A host has to cover every topic being folded in
+    const scores = neighbours.map((_, col) => Math.min(...similarity.map(row => row[col])));
+    const best = scores.indexOf(Math.max(...scores));
+
+    return scores[best] >= MATCH_THRESHOLD ? neighbours[best] : null;
+}
+
+function roleRank(role: VideoRole): number {
+    return VIDEO_ROLE_ORDER.indexOf(role);
+}
+
+function totalSeconds(entries: PlaylistEntry[]): number {
+    return entries.reduce((sum, e) => sum + e.durationSeconds, 0);
+}
+
+/** TOC topics an entry covers: merged topics, located chapters, or the one it matched */
+function tocTopicsOf(entry: PlaylistEntry, tableOfContents: string[]): string[] {
+    return [
+        entry.topicMatched,
+        ...(entry.topicsCovered || []),
+        ...(entry.topicTimestamps || []).map(t => t.topic),
+    ].filter(t => tableOfContents.includes(t));
+}
+
+function orderByToc(topics: string[], tableOfContents: string[]): string[] {
+    return Array.from(new Set(topics))
+        .sort((a, b) => tableOfContents.indexOf(a) - tableOfContents.indexOf(b));
+}
+
+function normalize(text: string): string {
+    return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,191 @@
+/**
+ * 📝 Transcript Scoring — "Lecture 9" Is Actually About Dijkstra
+ *
+ * Titles and descriptions of numbered lectures say nothing about their
+ * content. After density ranking, we fetch captions for the top few
+ * candidates (core/transcriptProvider) and check how well the spoken
+ * text covers the topic — the Relevance Guard's subject matching, run
+ * on the transcript and counting repeated mentions:
+ *
+ *   - on-topic transcript  → densityScore + weighted relevance, "📝 Transcript" flag
+ *   - off-topic transcript → TRANSCRIPT_OFF_TOPIC_PENALTY
+ *   - no captions          → unchanged
+ *
+ * The excerpt around the first mention becomes VideoCandidate.transcriptSnippet,
+ * which the Gemini reranker reads and the video vault stores.
+ *
+ * For segment candidates (a chapter slice of a long lecture) only the
+ * captions inside the slice count.
+ *
+ * API CALLS: up to TRANSCRIPT_CANDIDATES transcript fetches per topic, zero AI.
+ */
+
+import { CAPTION_LANGUAGES, type Language } from "../core/types.js";
+import type { VideoCandidate } from "../core/searchScraper.js";
+import { extractMeaning, type RelevanceResult } from "../core/queryIntelligence.js";
+import type { TranscriptProvider } from "../core/transcriptProvider.js";
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface TranscriptScoringOptions {
+    /** Where captions come from */
+    provider: TranscriptProvider;
+    /** Preferred caption language */
+    language: Language;
+    /** Chapter slices by videoId — only captions inside the slice are scored */
+    segments?: Map<string, { startSeconds: number; endSeconds: number }>;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// CONFIG
+// ═══════════════════════════════════════════════════════════════
+
+/** Candidates (best density first) whose transcripts are fetched per topic */
+const TRANSCRIPT_CANDIDATES = 5;
+
+/** Share of the transcript relevance score (0-100) added to densityScore */
+const TRANSCRIPT_WEIGHT = 1;
+
+/** Captions that barely mention the topic */
+const TRANSCRIPT_OFF_TOPIC_PENALTY = -50;
+
+/** Mentions of a subject that count as "covered in depth" */
+const REPEATED_MENTIONS = 3;
+
+/** Characters of transcript kept as the snippet */
+const SNIPPET_LENGTH = 400;
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Re-score density-ranked candidates with their transcripts and re-sort.
+ * Candidates beyond the first TRANSCRIPT_CANDIDATES keep their scores.
+ */
+export async function scoreByTranscript(
+    ranked: VideoCandidate[],
+    topic: string,
+    options: TranscriptScoringOptions
+): Promise<VideoCandidate[]> {
+    if (options.provider.name === "none" || ranked.length === 0) return ranked;
+
+    const subjects = extractMeaning(topic).subjects;
+    if (subjects.length === 0) return ranked;
+
+    const languages = CAPTION_LANGUAGES[options.language];
+
+    const scored = await Promise.all(ranked.slice(0, TRANSCRIPT_CANDIDATES).map(async (video) => {
+        const transcript = await options.provider.fetchTranscript(video.videoId, languages);
+        if (!transcript) return video;
+
+        const segment = options.segments?.get(video.videoId);
+        const text = segment
+            ? transcript.segments
+                .filter(s => s.startSeconds >= segment.startSeconds && s.startSeconds < segment.endSeconds)
+                .map(s => s.text)
+                .join(" ")
+            : transcript.text;
+
+        const relevance = checkTranscriptRelevance(text, subjects);
+        const adjustment = relevance.isRelevant
+            ? Math.round(relevance.score * TRANSCRIPT_WEIGHT)
+            : TRANSCRIPT_OFF_TOPIC_PENALTY;
+
+        console.log(`  📝 "${video.title}": ${relevance.reason}`);
+
+        return {
+            ...video,
+            densityScore: (video.densityScore || 0) + adjustment,
+            densityFlags: [
+                ...(video.densityFlags || []),
+                relevance.isRelevant
+                    ? `📝 Transcript (+${adjustment})`
+                    : `📝 Transcript off-topic (${adjustment})`,
+            ],
+            transcriptSnippet: transcriptSnippet(text, subjects),
+        };
+    }));
+
+    return [...scored, ...ranked.slice(TRANSCRIPT_CANDIDATES)]
+        .sort((a, b) => (b.densityScore || 0) - (a.densityScore || 0));
+}
+
+/**
+ * Relevance Guard for transcripts: like checkRelevance, but a subject
+ * the speaker keeps returning to outweighs one mentioned in passing.
+ */
+export function checkTranscriptRelevance(
+    transcript: string,
+    subjects: string[],
+    threshold: number = 30
+): RelevanceResult {
+    if (subjects.length === 0) {
+        return { isRelevant: true, score: 50, matchedSubjects: [], reason: "No subjects to validate against" };
+    }
+
+    const text = transcript.toLowerCase();
+    const matchedSubjects: string[] = [];
+    let score = 0;
+
+    for (const subject of subjects) {
+        const mentions = countMentions(text, subject);
+
+        // Covered in depth
+        if (mentions >= REPEATED_MENTIONS) {
+            score += 30;
+            matchedSubjects.push(subject);
+        }
+        // Mentioned
+        else if (mentions > 0) {
+            score += 15;
+            matchedSubjects.push(subject);
+        }
+        // Partial/stem match (e.g., "sorting" matches "sort")
+        else if (text.includes(subject.slice(0, -1))) {
+            score += 10;
+            matchedSubjects.push(`~${subject}`);
+        }
+    }
+
+    score = Math.min(100, score);
+
+    const matchRatio = matchedSubjects.length / subjects.length;
+    if (matchRatio >= 0.5) score = Math.min(100, score + 15);
+
+    const isRelevant = score >= threshold;
+
+    return {
+        isRelevant,
+        score,
+        matchedSubjects,
+        reason: isRelevant
+            ? `Transcript covers ${matchedSubjects.length}/${subjects.length} subjects (score: ${score})`
+            : `Transcript off-topic: ${matchedSubjects.length}/${subjects.length} subjects (score: ${score} < ${threshold})`,
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// INTERNAL
+// ═══════════════════════════════════════════════════════════════
+
+function countMentions(text: string, subject: string): number {
+    let count = 0;
+    for (let i = text.indexOf(subject); i >= 0; i = text.indexOf(subject, i + subject.length)) {
+        count++;
+    }
+    return count;
+}
+
+/** The transcript around the first subject mention (or its opening) */
+function transcriptSnippet(text: string, subjects: string[]): string {
+    const lower = text.toLowerCase();
+    const mentions = subjects.map(s => lower.indexOf(s)).filter(i => i >= 0);
+    const first = mentions.length > 0 ? Math.min(...mentions) : 0;
+
+    // Start a little before the mention, on a word boundary
+    const from = Math.max(0, lower.lastIndexOf(" ", Math.max(0, first - 80)) + 1);
+    return text.slice(from, from + SNIPPET_LENGTH).trim();
+}
@@ -0,0 +1,218 @@
+/**
+ * 🗄️ Vault Cache — The Engine's View of the Video Vault
+ *
+ * Topic searches, anchor hunts and one-shot searches all consult the
+ * video vault (core/videoVault) before hitting the SearchProvider, and
+ * store their winners (with density scores) afterwards.
+ *
+ * KEYS: kind | subject | detail | language | learning mode, normalized
+ * (lowercase, collapsed whitespace), plus the experience level.
+ *   - topic    → detail = TOC topic, one winning video. Also matched
+ *                semantically: a similar topic in the same subject,
+ *                language and mode reuses the winner.
+ *   - anchor   → detail = whole TOC (+ combine flag), the chosen playlist(s)
+ *   - one_shot → detail = "#<rank>", one entry per returned video
+ *
+ * A vault failure is never fatal — it only costs us the cache.
+ */
+
+import type { AnchorPlaylist } from "../core/types.js";
+import type { VideoCandidate } from "../core/searchScraper.js";
+import { formatTimestamp } from "../core/youtubeClient.js";
+import { withChapters } from "../core/chapterParser.js";
+import {
+    checkVideoVault,
+    storeInVideoVault,
+    type VideoVaultEntry,
+    type VaultLookupOptions,
+} from "../core/videoVault.js";
+import type { SearchModifiers } from "./preferences.js";
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export type VaultCacheKind = "topic" | "anchor" | "one_shot";
+
+export interface VaultKey {
+    /** Exact-match query */
+    query: string;
+    /** Nearest-neighbour lookup (topics only) */
+    semantic?: VaultLookupOptions;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// CONFIG
+// ═══════════════════════════════════════════════════════════════
+
+/** The vault is keyed by user role too; the engine only builds for students */
+const VAULT_ROLE = "Student";
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Normalized vault query for one cached lookup.
+ */
+export function vaultQuery(
+    kind: VaultCacheKind,
+    subject: string,
+    detail: string,
+    modifiers: SearchModifiers
+): string {
+    return [kind, subject, detail, modifiers.language, modifiers.learningMode]
+        .map(normalizePart)
+        .join("|");
+}
+
+/**
+ * Vault key for one cached lookup — exact query, plus a semantic lookup
+ * (scoped to kind, subject, language and mode) for topics. A variant
+ * (e.g. a video role) keeps otherwise identical keys apart.
+ */
+export function vaultKey(
+    kind: VaultCacheKind,
+    subject: string,
+    detail: string,
+    modifiers: SearchModifiers,
+    variant?: string
+): VaultKey {
+    const suffix = variant ? `|${normalizePart(variant)}` : "";
+    const query = vaultQuery(kind, subject, detail, modifiers) + suffix;
+    if (kind !== "topic") return { query };
+
+    return {
+        query,
+        semantic: {
+            semanticText: detail,
+            semanticScope: vaultQuery(kind, subject, "", modifiers) + suffix,
+        },
+    };
+}
+
+/**
+ * Cached winning video for a key, or null on a miss.
+ */
+export async function lookupCachedVideo(
+    key: VaultKey,
+    modifiers: SearchModifiers
+): Promise<VideoCandidate | null> {
+    const entry = await lookup(key, modifiers);
+    return entry && !entry.metadata.anchors ? toVideoCandidate(entry) : null;
+}
+
+/**
+ * Store a winning video (with its density score) under a key.
+ */
+export async function cacheVideo(
+    key: VaultKey,
+    modifiers: SearchModifiers,
+    video: VideoCandidate
+): Promise<void> {
+    await store(key, modifiers, {
+        video_id: video.videoId,
+        title: video.title,
+        description: video.description,
+        transcript_snippet: video.transcriptSnippet || "",
+        density_score: video.densityScore ?? 0,
+        density_flags: video.densityFlags || [],
+        metadata: {
+            duration_seconds: video.duration.seconds,
+            author: video.author.name,
+            views: video.views,
+            fetched_at: new Date().toISOString(),
+            query_used: key.query,
+            user_role: VAULT_ROLE,
+            experience_level: modifiers.experienceLevel,
+            ...(video.densityFeatures ? { density_features: video.densityFeatures } : {}),
+            ...(video.defaultAudioLanguage ? { default_audio_language: video.defaultAudioLanguage } : {}),
+        },
+    });
+}
+
+/**
+ * Cached anchor selection (primary first), or null on a miss.
+ */
+export async function lookupCachedAnchors(
+    key: VaultKey,
+    modifiers: SearchModifiers
+): Promise<AnchorPlaylist[] | null> {
+    const entry = await lookup(key, modifiers);
+    return entry?.metadata.anchors?.length ? entry.metadata.anchors : null;
+}
+
+/**
+ * Store an anchor selection. The primary playlist stands in as the "video".
+ */
+export async function cacheAnchors(
+    key: VaultKey,
+    modifiers: SearchModifiers,
+    anchors: AnchorPlaylist[]
+): Promise<void> {
+    const primary = anchors[0];
+    if (!primary) return;
+
+    await store(key, modifiers, {
+        video_id: primary.playlistId,
+        title: primary.playlistTitle,
+        description: "",
+        transcript_snippet: "",
+        density_score: primary.coverageScore,
+        density_flags: [],
+        metadata: {
+            duration_seconds: primary.videos.reduce((sum, v) => sum + v.durationSeconds, 0),
+            author: primary.channelName,
+            views: 0,
+            fetched_at: new Date().toISOString(),
+            query_used: key.query,
+            user_role: VAULT_ROLE,
+            experience_level: modifiers.experienceLevel,
+            anchors,
+        },
+    });
+}
+
+// ═══════════════════════════════════════════════════════════════
+// INTERNAL
+// ═══════════════════════════════════════════════════════════════
+
+function normalizePart(part: string): string {
+    return part.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+async function lookup(key: VaultKey, modifiers: SearchModifiers): Promise<VideoVaultEntry | null> {
+    try {
+        const result = await checkVideoVault(key.query, VAULT_ROLE, modifiers.experienceLevel, key.semantic);
+        return result.found && result.entry ? result.entry : null;
+    } catch (error) {
+        console.warn(`⚠️ Video vault lookup failed for "${key.query}":`, error);
+        return null;
+    }
+}
+
+async function store(key: VaultKey, modifiers: SearchModifiers, entry: VideoVaultEntry): Promise<void> {
+    try {
+        await storeInVideoVault(entry, key.query, VAULT_ROLE, modifiers.experienceLevel, key.semantic);
+    } catch (error) {
+        console.warn(`⚠️ Video vault store failed for "${key.query}":`, error);
+    }
+}
+
+function toVideoCandidate(entry: VideoVaultEntry): VideoCandidate {
+    const seconds = entry.metadata.duration_seconds;
+
+    return withChapters({
+        videoId: entry.video_id,
+        title: entry.title,
+        description: entry.description,
+        duration: { seconds, timestamp: formatTimestamp(seconds) },
+        views: entry.metadata.views,
+        author: { name: entry.metadata.author },
+        densityScore: entry.density_score,
+        densityFlags: entry.density_flags,
+        densityFeatures: entry.metadata.density_features,
+        defaultAudioLanguage: entry.metadata.default_audio_language,
+        transcriptSnippet: entry.transcript_snippet || undefined,
+    });
+}
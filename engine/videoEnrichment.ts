@@ -0,0 +1,152 @@
+/**
+ * ✨ Video Enrichment — Tags, Categories and Likes for Ranking
+ *
+ * Scraped search results only know title, description, duration and
+ * views. The YouTube Data API's videos.list adds the upload category,
+ * official topics, tags and like/comment counts — which
+ * calculateDensityScore and the Gemini reranker use — for 1 quota unit
+ * per 50 videos.
+ *
+ * BATCHING: one VideoEnricher serves a whole build. Topics are searched
+ * in parallel, so lookups that arrive within BATCH_WINDOW_MS of each
+ * other share one videos.list call (up to MAX_BATCH_SIZE ids), and a
+ * video is never looked up twice — re-searches and role searches reuse
+ * what was fetched.
+ *
+ * Enrichment goes through getEnrichmentProvider() (the YouTube Data API
+ * when a key is set); without one, candidates are ranked as scraped.
+ */
+
+import type { EnrichmentReport } from "../core/types.js";
+import type { VideoCandidate } from "../core/searchScraper.js";
+import type { SearchProvider, VideoDetails } from "../core/searchProvider.js";
+import { withChapters } from "../core/chapterParser.js";
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface VideoEnricher {
+    /** Candidates with API metadata merged in (same order; unknown videos unchanged) */
+    enrich(videos: VideoCandidate[]): Promise<VideoCandidate[]>;
+    /** API usage so far */
+    report(): EnrichmentReport;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// CONFIG
+// ═══════════════════════════════════════════════════════════════
+
+/** videos.list accepts at most 50 ids per call */
+const MAX_BATCH_SIZE = 50;
+
+/** Quota units per videos.list call */
+const VIDEOS_LIST_UNITS = 1;
+
+/** How long a lookup waits for other topics' lookups to share its call */
+const BATCH_WINDOW_MS = 25;
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Create an enricher backed by a provider's getVideoDetails.
+ * A null provider never enriches (and never spends quota).
+ */
+export function createVideoEnricher(provider: SearchProvider | null): VideoEnricher {
+    const lookups = new Map<string, Promise<VideoDetails | undefined>>();
+    let queue: { videoId: string; resolve: (detail: VideoDetails | undefined) => void }[] = [];
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const enrichedIds = new Set<string>();
+    const usage = { apiCalls: 0, quotaUnits: 0 };
+
+    async function flush(): Promise<void> {
+        if (timer) clearTimeout(timer);
+        timer = null;
+
+        const batch = queue;
+        queue = [];
+
+        for (let i = 0; i < batch.length; i += MAX_BATCH_SIZE) {
+            const chunk = batch.slice(i, i + MAX_BATCH_SIZE);
+            let details = new Map<string, VideoDetails>();
+
+            try {
+                usage.apiCalls++;
+                usage.quotaUnits += VIDEOS_LIST_UNITS;
+                details = await provider!.getVideoDetails(chunk.map(c => c.videoId));
+            } catch (error) {
+                console.warn(`⚠️ Enrichment failed for ${chunk.length} videos:`, error);
+            }
+
+            console.log(`  ✨ Enrichment: ${details.size}/${chunk.length} videos (1 videos.list call)`);
+            chunk.forEach(c => c.resolve(details.get(c.videoId)));
+        }
+    }
+
+    function lookup(videoId: string): Promise<VideoDetails | undefined> {
+        let pending = lookups.get(videoId);
+
+        if (!pending) {
+            pending = new Promise(resolve => {
+                queue.push({ videoId, resolve });
+                if (queue.length >= MAX_BATCH_SIZE) void flush();
+                else timer ??= setTimeout(flush, BATCH_WINDOW_MS);
+            });
+            lookups.set(videoId, pending);
+        }
+
+        return pending;
+    }
+
+    return {
+        async enrich(videos: VideoCandidate[]): Promise<VideoCandidate[]> {
+            if (!provider) return videos;
+
+            return Promise.all(videos.map(async (video) => {
+                // Already enriched (e.g. youtube-api search results)
+                if (video.category !== undefined) return video;
+
+                const detail = await lookup(video.videoId);
+                if (!detail) return video;
+
+                enrichedIds.add(video.videoId);
+                return mergeDetails(video, detail);
+            }));
+        },
+
+        report(): EnrichmentReport {
+            return { videosEnriched: enrichedIds.size, ...usage };
+        },
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// INTERNAL
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * API metadata on top of the search result. Title and duration stay as
+ * searched; the API's description is the full one (search results are
+ * truncated), so chapters are parsed again from it.
+ */
+function mergeDetails(video: VideoCandidate, detail: VideoDetails): VideoCandidate {
+    const description = (detail.description?.length || 0) > video.description.length
+        ? detail.description!
+        : video.description;
+
+    return withChapters({
+        ...video,
+        description,
+        views: detail.views || video.views,
+        thumbnail: video.thumbnail || detail.thumbnail,
+        tags: detail.tags,
+        category: detail.category,
+        officialTopics: detail.officialTopics,
+        channelId: detail.channelId,
+        likeCount: detail.likeCount,
+        commentCount: detail.commentCount,
+        defaultAudioLanguage: detail.defaultAudioLanguage,
+    });
+}
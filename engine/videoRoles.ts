@@ -0,0 +1,101 @@
+/**
+ * 🎚️ Video Roles — Several Videos per Topic
+ *
+ * With BuildOptions.videosPerTopic > 1 every TOC topic gets a short run of
+ * videos instead of one: concept → worked example → practice problems.
+ * Each role has its own search strategy:
+ *   - concept        → the standard topic search (query intelligence)
+ *   - worked_example → generateSearchMatrix "implementation" query
+ *   - practice       → generateSearchMatrix "troubleshooting" query
+ * plus a few role keywords so results lean towards that kind of video.
+ *
+ * Zero API calls — pure query building.
+ */
+
+import type { VideoRole } from "../core/types.js";
+import { analyzeQuery } from "../core/queryIntelligence.js";
+import { generateSearchMatrix, type SearchQuery } from "../core/searchScraper.js";
+import type { SearchModifiers } from "./preferences.js";
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface RoleQueries {
+    primary: string;
+    fallback: string;       // Simpler query when the primary finds nothing
+}
+
+interface RoleStrategy {
+    matrixType?: SearchQuery["type"];   // Unset → standard topic search
+    keywords: string;
+    label: string;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// CONFIG
+// ═══════════════════════════════════════════════════════════════
+
+/** Roles in the order they're added to a topic */
+export const VIDEO_ROLE_ORDER: VideoRole[] = ["concept", "worked_example", "practice"];
+
+const ROLE_STRATEGIES: Record<VideoRole, RoleStrategy> = {
+    concept: { keywords: "", label: "Concept" },
+    worked_example: { matrixType: "implementation", keywords: "worked example solved", label: "Worked example" },
+    practice: { matrixType: "troubleshooting", keywords: "practice problems with solutions", label: "Practice problems" },
+};
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Roles for a videos-per-topic setting (clamped to 1..3).
+ */
+export function resolveVideoRoles(videosPerTopic: number = 1): VideoRole[] {
+    const count = Math.min(Math.max(Math.floor(videosPerTopic) || 1, 1), VIDEO_ROLE_ORDER.length);
+    return VIDEO_ROLE_ORDER.slice(0, count);
+}
+
+/**
+ * Search queries for one topic + role.
+ */
+export function buildRoleQueries(
+    topic: string,
+    subject: string,
+    modifiers: SearchModifiers,
+    role: VideoRole = "concept"
+): RoleQueries {
+    const strategy = ROLE_STRATEGIES[role];
+
+    if (!strategy.matrixType) {
+        const { smartQuery } = analyzeQuery(`${subject} ${topic}`);
+        return {
+            primary: joinQuery(smartQuery.primary, modifiers.languageSuffix),
+            fallback: joinQuery(topic, modifiers.languageSuffix),
+        };
+    }
+
+    const matrix = generateSearchMatrix(`${subject} ${topic}`, "Student", modifiers.experienceLevel);
+    const matrixQuery = matrix.find(q => q.type === strategy.matrixType)!.query;
+
+    return {
+        primary: joinQuery(matrixQuery, strategy.keywords, modifiers.languageSuffix),
+        fallback: joinQuery(topic, strategy.keywords, modifiers.languageSuffix),
+    };
+}
+
+/**
+ * Human-readable role name, e.g. "Worked example".
+ */
+export function roleLabel(role: VideoRole): string {
+    return ROLE_STRATEGIES[role].label;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// INTERNAL
+// ═══════════════════════════════════════════════════════════════
+
+function joinQuery(...parts: string[]): string {
+    return parts.filter(Boolean).join(" ").replace(/\s+/g, " ").trim();
+}
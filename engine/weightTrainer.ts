@@ -0,0 +1,205 @@
+/**
+ * 🎓 Weight Trainer — Learning Density Weights From Replace / Keep
+ *
+ * Refits a scoring profile's weights (core/scoringProfiles) to logged
+ * feedback (core/rankingFeedback). The density score is already a linear
+ * model — a sum of fired rules' weights — so training is a logistic
+ * regression of keep (1) vs replace (0) over those rules:
+ *
+ *   P(keep) = σ((Σ weight × fired + bias) / POINTS_PER_LOGIT)
+ *
+ * Weights stay in score points. An L2 pull towards the hand-tuned weights
+ * keeps rules with little feedback where they were, so a handful of
+ * replaces can't flip a signal.
+ *
+ * Offline only — run via scripts/weights.ts. Zero API calls.
+ */
+
+import type { RankingFeedbackEvent } from "../core/rankingFeedback.js";
+import {
+    WEIGHT_KEYS,
+    getScoringProfile,
+    listScoringProfiles,
+    signalFeature,
+    type LearnedProfileWeights,
+    type LearnedWeightsFile,
+    type ScoringProfile,
+    type ScoringWeights,
+} from "../core/scoringProfiles.js";
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface TrainOptions {
+    /** Version of the weights file being replaced (the new one is +1) */
+    previousVersion?: number;
+    /** Profiles with fewer events are left untrained (default MIN_SAMPLES) */
+    minSamples?: number;
+    /** Gradient descent passes (default EPOCHS) */
+    epochs?: number;
+}
+
+export interface ProfileTrainingReport {
+    profile: string;
+    samples: number;
+    trained: boolean;
+    logLossBefore: number;      // With the profile's current weights
+    logLossAfter: number;
+}
+
+export interface TrainingResult {
+    weights: LearnedWeightsFile;
+    reports: ProfileTrainingReport[];
+}
+
+// ═══════════════════════════════════════════════════════════════
+// CONFIG
+// ═══════════════════════════════════════════════════════════════
+
+/** Score points that move the keep odds by a factor of e */
+const POINTS_PER_LOGIT = 25;
+
+/** Pull towards the hand-tuned weights (in logit units) */
+const PRIOR_STRENGTH = 0.05;
+
+const LEARNING_RATE = 0.5;
+const EPOCHS = 500;
+const MIN_SAMPLES = 20;
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Fit every known profile that has enough feedback. Events logged under
+ * an unknown profile are ignored.
+ */
+export function trainWeights(events: RankingFeedbackEvent[], options: TrainOptions = {}): TrainingResult {
+    const minSamples = options.minSamples ?? MIN_SAMPLES;
+    const known = new Set(listScoringProfiles().map(p => p.name));
+    const byProfile = new Map<string, RankingFeedbackEvent[]>();
+
+    for (const event of events) {
+        if (!known.has(event.scoringProfile)) continue;
+        const list = byProfile.get(event.scoringProfile) || [];
+        list.push(event);
+        byProfile.set(event.scoringProfile, list);
+    }
+
+    const profiles: Record<string, LearnedProfileWeights> = {};
+    const reports: ProfileTrainingReport[] = [];
+
+    for (const [name, profileEvents] of byProfile) {
+        const { learned, report } = trainProfile(getScoringProfile(name), profileEvents, options.epochs ?? EPOCHS);
+        const trained = profileEvents.length >= minSamples;
+
+        reports.push({ ...report, trained });
+        if (trained) profiles[name] = learned;
+    }
+
+    return {
+        weights: {
+            version: (options.previousVersion ?? 0) + 1,
+            trainedAt: new Date().toISOString(),
+            profiles,
+        },
+        reports,
+    };
+}
+
+/**
+ * Fit one profile's weights to its feedback events.
+ */
+export function trainProfile(
+    profile: ScoringProfile,
+    events: RankingFeedbackEvent[],
+    epochs: number = EPOCHS
+): { learned: LearnedProfileWeights; report: Omit<ProfileTrainingReport, "trained"> } {
+    // Parameters in logit units, starting from (and pulled towards) the profile's weights
+    const featureIds = [
+        ...WEIGHT_KEYS,
+        ...profile.qualitySignals.map(s => signalFeature(s.flag)),
+    ];
+    const prior = featureIds.map(id => initialWeight(profile, id) / POINTS_PER_LOGIT);
+    const params = [...prior];
+
+    const samples = events.map(e => ({
+        x: featureIds.map(id => (e.features.includes(id) ? 1 : 0)),
+        y: e.action === "keep" ? 1 : 0,
+    }));
+    const keeps = samples.filter(s => s.y === 1).length;
+
+    // The bias starts at the overall keep rate, so "before" only measures the weights
+    let bias = logit((keeps + 1) / (samples.length + 2));
+    const logLossBefore = logLoss(samples, params, bias);
+
+    for (let epoch = 0; epoch < epochs; epoch++) {
+        const grad = new Array(params.length).fill(0);
+        let biasGrad = 0;
+
+        for (const { x, y } of samples) {
+            const error = sigmoid(dot(params, x) + bias) - y;
+            for (let i = 0; i < x.length; i++) grad[i] += error * x[i];
+            biasGrad += error;
+        }
+
+        for (let i = 0; i < params.length; i++) {
+            params[i] -= LEARNING_RATE * (grad[i] / samples.length + 2 * PRIOR_STRENGTH * (params[i] - prior[i]));
+        }
+        bias -= LEARNING_RATE * (biasGrad / samples.length);
+    }
+
+    const points = params.map(p => Math.round(p * POINTS_PER_LOGIT));
+    const weights: Partial<ScoringWeights> = {};
+    const qualitySignals: Record<string, number> = {};
+
+    for (const [i, id] of featureIds.entries()) {
+        if (i < WEIGHT_KEYS.length) {
+            weights[id as keyof ScoringWeights] = points[i];
+        } else {
+            qualitySignals[profile.qualitySignals[i - WEIGHT_KEYS.length].flag] = points[i];
+        }
+    }
+
+    return {
+        learned: { samples: samples.length, keeps, replaces: samples.length - keeps, weights, qualitySignals },
+        report: {
+            profile: profile.name,
+            samples: samples.length,
+            logLossBefore,
+            logLossAfter: logLoss(samples, params, bias),
+        },
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// INTERNAL
+// ═══════════════════════════════════════════════════════════════
+
+function initialWeight(profile: ScoringProfile, featureId: string): number {
+    const key = featureId as keyof ScoringWeights;
+    if (WEIGHT_KEYS.includes(key)) return profile.weights[key];
+    return profile.qualitySignals.find(s => signalFeature(s.flag) === featureId)?.weight ?? 0;
+}
+
+function logLoss(samples: { x: number[]; y: number }[], params: number[], bias: number): number {
+    if (samples.length === 0) return 0;
+    const total = samples.reduce((sum, { x, y }) => {
+        const p = Math.min(Math.max(sigmoid(dot(params, x) + bias), 1e-9), 1 - 1e-9);
+        return sum - (y * Math.log(p) + (1 - y) * Math.log(1 - p));
+    }, 0);
+    return total / samples.length;
+}
+
+function dot(a: number[], b: number[]): number {
+    return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+function sigmoid(z: number): number {
+    return 1 / (1 + Math.exp(-z));
+}
+
+function logit(p: number): number {
+    return Math.log(p / (1 - p));
+}
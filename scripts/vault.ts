@@ -0,0 +1,84 @@
+/**
+ * 🗃️ Video Vault CLI
+ *
+ * Inspect and clean up the on-disk video vault (core/vaultStore), and
+ * manage the Supabase vault schema (core/vaultSchema).
+ * Uses the same env as the app: VIDEO_VAULT_PATH, VIDEO_VAULT_TTL_HOURS,
+ * VIDEO_VAULT_MAX_ENTRIES, SUPABASE_URL, SUPABASE_KEY.
+ *
+ * Run:
+ *   npx tsx scripts/vault.ts stats                # entry counts, age, file size
+ *   npx tsx scripts/vault.ts prune                # drop expired / over-limit entries, compact
+ *   npx tsx scripts/vault.ts stats --path <file>  # any vault file
+ *   npx tsx scripts/vault.ts schema               # is the Supabase schema up to date?
+ *   npx tsx scripts/vault.ts schema --local <dir> # same, for a local PGlite database
+ *   npx tsx scripts/vault.ts migrate --local <dir> # apply supabase/migrations to a local PGlite database
+ */
+
+import { createVaultStore } from "../core/vaultStore.js";
+import {
+    checkSupabaseVaultSchema,
+    checkVaultSchemaSql,
+    formatVaultSchemaStatus,
+    migrateVault,
+    openLocalVaultDatabase,
+} from "../core/vaultSchema.js";
+
+const args = process.argv.slice(2);
+const command = args[0];
+const pathIndex = args.indexOf("--path");
+const localIndex = args.indexOf("--local");
+const localDir = localIndex >= 0 ? args[localIndex + 1] : undefined;
+
+if (pathIndex >= 0 && args[pathIndex + 1]) {
+    process.env.VIDEO_VAULT_PATH = args[pathIndex + 1];
+}
+
+switch (command) {
+    case "stats": {
+        const stats = createVaultStore("jsonl").stats();
+        console.log(`\n🗃️ Video Vault (${stats.path})`);
+        console.log(`  📦 Entries:  ${stats.entries} (${stats.expired} expired)`);
+        console.log(`  📄 File:     ${stats.fileLines} lines, ${((stats.fileBytes || 0) / 1024).toFixed(1)} KB`);
+        console.log(`  🕰️  Oldest:   ${stats.oldest || "—"}`);
+        console.log(`  🆕 Newest:   ${stats.newest || "—"}\n`);
+        break;
+    }
+    case "prune": {
+        const store = createVaultStore("jsonl");
+        const { removed, kept } = store.prune();
+        console.log(`\n🧹 Pruned ${removed} entries, kept ${kept} (${store.stats().path})\n`);
+        break;
+    }
+    case "schema": {
+        let status;
+        if (localDir) {
+            const db = await openLocalVaultDatabase(localDir);
+            status = await checkVaultSchemaSql(db);
+            await db.close();
+        } else if (process.env.SUPABASE_URL && process.env.SUPABASE_KEY) {
+            status = await checkSupabaseVaultSchema();
+        } else {
+            console.error("❌ Set SUPABASE_URL + SUPABASE_KEY, or pass --local <dir>");
+            process.exit(1);
+        }
+        console.log(`\n${formatVaultSchemaStatus(status)}\n`);
+        if (!status.ok) process.exit(1);
+        break;
+    }
+    case "migrate": {
+        if (!localDir) {
+            console.error("❌ migrate only runs against a local database (--local <dir>).");
+            console.error("   For Supabase: supabase db push, or paste supabase/migrations/*.sql into the SQL editor.");
+            process.exit(1);
+        }
+        const db = await openLocalVaultDatabase(localDir);
+        const applied = await migrateVault(db);
+        console.log(`\n${formatVaultSchemaStatus(await checkVaultSchemaSql(db))} — applied ${applied.length} migration(s)\n`);
+        await db.close();
+        break;
+    }
+    default:
+        console.error("Usage: npx tsx scripts/vault.ts <stats|prune|schema|migrate> [--path <file>] [--local <dir>]");
+        process.exit(1);
+}
@@ -0,0 +1,93 @@
+/**
+ * 🎓 Learned Weights CLI
+ *
+ * Fit scoring-profile weights to the replace / keep feedback log
+ * (core/rankingFeedback) and write a versioned weights file for
+ * LEARNED_WEIGHTS_FILE (core/scoringProfiles).
+ * Uses the same env as the app: RANKING_FEEDBACK_PATH, LEARNED_WEIGHTS_FILE.
+ *
+ * Run:
+ *   npx tsx scripts/weights.ts stats                         # events per profile / action
+ *   npx tsx scripts/weights.ts train                         # fit + write the next version
+ *   npx tsx scripts/weights.ts train --log <file> --out <file>
+ *   npx tsx scripts/weights.ts show [--out <file>]           # learned vs hand-tuned weights
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { createJsonlFeedbackLog, DEFAULT_FEEDBACK_PATH } from "../core/rankingFeedback.js";
+import { parseLearnedWeights } from "../core/scoringProfiles.js";
+import { trainWeights } from "../engine/weightTrainer.js";
+
+const DEFAULT_WEIGHTS_PATH = ".cache/learned-weights.json";
+
+const args = process.argv.slice(2);
+const command = args[0];
+const flag = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+};
+
+const logPath = flag("--log") || process.env.RANKING_FEEDBACK_PATH || DEFAULT_FEEDBACK_PATH;
+const outPath = flag("--out") || process.env.LEARNED_WEIGHTS_FILE || DEFAULT_WEIGHTS_PATH;
+
+// The trainer starts from the hand-tuned weights, not a previous run's
+delete process.env.LEARNED_WEIGHTS_FILE;
+
+switch (command) {
+    case "stats": {
+        const events = createJsonlFeedbackLog(logPath).read();
+        const counts = new Map<string, { keep: number; replace: number }>();
+        for (const e of events) {
+            const c = counts.get(e.scoringProfile) || { keep: 0, replace: 0 };
+            c[e.action]++;
+            counts.set(e.scoringProfile, c);
+        }
+        console.log(`\n👍 Ranking Feedback (${logPath}): ${events.length} events`);
+        for (const [profile, c] of counts) {
+            console.log(`  🧮 ${profile}: ${c.keep} keep, ${c.replace} replace`);
+        }
+        console.log("");
+        break;
+    }
+    case "train": {
+        const events = createJsonlFeedbackLog(logPath).read();
+        const previous = existsSync(outPath) ? parseLearnedWeights(readFileSync(outPath, "utf-8")) : null;
+        const { weights, reports } = trainWeights(events, { previousVersion: previous?.version });
+
+        console.log(`\n🎓 Trained on ${events.length} events from ${logPath}`);
+        for (const r of reports) {
+            const status = r.trained ? "✅" : "⏭️ too few samples,";
+            console.log(`  ${status} ${r.profile}: ${r.samples} samples, log loss ${r.logLossBefore.toFixed(3)} → ${r.logLossAfter.toFixed(3)}`);
+        }
+
+        if (Object.keys(weights.profiles).length === 0) {
+            console.error("❌ No profile had enough feedback — nothing written");
+            process.exit(1);
+        }
+
+        mkdirSync(dirname(outPath), { recursive: true });
+        writeFileSync(outPath, JSON.stringify(weights, null, 2) + "\n");
+        console.log(`\n💾 Wrote v${weights.version} to ${outPath} (set LEARNED_WEIGHTS_FILE to use it)\n`);
+        break;
+    }
+    case "show": {
+        if (!existsSync(outPath)) {
+            console.error(`❌ No weights file at ${outPath}`);
+            process.exit(1);
+        }
+        const learned = parseLearnedWeights(readFileSync(outPath, "utf-8"));
+        console.log(`\n🎓 Learned weights v${learned.version} (trained ${learned.trainedAt})`);
+        for (const [name, p] of Object.entries(learned.profiles)) {
+            console.log(`\n  🧮 ${name} — ${p.samples} samples (${p.keeps} keep, ${p.replaces} replace)`);
+            for (const [key, weight] of [...Object.entries(p.weights), ...Object.entries(p.qualitySignals)]) {
+                console.log(`     ${key}: ${weight}`);
+            }
+        }
+        console.log("");
+        break;
+    }
+    default:
+        console.error("Usage: npx tsx scripts/weights.ts <stats|train|show> [--log <file>] [--out <file>]");
+        process.exit(1);
+}
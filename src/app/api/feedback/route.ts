@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logRankingFeedback, validateFeedbackPicks } from "../../../../core/rankingFeedback";
+
+// Keep events: the student played the playlist without replacing these picks
+export async function POST(req: NextRequest) {
+    try {
+        const { action, picks } = await req.json();
+
+        if (action !== "keep" || !Array.isArray(picks)) {
+            return NextResponse.json({ error: "Expected { action: \"keep\", picks: [...] }" }, { status: 400 });
+        }
+
+        const invalid = validateFeedbackPicks(picks);
+        if (invalid) {
+            return NextResponse.json({ error: invalid }, { status: 400 });
+        }
+
+        const logged = logRankingFeedback("keep", picks);
+
+        return NextResponse.json({ logged });
+
+    } catch (error) {
+        console.error("Feedback API Error:", error);
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    }
+}
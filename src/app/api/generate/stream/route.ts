@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { BuildProgressEvent } from "../../../../../core/types";
+import { parseGenerateRequest, runGenerateRequest } from "@/lib/generate-request";
+
+export const maxDuration = 300;
+
+/**
+ * Server-Sent Events variant of /api/generate.
+ * Each BuildProgressEvent is sent as `event: <type>`; the final playlist
+ * arrives as a `complete` event. Failures are sent as an `error` event.
+ */
+export async function POST(req: NextRequest) {
+    // A malformed / non-multipart body is the client's fault, not a build failure
+    const formData = await req.formData().catch((error) => {
+        console.warn("Stream API: unreadable form data:", error);
+        return undefined;
+    });
+
+    if (!formData) {
+        return NextResponse.json({ error: "Request body must be multipart form data" }, { status: 400 });
+    }
+
+    const request = parseGenerateRequest(formData);
+
+    if (!request) {
+        return NextResponse.json({ error: "No file or syllabus text provided" }, { status: 400 });
+    }
+
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream({
+        async start(controller) {
+            let closed = false;
+
+            const send = (event: string, data: unknown) => {
+                if (closed) return;
+                try {
+                    controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+                } catch {
+                    // Client went away — keep building, stop writing
+                    closed = true;
+                }
+            };
+
+            try {
+                await runGenerateRequest(request, (event: BuildProgressEvent) => send(event.type, event));
+            } catch (error) {
+                console.error("Stream API Error:", error);
+                send("error", { error: "Internal Server Error" });
+            } finally {
+                if (!closed) controller.close();
+            }
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream; charset=utf-8",
+            "Cache-Control": "no-cache, no-transform",
+            "Connection": "keep-alive",
+        },
+    });
+}
@@ -1,16 +1,26 @@
 import { NextRequest, NextResponse } from "next/server";
 import { searchVideoReplacement } from "@/lib/video-search";
+import { logRankingFeedback, validateFeedbackPicks } from "../../../../core/rankingFeedback";
 
 export async function POST(req: NextRequest) {
     try {
-        const { videoId, query, duration, level } = await req.json();
+        const { videoId, query, duration, level, features } = await req.json();
 
         if (!query || !videoId) {
             return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
         }
 
+        const rejected = [{ videoId, topic: query, features }];
+        const invalid = validateFeedbackPicks(rejected);
+        if (invalid) {
+            return NextResponse.json({ error: invalid }, { status: 400 });
+        }
+
         console.log(`Replacing video ${videoId} for query "${query}" (Level: ${level})...`);
 
+        // The rejected pick is training data for the density weights (engine/weightTrainer)
+        logRankingFeedback("replace", rejected);
+
         const newVideo = await searchVideoReplacement(
             query,
             duration || "medium",
@@ -5,16 +5,44 @@ import { AnimatePresence, motion } from "framer-motion";
 import { Hero } from "@/components/Hero";
 import { Onboarding } from "@/components/Onboarding";
 import { UploadZone } from "@/components/UploadZone";
-import { LoadingState } from "@/components/LoadingState";
+import { LoadingState, type LoadingProgress } from "@/components/LoadingState";
 import { PlaylistView } from "@/components/PlaylistView";
+import { streamPlaylist } from "@/lib/generate-stream";
+import type { BuildProgressEvent } from "../../core/types";
+import { formatTimestamp } from "../../core/youtubeClient";
 
 type Phase = "hero" | "onboarding" | "upload" | "loading" | "playlist";
 
+const EMPTY_PROGRESS: LoadingProgress = { message: null, resolved: 0, total: 0, entries: [] };
+
+// Fold streamed engine events into the loading screen's state
+function applyProgressEvent(prev: LoadingProgress, event: BuildProgressEvent): LoadingProgress {
+    switch (event.type) {
+        case "stage":
+            return { ...prev, message: event.message };
+        case "syllabus_extracted":
+            return { ...prev, message: `Found ${event.tableOfContents.length} topics in "${event.syllabusTitle}"` };
+        case "anchor_scored":
+            return { ...prev, message: `Checking "${event.playlistTitle}" — ${event.coverageScore}% coverage` };
+        case "topic_resolved":
+            return {
+                ...prev,
+                resolved: event.index,
+                total: event.total,
+                entries: event.entry ? [...prev.entries, event.entry] : prev.entries,
+            };
+        default:
+            return prev;
+    }
+}
+
 export default function Home() {
     const [phase, setPhase] = useState<Phase>("hero");
     const [persona, setPersona] = useState<{ level: string; language: string } | null>(null);
     const [file, setFile] = useState<File | null>(null);
     const [playlist, setPlaylist] = useState<any[]>([]);
+    const [watchUrl, setWatchUrl] = useState("");
+    const [progress, setProgress] = useState<LoadingProgress>(EMPTY_PROGRESS);
 
     const handleStart = () => setPhase("onboarding");
 
@@ -26,6 +54,7 @@ export default function Home() {
     const handleFileSelect = async (file: File, mode: string) => {
         console.log("File selected:", file.name, "Mode:", mode);
         setFile(file);
+        setProgress(EMPTY_PROGRESS);
         setPhase("loading");
 
         try {
@@ -35,30 +64,38 @@ export default function Home() {
             formData.append("level", persona?.level || "Undergrad");
             formData.append("language", persona?.language || "English");
 
-            const response = await fetch("/api/generate", {
-                method: "POST",
-                body: formData,
+            const result = await streamPlaylist(formData, (event) => {
+                setProgress((prev) => applyProgressEvent(prev, event));
             });
 
-            if (!response.ok) {
-                throw new Error("Generation failed");
-            }
-
-            const data = await response.json();
-
-            // Transform API data to match PlaylistEntry format
-            const formattedPlaylist = data.playlist.map((item: any, index: number) => ({
+            // Transform engine entries to match the PlaylistView format
+            const formattedPlaylist = result.entries.map((entry, index) => ({
                 position: index + 1,
-                title: item.title,
-                duration: item.video?.timestamp || "Unknown",
-                channelName: item.video?.channel || "Unknown Source",
-                videoId: item.video?.videoId || "",
-                thumbnail: item.video?.thumbnail || "",
-                query: item.query, // Pass query for replacement
-                level: persona?.level // Pass level for replacement
+                title: entry.title,
+                duration: entry.durationDisplay,
+                // Segment entries: only part of a longer lecture
+                segment: entry.startSeconds !== undefined && entry.endSeconds !== undefined
+                    ? {
+                        label: `${formatTimestamp(entry.startSeconds)}-${formatTimestamp(entry.endSeconds)}`,
+                        url: `https://youtube.com/watch?v=${entry.videoId}&t=${entry.startSeconds}s`,
+                    }
+                    : undefined,
+                channelName: entry.channelName,
+                videoId: entry.videoId,
+                thumbnail: `https://i.ytimg.com/vi/${entry.videoId}/hqdefault.jpg`,
+                query: entry.topicMatched, // Pass topic for replacement
+                level: persona?.level, // Pass level for replacement
+                features: entry.rankingFeatures, // Logged with replace / keep feedback
+                // One-shot videos: where each syllabus topic starts
+                timestamps: entry.topicTimestamps?.map(t => ({
+                    topic: t.topic,
+                    start: formatTimestamp(t.startSeconds),
+                    url: `https://youtube.com/watch?v=${entry.videoId}&t=${t.startSeconds}s`,
+                })),
             }));
 
             setPlaylist(formattedPlaylist);
+            setWatchUrl(result.watchUrl);
             setPhase("playlist");
 
         } catch (error) {
@@ -128,7 +165,7 @@ export default function Home() {
                         exit={{ opacity: 0 }}
                         className="w-full"
                     >
-                        <LoadingState />
+                        <LoadingState progress={progress} />
                     </motion.div>
                 )}
 
@@ -141,7 +178,7 @@ export default function Home() {
                     >
                         <PlaylistView
                             entries={playlist}
-                            playlistUrl="https://youtube.com/playlist?list=..."
+                            playlistUrl={watchUrl}
                             onBack={() => setPhase("upload")}
                         />
                     </motion.div>
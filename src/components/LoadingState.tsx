@@ -2,6 +2,7 @@
 
 import { motion, AnimatePresence } from "framer-motion";
 import { useState, useEffect } from "react";
+import type { PlaylistEntry } from "../../core/types";
 
 const LOADING_MESSAGES = [
     "Consulting the syllabus gods...",
@@ -12,7 +13,18 @@ const LOADING_MESSAGES = [
     "Optimizing for your attention span...",
 ];
 
-export const LoadingState = () => {
+export interface LoadingProgress {
+    message: string | null;          // Current engine stage, e.g. "Filling 4 gaps..."
+    resolved: number;                // Topics resolved so far
+    total: number;                   // Topics to resolve in the current stage
+    entries: PlaylistEntry[];        // Partial playlist, in resolution order
+}
+
+interface LoadingStateProps {
+    progress?: LoadingProgress;
+}
+
+export const LoadingState = ({ progress }: LoadingStateProps) => {
     const [index, setIndex] = useState(0);
 
     useEffect(() => {
@@ -22,22 +34,58 @@ export const LoadingState = () => {
         return () => clearInterval(timer);
     }, []);
 
+    // Real stage messages win over the rotating filler copy
+    const message = progress?.message || LOADING_MESSAGES[index];
+
     return (
         <div className="flex flex-col items-center justify-center min-h-[40vh] space-y-8">
             <div className="h-20 flex items-center justify-center overflow-hidden text-center max-w-lg mx-auto px-4">
                 <AnimatePresence mode="wait">
                     <motion.p
-                        key={index}
+                        key={message}
                         initial={{ opacity: 0, y: 10, filter: "blur(10px)" }}
                         animate={{ opacity: 1, y: 0, filter: "blur(0px)" }}
                         exit={{ opacity: 0, y: -10, filter: "blur(10px)" }}
                         transition={{ duration: 0.5 }}
                         className="font-mono text-sm md:text-base tracking-[0.15em] uppercase text-foreground/70"
                     >
-                        {LOADING_MESSAGES[index]}
+                        {message}
                     </motion.p>
                 </AnimatePresence>
             </div>
+
+            {progress && progress.total > 0 && (
+                <div className="w-full max-w-lg px-4 space-y-2">
+                    <div className="h-px w-full bg-white/10 overflow-hidden">
+                        <motion.div
+                            className="h-px bg-accent"
+                            animate={{ width: `${Math.round((progress.resolved / progress.total) * 100)}%` }}
+                            transition={{ duration: 0.4 }}
+                        />
+                    </div>
+                    <p className="font-mono text-[10px] uppercase tracking-widest opacity-40 text-right">
+                        {progress.resolved} / {progress.total} topics
+                    </p>
+                </div>
+            )}
+
+            {progress && progress.entries.length > 0 && (
+                <ul className="w-full max-w-lg px-4 space-y-2">
+                    <AnimatePresence initial={false}>
+                        {progress.entries.slice(-5).map((entry) => (
+                            <motion.li
+                                key={`${entry.videoId}-${entry.topicMatched}`}
+                                initial={{ opacity: 0, y: 10 }}
+                                animate={{ opacity: 1, y: 0 }}
+                                exit={{ opacity: 0 }}
+                                className="font-mono text-[10px] uppercase tracking-wider opacity-50 truncate"
+                            >
+                                ✓ {entry.topicMatched} — {entry.title}
+                            </motion.li>
+                        ))}
+                    </AnimatePresence>
+                </ul>
+            )}
         </div>
     );
 };
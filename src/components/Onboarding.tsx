@@ -6,7 +6,7 @@ import clsx from "clsx";
 import { ChevronRight, ChevronDown } from "lucide-react";
 
 type Level = "High School" | "Undergrad" | "Post-Grad";
-type Language = "English" | "Hindi" | "Hinglish";
+type Language = "English" | "Hindi" | "Hinglish" | "Tamil" | "Telugu" | "Bengali" | "Marathi";
 
 interface OnboardingProps {
     onComplete: (data: { level: Level; language: Language }) => void;
@@ -82,7 +82,7 @@ export const Onboarding = ({ onComplete }: OnboardingProps) => {
     const [language, setLanguage] = useState<Language>("English");
 
     const levels: Level[] = ["High School", "Undergrad", "Post-Grad"];
-    const languages: Language[] = ["English", "Hindi", "Hinglish"];
+    const languages: Language[] = ["English", "Hindi", "Hinglish", "Tamil", "Telugu", "Bengali", "Marathi"];
 
     return (
         <section className="w-full h-full flex flex-col items-center justify-center px-4">
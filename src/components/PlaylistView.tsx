@@ -2,8 +2,9 @@
 
 import { motion, AnimatePresence } from "framer-motion";
 import { Play, RefreshCw, ExternalLink } from "lucide-react";
-import { useState } from "react";
+import { useRef, useState } from "react";
 import clsx from "clsx";
+import type { RankingFeatures } from "../../core/types";
 
 // Mock types for UI development
 interface VideoEntry {
@@ -14,7 +15,10 @@ interface VideoEntry {
     videoId: string;
     query?: string; // Needed for replacement
     level?: string; // Needed for replacement
+    features?: RankingFeatures; // What the engine scored this pick on (replace / keep feedback)
     thumbnail?: string;
+    timestamps?: { topic: string; start: string; url: string }[]; // Deep links into long videos
+    segment?: { label: string; url: string }; // Watch only this slice of the video
 }
 
 interface PlaylistViewProps {
@@ -26,8 +30,9 @@ interface PlaylistViewProps {
 export const PlaylistView = ({ entries, playlistUrl, onBack }: PlaylistViewProps) => {
     const [currentEntries, setCurrentEntries] = useState(entries);
     const [replacingPosition, setReplacingPosition] = useState<number | null>(null);
+    const keepsLogged = useRef(false);
 
-    const handleReplace = async (position: number, videoId: string, query?: string, level?: string) => {
+    const handleReplace = async (position: number, videoId: string, query?: string, level?: string, features?: RankingFeatures) => {
         if (!query) return; /* ... same logic ... */
         setReplacingPosition(position);
 
@@ -39,7 +44,8 @@ export const PlaylistView = ({ entries, playlistUrl, onBack }: PlaylistViewProps
                     videoId,
                     query,
                     level: level || "Undergrad",
-                    duration: "medium"
+                    duration: "medium",
+                    features
                 }),
             });
 
@@ -58,7 +64,11 @@ export const PlaylistView = ({ entries, playlistUrl, onBack }: PlaylistViewProps
                         channelName: newVideo.channel,
                         thumbnail: newVideo.thumbnail,
                         query: query,
-                        level: level
+                        level: level,
+                        // The replacement is a whole video, not ranked by the engine
+                        timestamps: undefined,
+                        segment: undefined,
+                        features: undefined
                     };
                 }
                 return entry;
@@ -72,6 +82,23 @@ export const PlaylistView = ({ entries, playlistUrl, onBack }: PlaylistViewProps
         }
     };
 
+    // Playing the playlist keeps every pick still in it (logged once per playlist)
+    const handlePlayAll = () => {
+        if (keepsLogged.current) return;
+        keepsLogged.current = true;
+
+        const picks = currentEntries
+            .filter((entry) => entry.features)
+            .map((entry) => ({ videoId: entry.videoId, topic: entry.query || entry.title, features: entry.features }));
+        if (picks.length === 0) return;
+
+        fetch("/api/feedback", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ action: "keep", picks }),
+        }).catch((err) => console.error("Failed to log feedback:", err));
+    };
+
     const watchUrl = "https://www.youtube.com/watch_videos?video_ids=" + currentEntries.map(e => e.videoId).join(",");
 
     return (
@@ -96,6 +123,7 @@ export const PlaylistView = ({ entries, playlistUrl, onBack }: PlaylistViewProps
                     href={watchUrl}
                     target="_blank"
                     rel="noopener noreferrer"
+                    onClick={handlePlayAll}
                     className="group flex items-center gap-2 px-6 py-3 bg-foreground text-background rounded-full font-mono text-xs tracking-widest hover:bg-white transition-colors uppercase"
                 >
                     <Play className="w-3 h-3 fill-current group-hover:scale-110 transition-transform" />
@@ -128,7 +156,23 @@ export const PlaylistView = ({ entries, playlistUrl, onBack }: PlaylistViewProps
                             </h3>
                             <p className="font-mono text-[10px] uppercase tracking-wider opacity-40">
                                 {video.channelName} • {video.duration}
+                                {video.segment && <> • Segment {video.segment.label}</>}
                             </p>
+                            {video.timestamps && video.timestamps.length > 0 && (
+                                <div className="flex flex-wrap gap-x-4 gap-y-1 pt-2">
+                                    {video.timestamps.map((t) => (
+                                        <a
+                                            key={`${t.topic}-${t.start}`}
+                                            href={t.url}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="font-mono text-[10px] tracking-wider opacity-50 hover:opacity-100 hover:text-accent transition-all"
+                                        >
+                                            {t.start} {t.topic}
+                                        </a>
+                                    ))}
+                                </div>
+                            )}
                         </div>
 
                         {/* Replace Message Overlay */}
@@ -152,14 +196,14 @@ export const PlaylistView = ({ entries, playlistUrl, onBack }: PlaylistViewProps
                             {video.videoId ? (
                                 <>
                                     <button
-                                        onClick={() => handleReplace(video.position, video.videoId, video.query, video.level)}
+                                        onClick={() => handleReplace(video.position, video.videoId, video.query, video.level, video.features)}
                                         className="p-2 hover:bg-white/5 rounded-full transition-colors group/btn"
                                         title="Replace Video"
                                     >
                                         <RefreshCw className="w-4 h-4 opacity-40 group-hover/btn:opacity-100 group-hover/btn:text-accent transition-all" />
                                     </button>
                                     <a
-                                        href={`https://youtube.com/watch?v=${video.videoId}`}
+                                        href={video.segment?.url || `https://youtube.com/watch?v=${video.videoId}`}
                                         target="_blank"
                                         rel="noopener noreferrer"
                                         className="p-2 hover:bg-white/5 rounded-full transition-colors group/link"
@@ -0,0 +1,94 @@
+import type { LanguageCheckMode, PlaylistResult, ProgressListener } from "../../core/types";
+import { buildPlaylistFromImage, buildPlaylistFromText } from "../../engine/playlistBuilder";
+import { listScoringProfiles } from "../../core/scoringProfiles";
+import { toUserPreferences } from "./preferences";
+
+// ---------------------------------------------------------------------------
+// Shared form handling for /api/generate and /api/generate/stream
+// ---------------------------------------------------------------------------
+
+export interface GenerateRequest {
+    file: File | null;
+    syllabusText: string | null;
+    preferences: ReturnType<typeof toUserPreferences>;
+    /** Optional "videosPerTopic" form field (1-3) */
+    videosPerTopic?: number;
+    /** Optional "scoringProfile" form field (a known profile name, e.g. "humanities") */
+    scoringProfile?: string;
+    /** Optional "traceRanking" form field ("true" attaches ranking traces for auditing) */
+    traceRanking?: boolean;
+    /** Optional "languageCheck" form field ("strict" or "lenient") */
+    languageCheck?: LanguageCheckMode;
+}
+
+/**
+ * Parse the upload form. Returns null when neither a file nor text was sent.
+ */
+export function parseGenerateRequest(formData: FormData): GenerateRequest | null {
+    const file = formData.get("file") as File | null;
+    const syllabusText = formData.get("syllabusText") as string | null;
+
+    if (!file && !syllabusText?.trim()) {
+        return null;
+    }
+
+    const preferences = toUserPreferences({
+        level: formData.get("level") as string | null,
+        language: formData.get("language") as string | null,
+        mode: formData.get("mode") as string | null,
+        timeBudget: formData.get("timeBudgetMinutes") as string | null,
+    });
+
+    const videosPerTopic = Number(formData.get("videosPerTopic")) || undefined;
+
+    const profileName = formData.get("scoringProfile") as string | null;
+    const scoringProfile = listScoringProfiles().some(p => p.name === profileName)
+        ? profileName!
+        : undefined;
+
+    const traceRanking = formData.get("traceRanking") === "true" || undefined;
+
+    const checkName = formData.get("languageCheck");
+    const languageCheck = checkName === "strict" || checkName === "lenient" ? checkName : undefined;
+
+    return { file, syllabusText, preferences, videosPerTopic, scoringProfile, traceRanking, languageCheck };
+}
+
+/**
+ * Run the engine for a parsed request (image if a file was sent, text otherwise).
+ */
+export async function runGenerateRequest(
+    request: GenerateRequest,
+    onProgress?: ProgressListener
+): Promise<PlaylistResult> {
+    const { file, syllabusText, preferences, videosPerTopic, scoringProfile, traceRanking, languageCheck } = request;
+
+    console.log("Building playlist with engine...", preferences);
+
+    const result = file
+        ? await buildPlaylistFromImage({
+            imageBuffer: Buffer.from(await file.arrayBuffer()),
+            mimeType: file.type || "image/png",
+            preferences,
+            videosPerTopic,
+            scoringProfile,
+            traceRanking,
+            recordFeatures: true, // Replace / keep feedback is logged with them (/api/replace, /api/feedback)
+            languageCheck,
+            onProgress,
+        })
+        : await buildPlaylistFromText({
+            syllabusText: syllabusText!,
+            preferences,
+            videosPerTopic,
+            scoringProfile,
+            traceRanking,
+            recordFeatures: true,
+            languageCheck,
+            onProgress,
+        });
+
+    console.log(`Built playlist with ${result.totalVideos} videos.`);
+
+    return result;
+}
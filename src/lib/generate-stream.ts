@@ -0,0 +1,77 @@
+import type { BuildProgressEvent, PlaylistResult } from "../../core/types";
+
+// ---------------------------------------------------------------------------
+// Browser client for /api/generate/stream (Server-Sent Events over POST)
+// ---------------------------------------------------------------------------
+// EventSource only supports GET, so we read the response body ourselves and
+// split it on the blank-line SSE frame boundary.
+
+/**
+ * POST the upload form to the streaming endpoint, forwarding every progress
+ * event to `onEvent`. Resolves with the final playlist.
+ */
+export async function streamPlaylist(
+    formData: FormData,
+    onEvent: (event: BuildProgressEvent) => void
+): Promise<PlaylistResult> {
+    const response = await fetch("/api/generate/stream", {
+        method: "POST",
+        body: formData,
+    });
+
+    if (!response.ok || !response.body) {
+        throw new Error("Generation failed");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary = buffer.indexOf("\n\n");
+        while (boundary !== -1) {
+            const frame = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+            boundary = buffer.indexOf("\n\n");
+
+            const parsed = parseFrame(frame);
+            if (!parsed) continue;
+
+            if (parsed.event === "error") {
+                throw new Error((parsed.data as { error?: string }).error || "Generation failed");
+            }
+
+            const event = parsed.data as BuildProgressEvent;
+            onEvent(event);
+
+            if (event.type === "complete") {
+                return event.result;
+            }
+        }
+    }
+
+    throw new Error("Stream ended before the playlist was complete");
+}
+
+function parseFrame(frame: string): { event: string; data: unknown } | null {
+    let event = "message";
+    const dataLines: string[] = [];
+
+    for (const line of frame.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) dataLines.push(line.slice(5).trim());
+    }
+
+    if (dataLines.length === 0) return null;
+
+    try {
+        return { event, data: JSON.parse(dataLines.join("\n")) };
+    } catch {
+        return null;
+    }
+}
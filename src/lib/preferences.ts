@@ -0,0 +1,56 @@
+import type { UserPreferences, StudentType, Language, LearningMode } from "../../core/types";
+import { validatePreferences } from "../../engine/preferences";
+
+// ---------------------------------------------------------------------------
+// UI label → engine preference mapping
+// ---------------------------------------------------------------------------
+// The onboarding + upload screens speak in human labels ("Post-Grad", "Hinglish",
+// "oneshot"). The engine only understands the enums in core/types.ts, so every
+// request is normalized here before it reaches buildPlaylistFrom*().
+
+const LEVEL_MAP: Record<string, StudentType> = {
+    "high school": "high_school",
+    "undergrad": "undergrad",
+    "post-grad": "post_grad",
+};
+
+const LANGUAGE_MAP: Record<string, Language> = {
+    "english": "english",
+    "hindi": "hindi",
+    "hinglish": "hinglish",
+    "tamil": "tamil",
+    "telugu": "telugu",
+    "bengali": "bengali",
+    "bangla": "bengali",
+    "marathi": "marathi",
+};
+
+const MODE_MAP: Record<string, LearningMode> = {
+    "scratch": "from_scratch",
+    "revision": "revision",
+    "oneshot": "one_shot",
+};
+
+export interface UIPreferences {
+    level?: string | null;
+    language?: string | null;
+    mode?: string | null;
+    /** Total time budget in minutes, e.g. "360" for "6 hours before the exam" */
+    timeBudget?: string | null;
+}
+
+/**
+ * Convert the UI's level/language/mode strings into engine UserPreferences.
+ * Unknown or missing values fall back to the engine defaults; a missing or
+ * invalid time budget means no budget.
+ */
+export function toUserPreferences(ui: UIPreferences): UserPreferences {
+    const normalize = (value?: string | null) => (value || "").toLowerCase().trim();
+
+    return validatePreferences({
+        studentType: LEVEL_MAP[normalize(ui.level)],
+        language: LANGUAGE_MAP[normalize(ui.language)],
+        learningMode: MODE_MAP[normalize(ui.mode)],
+        timeBudgetMinutes: Number(normalize(ui.timeBudget)) || undefined,
+    });
+}
@@ -1,5 +1,9 @@
-// Prioritize official API to avoid IP blocking/scraping issues on Vercel
-// Fallback to yt-search only if all API keys fail.
+// Scraper first (free); the official API is the fallback that keeps working
+// on Vercel when scraping gets IP-blocked. Both go through core SearchProviders.
+
+import type { VideoCandidate } from "../../core/searchScraper";
+import { createYtSearchProvider } from "../../core/ytSearchProvider";
+import { createYouTubeApiProvider } from "../../core/youtubeApiProvider";
 
 export interface VideoResult {
     videoId: string;
@@ -11,99 +15,48 @@ export interface VideoResult {
     thumbnail: string;
 }
 
-interface RawVideoItem {
-    videoId: string;
-    title: string;
-    seconds: number;
-    timestamp: string;
-    views: number;
-    url: string;
-    image: string;
-    thumbnail: string;
-    author: {
-        name: string;
-    };
-}
-
 // ---------------------------------------------------------------------------
-// 1. API Key Rotation Logic
+// 1. Providers (scraper first, official API as fallback)
 // ---------------------------------------------------------------------------
 
-function getApiKeys(): string[] {
-    const keys = [
-        process.env.YOUTUBE_API_KEY,
-        process.env.YOUTUBE_API_KEY_2,
-        process.env.YOUTUBE_API_KEY_3
-    ].filter((k): k is string => !!k && k.length > 0); // Filter out undefined/empty
-    return keys;
-}
+const scraper = createYtSearchProvider();
+const youtubeApi = createYouTubeApiProvider();
 
-async function searchYouTubeAPIWithRotation(query: string): Promise<RawVideoItem[]> {
-    const keys = getApiKeys();
+async function searchWithFallback(query: string, limit: number): Promise<VideoCandidate[]> {
+    let videos: VideoCandidate[] = [];
 
-    if (keys.length === 0) {
-        console.warn("No YOUTUBE_API_KEYs found in environment variables.");
-        return [];
+    // STEP 1: Try yt-search Scraper (Primary)
+    try {
+        console.log(`Searching (Primary - Scraper): ${query}`);
+        videos = (await scraper.searchVideos(query)).slice(0, limit);
+        if (videos.length > 0) console.log(`Scraper success! Found ${videos.length} videos.`);
+    } catch (error) {
+        console.warn("Primary scraper search failed (likely blocked or module missing).", error);
     }
 
-    for (let i = 0; i < keys.length; i++) {
-        const apiKey = keys[i];
-        const maskedKey = apiKey.substring(0, 4) + "...";
-        console.log(`Trying API Key #${i + 1} (${maskedKey}) for query: "${query.substring(0, 20)}..."`);
-
+    // STEP 2: Official API Fallback (Rotation) if scraper fails or finds nothing
+    if (videos.length === 0) {
+        console.warn("Attempting YouTube API fallback...");
         try {
-            const url = `https://www.googleapis.com/youtube/v3/search?part=snippet&maxResults=10&q=${encodeURIComponent(query)}&type=video&key=${apiKey}`;
-            const response = await fetch(url);
-
-            if (response.ok) {
-                const data = await response.json();
-                if (!data.items) {
-                    console.warn(`Key #${i + 1} worked but returned no items.`);
-                    return [];
-                }
-                console.log(`Key #${i + 1} success! Found ${data.items.length} videos.`);
-                return mapApiToRaw(data.items);
-            }
-
-            // Handle Errors
-            const errorText = await response.text();
-            console.error(`Key #${i + 1} failed: ${response.status} ${response.statusText}`, errorText);
-
-            // If 403 (Quota/Forbidden), continue to next key. 
-            // If 400 (Bad Request), it's the query, don't rotate.
-            if (response.status === 403) {
-                console.warn(`Key #${i + 1} quota exceeded or blocked. Rotating to next key...`);
-                continue;
-            } else {
-                // Non-retryable error (e.g. 400 bad request)
-                break;
-            }
-
-        } catch (e) {
-            console.error(`Key #${i + 1} network error:`, e);
-            // Network glitch? Try next key just in case
-            continue;
+            videos = (await youtubeApi.searchVideos(query)).slice(0, limit);
+        } catch (error) {
+            console.warn("YouTube API fallback failed.", error);
         }
     }
 
-    console.warn("All API keys failed or exhausted.");
-    return [];
+    return videos;
 }
 
-function mapApiToRaw(items: any[]): RawVideoItem[] {
-    return items.map((item: any) => ({
-        videoId: item.id.videoId,
-        title: item.snippet.title,
-        seconds: 0, // Duration requires separate API call
-        timestamp: "Unknown",
-        views: 0,
-        url: `https://youtube.com/watch?v=${item.id.videoId}`,
-        image: item.snippet.thumbnails.high?.url || item.snippet.thumbnails.default?.url,
-        thumbnail: item.snippet.thumbnails.high?.url || item.snippet.thumbnails.default?.url,
-        author: {
-            name: item.snippet.channelTitle
-        }
-    }));
+function toVideoResult(video: VideoCandidate): VideoResult {
+    return {
+        videoId: video.videoId,
+        title: video.title,
+        timestamp: video.duration.seconds > 0 ? video.duration.timestamp : "Unknown",
+        channel: video.author.name || "Unknown Channel",
+        views: video.views || 0,
+        url: `https://youtube.com/watch?v=${video.videoId}`,
+        thumbnail: video.thumbnail || `https://i.ytimg.com/vi/${video.videoId}/hqdefault.jpg`,
+    };
 }
 
 // ---------------------------------------------------------------------------
@@ -116,53 +69,12 @@ export async function searchVideoForModule(
     typePref: "concept" | "tutorial" | "lecture",
     level: string
 ): Promise<VideoResult | null> {
-
-    // Augment query
-    let augmentedQuery = query;
-    if (level === "Undergrad" || level === "Post-Grad") {
-        augmentedQuery += " lecture OR tutorial -shorts";
-    } else {
-        augmentedQuery += " explained simply -shorts";
-    }
-
-    let videos: RawVideoItem[] = [];
-
-    // STEP 1: Try yt-search Scraper (Primary)
-    try {
-        console.log(`Searching (Primary - Scraper): ${augmentedQuery}`);
-        const { default: yts } = await import("yt-search");
-        const r = await yts(augmentedQuery);
-        if (r && r.videos && r.videos.length > 0) {
-            videos = r.videos.slice(0, 10) as unknown as RawVideoItem[];
-            console.log(`Scraper success! Found ${videos.length} videos.`);
-        }
-    } catch (error) {
-        console.warn("Primary scraper search failed (likely blocked or module missing).", error);
-    }
-
-    // STEP 2: Official API Fallback (Rotation) if scraper fails or finds nothing
-    if (videos.length === 0) {
-        console.warn("Attempting YouTube API fallback...");
-        videos = await searchYouTubeAPIWithRotation(augmentedQuery);
-    }
+    const videos = await searchWithFallback(augmentQuery(query, level), 10);
 
     // Filter and Rank
     const ranked = rankVideos(videos, durationPref);
 
-    if (ranked.length > 0) {
-        const best = ranked[0];
-        return {
-            videoId: best.videoId,
-            title: best.title,
-            timestamp: best.timestamp || "Unknown",
-            channel: best.author?.name || "Unknown Channel",
-            views: best.views || 0,
-            url: best.url,
-            thumbnail: best.thumbnail || best.image || "",
-        };
-    }
-
-    return null;
+    return ranked.length > 0 ? toVideoResult(ranked[0]) : null;
 }
 
 export async function searchVideoReplacement(
@@ -171,66 +83,37 @@ export async function searchVideoReplacement(
     level: string,
     excludeVideoId: string
 ): Promise<VideoResult | null> {
-
-    let augmentedQuery = query;
-    if (level === "Undergrad" || level === "Post-Grad") {
-        augmentedQuery += " lecture OR tutorial -shorts";
-    } else {
-        augmentedQuery += " explained simply -shorts";
-    }
-
-    let videos: RawVideoItem[] = [];
-
-    // STEP 1: Try yt-search Scraper (Primary)
-    try {
-        const { default: yts } = await import("yt-search");
-        const r = await yts(augmentedQuery);
-        if (r && r.videos && r.videos.length > 0) {
-            videos = r.videos.slice(0, 15) as unknown as RawVideoItem[];
-        }
-    } catch (error) {
-        console.warn("Primary scraper replacement search failed.", error);
-    }
-
-    // STEP 2: Official API Fallback (Rotation)
-    if (videos.length === 0) {
-        videos = await searchYouTubeAPIWithRotation(augmentedQuery);
-    }
+    const videos = await searchWithFallback(augmentQuery(query, level), 15);
 
     // Filter & Rank (Excluding current video)
     const ranked = rankVideos(videos, durationPref).filter(v => v.videoId !== excludeVideoId);
 
-    if (ranked.length > 0) {
-        const best = ranked[0];
-        return {
-            videoId: best.videoId,
-            title: best.title,
-            timestamp: best.timestamp || "Unknown",
-            channel: best.author?.name || "Unknown Channel",
-            views: best.views || 0,
-            url: best.url,
-            thumbnail: best.thumbnail || best.image || "",
-        };
+    return ranked.length > 0 ? toVideoResult(ranked[0]) : null;
+}
+
+function augmentQuery(query: string, level: string): string {
+    if (level === "Undergrad" || level === "Post-Grad") {
+        return `${query} lecture OR tutorial -shorts`;
     }
-    return null;
+    return `${query} explained simply -shorts`;
 }
 
 // ---------------------------------------------------------------------------
 // 3. Ranking Helpers
 // ---------------------------------------------------------------------------
 
-function rankVideos(videos: RawVideoItem[], durationPref: "short" | "medium" | "long"): RawVideoItem[] {
+function rankVideos(videos: VideoCandidate[], durationPref: "short" | "medium" | "long"): VideoCandidate[] {
     return videos
         .filter((v) => {
-            if (v.seconds && v.seconds < 60) return false; // Filter shorts if known
+            if (v.duration.seconds && v.duration.seconds < 60) return false; // Filter shorts if known
             return true;
         })
         .sort((a, b) => {
             let scoreA = 0;
             let scoreB = 0;
 
-            if (a.seconds) scoreA += getDurationScore(a.seconds, durationPref);
-            if (b.seconds) scoreB += getDurationScore(b.seconds, durationPref);
+            if (a.duration.seconds) scoreA += getDurationScore(a.duration.seconds, durationPref);
+            if (b.duration.seconds) scoreB += getDurationScore(b.duration.seconds, durationPref);
 
             if (!isAllCaps(a.title)) scoreA += 5;
             if (!isAllCaps(b.title)) scoreB += 5;
@@ -0,0 +1,29 @@
+-- ═══════════════════════════════════════════════════════════════
+-- 0001 · Video vault table (exact-match cache)
+-- ═══════════════════════════════════════════════════════════════
+
+CREATE TABLE IF NOT EXISTS public.vault_schema_migrations (
+    version INT PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.video_vault (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    video_id TEXT UNIQUE NOT NULL,
+    title TEXT NOT NULL,
+    description TEXT DEFAULT '',
+    transcript_snippet TEXT DEFAULT '',
+    density_score REAL DEFAULT 0,
+    density_flags TEXT[] DEFAULT '{}',
+    metadata JSONB DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_video_vault_video_id ON public.video_vault(video_id);
+CREATE INDEX IF NOT EXISTS idx_video_vault_metadata ON public.video_vault USING gin(metadata);
+
+INSERT INTO public.vault_schema_migrations (version, name)
+VALUES (1, 'create_video_vault')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,52 @@
+-- ═══════════════════════════════════════════════════════════════
+-- 0002 · Semantic cache: pgvector embeddings, query index, match RPC
+-- ═══════════════════════════════════════════════════════════════
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- text-embedding-004 (core/gemini.ts EMBEDDING_MODEL)
+ALTER TABLE public.video_vault ADD COLUMN IF NOT EXISTS embedding vector(768);
+
+-- Exact lookups: checkSupabaseVault filters on query_used + user_role
+CREATE INDEX IF NOT EXISTS idx_video_vault_query
+    ON public.video_vault ((metadata->>'query_used'), (metadata->>'user_role'));
+
+-- Nearest-neighbour lookups
+CREATE INDEX IF NOT EXISTS idx_video_vault_embedding
+    ON public.video_vault USING hnsw (embedding vector_cosine_ops);
+
+-- core/videoVault.ts → matchSupabaseVault
+CREATE OR REPLACE FUNCTION public.match_video_vault(
+    query_embedding vector(768),
+    match_threshold FLOAT,
+    match_count INT,
+    filter_scope TEXT,
+    filter_role TEXT,
+    filter_experience TEXT
+) RETURNS TABLE (
+    id UUID,
+    video_id TEXT,
+    title TEXT,
+    description TEXT,
+    transcript_snippet TEXT,
+    density_score REAL,
+    density_flags TEXT[],
+    metadata JSONB,
+    similarity FLOAT
+) LANGUAGE sql STABLE AS $$
+    SELECT v.id, v.video_id, v.title, v.description, v.transcript_snippet,
+           v.density_score, v.density_flags, v.metadata,
+           1 - (v.embedding <=> query_embedding) AS similarity
+    FROM public.video_vault v
+    WHERE v.embedding IS NOT NULL
+      AND v.metadata->>'semantic_scope' IS NOT DISTINCT FROM filter_scope
+      AND v.metadata->>'user_role' = filter_role
+      AND v.metadata->>'experience_level' = filter_experience
+      AND 1 - (v.embedding <=> query_embedding) >= match_threshold
+    ORDER BY v.embedding <=> query_embedding
+    LIMIT match_count;
+$$;
+
+INSERT INTO public.vault_schema_migrations (version, name)
+VALUES (2, 'vault_embeddings')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,27 @@
+-- ═══════════════════════════════════════════════════════════════
+-- 0003 · One row per lookup key, not per video
+-- ═══════════════════════════════════════════════════════════════
+-- The vault is looked up by query (topic, role and one-shot keys), and one
+-- video is often the winner for several of them. Unique on video_id, each
+-- store overwrote the previous key's query_used / semantic_scope / embedding.
+
+-- core/videoVault.ts → storeInSupabase upserts on this
+ALTER TABLE public.video_vault ADD COLUMN IF NOT EXISTS lookup_key TEXT
+    GENERATED ALWAYS AS (
+        COALESCE(metadata->>'user_role', '') || '|' || COALESCE(metadata->>'query_used', '')
+    ) STORED;
+
+ALTER TABLE public.video_vault DROP CONSTRAINT IF EXISTS video_vault_video_id_key;
+
+-- Keep the newest row per key before enforcing uniqueness
+DELETE FROM public.video_vault v
+USING public.video_vault newer
+WHERE v.lookup_key = newer.lookup_key
+  AND (newer.updated_at, newer.id) > (v.updated_at, v.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_video_vault_lookup_key
+    ON public.video_vault (lookup_key);
+
+INSERT INTO public.vault_schema_migrations (version, name)
+VALUES (3, 'vault_lookup_key')
+ON CONFLICT (version) DO NOTHING;
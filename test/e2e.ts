@@ -0,0 +1,202 @@
+/**
+ * 📼 End-to-End Pipeline Tests (Record & Replay)
+ *
+ * Runs buildPlaylistFromSyllabus on recorded scenarios and compares the
+ * resulting PlaylistResult against a golden file. Any change in which
+ * videos get picked (gapFiller.pickBestVideo, anchorHunter coverage
+ * scoring, reranking, ...) shows up as a diff.
+ *
+ * LAYOUT:
+ *   test/cassettes/<scenario>/scenario.json  → syllabus + preferences + build options
+ *   test/cassettes/<scenario>/search.json    → recorded SearchProvider responses
+ *   test/cassettes/<scenario>/gemini.json    → recorded Gemini responses (optional)
+ *   test/cassettes/<scenario>/transcripts.json → recorded transcripts (optional)
+ *   test/golden/<scenario>.json              → expected PlaylistResult
+ *
+ * Run:
+ *   npx tsx test/e2e.ts                     # replay all scenarios, compare goldens
+ *   npx tsx test/e2e.ts --update            # replay and rewrite goldens
+ *   npx tsx test/e2e.ts --record <scenario> # live run: re-record cassette + golden
+ *   npx tsx test/e2e.ts --verbose           # show engine logs
+ */
+
+import { existsSync, readdirSync, readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { buildPlaylistFromSyllabus, type BuildOptions } from "../engine/playlistBuilder.js";
+import { startCassette, stopCassette } from "../core/cassette.js";
+import { setVaultStore, createMemoryVaultStore } from "../core/vaultStore.js";
+import { setVaultEmbedder } from "../core/videoVault.js";
+import type { SyllabusData, PlaylistResult } from "../core/types.js";
+
+// ═══════════════════════════════════════════════════════════════
+// SETUP
+// ═══════════════════════════════════════════════════════════════
+
+interface Scenario {
+    syllabus: SyllabusData;
+    options?: Omit<BuildOptions, "onProgress" | "searchProvider" | "topicMatcher">;
+}
+
+const TEST_DIR = dirname(fileURLToPath(import.meta.url));
+const CASSETTES_DIR = join(TEST_DIR, "cassettes");
+const GOLDEN_DIR = join(TEST_DIR, "golden");
+
+const args = process.argv.slice(2);
+const update = args.includes("--update");
+const verbose = args.includes("--verbose");
+const recordIndex = args.indexOf("--record");
+const recordScenario = recordIndex >= 0 ? args[recordIndex + 1] : null;
+
+let passed = 0;
+let failed = 0;
+
+// ═══════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+/** Strip fields that legitimately change between runs */
+function normalize(result: PlaylistResult): PlaylistResult {
+    return { ...result, generatedAt: "<generatedAt>" };
+}
+
+function toGoldenText(result: PlaylistResult): string {
+    return JSON.stringify(normalize(result), null, 2) + "\n";
+}
+
+/** Minimal line diff (LCS) — goldens are small enough */
+function diffLines(expected: string[], actual: string[]): string[] {
+    const n = expected.length;
+    const m = actual.length;
+    const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i][j] = expected[i] === actual[j]
+                ? lcs[i + 1][j + 1] + 1
+                : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const out: string[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+        if (i < n && j < m && expected[i] === actual[j]) {
+            i++; j++;
+        } else if (i < n && (j >= m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+            out.push(`- ${expected[i++]}`);
+        } else {
+            out.push(`+ ${actual[j++]}`);
+        }
+    }
+    return out;
+}
+
+/** Run fn with engine logs captured; returns the captured lines */
+async function withCapturedLogs<T>(fn: () => Promise<T>): Promise<{ value?: T; error?: unknown; logs: string[] }> {
+    const logs: string[] = [];
+    const original = { log: console.log, warn: console.warn, error: console.error };
+
+    if (!verbose) {
+        const capture = (...parts: unknown[]) => logs.push(parts.map(String).join(" "));
+        console.log = capture;
+        console.warn = capture;
+        console.error = capture;
+    }
+
+    try {
+        return { value: await fn(), logs };
+    } catch (error) {
+        return { error, logs };
+    } finally {
+        Object.assign(console, original);
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// RUN
+// ═══════════════════════════════════════════════════════════════
+
+async function runScenario(name: string): Promise<void> {
+    const cassetteDir = join(CASSETTES_DIR, name);
+    const goldenFile = join(GOLDEN_DIR, `${name}.json`);
+    const scenario = JSON.parse(readFileSync(join(cassetteDir, "scenario.json"), "utf-8")) as Scenario;
+    const mode = recordScenario === name ? "record" : "replay";
+
+    console.log(`\n📋 ${name} (${mode})`);
+
+    // Fresh, empty vault per scenario — cached winners must not leak between them.
+    // Embeddings aren't recorded, so semantic lookups are off during replay.
+    setVaultStore(createMemoryVaultStore());
+    setVaultEmbedder(async () => null);
+
+    const searchProvider = startCassette(cassetteDir, mode);
+    const run = await withCapturedLogs(() => buildPlaylistFromSyllabus({
+        ...scenario.options,
+        syllabus: scenario.syllabus,
+        searchProvider,
+    }));
+    stopCassette();
+
+    if (run.error || !run.value) {
+        console.error(`  ❌ FAILED: pipeline threw: ${String(run.error)}`);
+        run.logs.slice(-20).forEach(line => console.error(`     ${line}`));
+        failed++;
+        return;
+    }
+
+    const actual = toGoldenText(run.value);
+
+    if (mode === "record" || update || !existsSync(goldenFile)) {
+        mkdirSync(GOLDEN_DIR, { recursive: true });
+        writeFileSync(goldenFile, actual);
+        console.log(`  📝 Golden written: test/golden/${name}.json (${run.value.totalVideos} videos)`);
+        passed++;
+        return;
+    }
+
+    const expected = readFileSync(goldenFile, "utf-8");
+
+    if (expected === actual) {
+        console.log(`  ✅ Matches golden (${run.value.totalVideos} videos)`);
+        passed++;
+        return;
+    }
+
+    console.error(`  ❌ FAILED: result differs from test/golden/${name}.json`);
+    diffLines(expected.split("\n"), actual.split("\n"))
+        .slice(0, 40)
+        .forEach(line => console.error(`     ${line}`));
+    failed++;
+}
+
+async function main(): Promise<void> {
+    console.log("\n📼 Playlist Forge — End-to-End Replay Tests");
+
+    const scenarios = readdirSync(CASSETTES_DIR)
+        .filter(name => existsSync(join(CASSETTES_DIR, name, "scenario.json")))
+        .sort();
+
+    if (recordScenario && !scenarios.includes(recordScenario)) {
+        throw new Error(`Unknown scenario "${recordScenario}" (expected test/cassettes/${recordScenario}/scenario.json)`);
+    }
+
+    for (const name of scenarios) {
+        if (recordScenario && name !== recordScenario) continue;
+        await runScenario(name);
+    }
+
+    console.log(`\n${"═".repeat(50)}`);
+    console.log(`📼 Results: ${passed} passed, ${failed} failed`);
+    console.log(`${"═".repeat(50)}\n`);
+
+    if (failed > 0) {
+        process.exit(1);
+    }
+}
+
+main().catch(error => {
+    console.error("❌ E2E runner crashed:", error);
+    process.exit(1);
+});
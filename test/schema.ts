@@ -0,0 +1,128 @@
+/**
+ * 🧱 Vault Schema Tests (local Postgres)
+ *
+ * Applies supabase/migrations to an in-memory PGlite database (Postgres
+ * in WASM, with pgvector) and checks the schema tooling + the
+ * match_video_vault RPC. No Supabase project or network needed.
+ *
+ * Run: npx tsx test/schema.ts
+ */
+
+import {
+    VAULT_SCHEMA_VERSION,
+    loadVaultMigrations,
+    migrateVault,
+    checkVaultSchemaSql,
+    formatVaultSchemaStatus,
+    openLocalVaultDatabase,
+} from "../core/vaultSchema.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string) {
+    if (condition) {
+        console.log(`  ✅ ${label}`);
+        passed++;
+    } else {
+        console.error(`  ❌ FAILED: ${label}`);
+        failed++;
+    }
+}
+
+console.log("\n🧱 Playlist Forge — Vault Schema Tests\n");
+
+const migrations = loadVaultMigrations();
+
+// ─── Test 1: Migration Files ─────────────────────────
+console.log("📋 Test 1: Migration Files");
+
+assert(migrations.every((m, i) => m.version === i + 1), "Migrations are numbered 1..n without gaps");
+assert(migrations[migrations.length - 1]?.version === VAULT_SCHEMA_VERSION, "VAULT_SCHEMA_VERSION matches the latest migration");
+assert(
+    migrations.every(m => m.sql.includes(`VALUES (${m.version}, '${m.name}')`)),
+    "Every migration records its own version"
+);
+
+// ─── Test 2: Out-of-Date Detection ───────────────────
+console.log("\n📋 Test 2: Out-of-Date Detection");
+
+const db = await openLocalVaultDatabase();
+
+const empty = await checkVaultSchemaSql(db);
+assert(!empty.ok && empty.currentVersion === 0, "Empty database is reported as unmigrated");
+assert(empty.problems.some(p => p.includes("video_vault is missing")), "Missing table is named in the report");
+
+await migrateVault(db, migrations.slice(0, 1));
+const partial = await checkVaultSchemaSql(db);
+assert(!partial.ok && partial.currentVersion === 1, "Partially migrated database is out of date");
+assert(partial.problems.some(p => p.includes("embedding")), "Missing embedding column is named in the report");
+assert(formatVaultSchemaStatus(partial).includes("supabase/migrations"), "Report tells you where the migrations are");
+
+// ─── Test 3: Migrate ─────────────────────────────────
+console.log("\n📋 Test 3: Migrate");
+
+const applied = await migrateVault(db, migrations);
+assert(applied.join() === migrations.slice(1).map(m => m.version).join(), "Only pending migrations are applied");
+assert((await checkVaultSchemaSql(db)).ok, "Fully migrated schema passes the check");
+assert((await migrateVault(db, migrations)).length === 0, "Migrating again is a no-op");
+
+// ─── Test 4: match_video_vault RPC ───────────────────
+console.log("\n📋 Test 4: match_video_vault RPC");
+
+const axis = (i: number) => `[${Array.from({ length: 768 }, (_, j) => (j === i ? 1 : 0)).join(",")}]`;
+const scope = "topic|data structures||english|from_scratch";
+const metadata = (role: string, query: string) =>
+    JSON.stringify({ semantic_scope: scope, user_role: role, experience_level: "intermediate", query_used: query });
+
+await db.query(
+    `INSERT INTO public.video_vault (video_id, title, embedding, metadata) VALUES
+     ('bst00000001', 'Binary Search Trees', $1, $2),
+     ('grf00000001', 'Graphs', $3, $4),
+     ('bst00000002', 'BST for teachers', $1, $5)`,
+    [axis(0), metadata("Student", "bst"), axis(1), metadata("Student", "graphs"), metadata("Teacher", "bst")]
+);
+
+const { rows } = await db.query<{ video_id: string; similarity: number }>(
+    `SELECT video_id, similarity FROM public.match_video_vault($1, 0.85, 5, $2, 'Student', 'intermediate')`,
+    [axis(0), scope]
+);
+assert(rows.length === 1 && rows[0].video_id === "bst00000001", "RPC returns the nearest entry in scope and role");
+assert(Math.abs(rows[0]?.similarity - 1) < 1e-6, "RPC reports cosine similarity");
+
+// ─── Test 5: One Video, Several Lookup Keys ──────────
+console.log("\n📋 Test 5: One Video, Several Lookup Keys");
+
+// The upsert storeInSupabase makes (onConflict: "lookup_key")
+const upsert = (query: string, title: string) => db.query(
+    `INSERT INTO public.video_vault (video_id, title, metadata) VALUES ('stk00000001', $2, $1)
+     ON CONFLICT (lookup_key) DO UPDATE SET title = EXCLUDED.title, metadata = EXCLUDED.metadata`,
+    [metadata("Student", query), title]
+);
+const lookup = async (query: string) => (await db.query<{ video_id: string; title: string }>(
+    `SELECT video_id, title FROM public.video_vault
+     WHERE metadata->>'query_used' = $1 AND metadata->>'user_role' = 'Student'`,
+    [query]
+)).rows;
+
+const topicKey = "topic|data structures|stacks|english|from_scratch";
+const oneShotKey = "one_shot|data structures|#0|english|one_shot";
+await upsert(topicKey, "Stacks");
+await upsert(oneShotKey, "Stacks");
+assert((await lookup(topicKey)).length === 1, "The first key still finds the video");
+assert((await lookup(oneShotKey))[0]?.video_id === "stk00000001", "The second key finds it too");
+
+await upsert(topicKey, "Stacks (updated)");
+const updated = await lookup(topicKey);
+assert(updated.length === 1 && updated[0].title === "Stacks (updated)", "Storing under the same key updates its row");
+
+await db.close();
+
+// ─── Results ──────────────────────────────────────────
+console.log(`\n${"═".repeat(50)}`);
+console.log(`🧱 Results: ${passed} passed, ${failed} failed`);
+console.log(`${"═".repeat(50)}\n`);
+
+if (failed > 0) {
+    process.exit(1);
+}
@@ -8,13 +8,42 @@
  */
 
 import { validatePreferences, resolvePreferences, getDefaultPreferences } from "../engine/preferences.js";
-import { toWatchURL, toCSV, toMarkdown, generateSummary } from "../engine/exportPlaylist.js";
+import { toWatchURL, toVideoURL, toCSV, toMarkdown, toRankingCSV, generateSummary, channelConsistency } from "../engine/exportPlaylist.js";
+import { toUserPreferences } from "../src/lib/preferences.js";
+import { emitProgress } from "../engine/progress.js";
+import { createFixtureSearchProvider, normalizeFixtureKey } from "../core/fixtureSearchProvider.js";
+import { parseISODuration, formatTimestamp } from "../core/youtubeClient.js";
+import { mapWithConcurrency, withRetry, backoffDelay } from "../core/concurrency.js";
+import { assignTopics, createLexicalMatcher, createEmbeddingMatcher, localEmbed } from "../core/topicMatcher.js";
+import { createJsonlVaultStore, createMemoryVaultStore, createVaultStore, setVaultStore } from "../core/vaultStore.js";
+import { checkVideoVault, storeInVideoVault, setVaultEmbedder, type VideoVaultEntry } from "../core/videoVault.js";
+import type { SearchProvider } from "../core/searchProvider.js";
+import { calculateDensityScore, type VideoCandidate } from "../core/searchScraper.js";
+import { buildFromScratch } from "../engine/gapFiller.js";
+import { vaultQuery } from "../engine/vaultCache.js";
+import { resolveVideoRoles, buildRoleQueries } from "../engine/videoRoles.js";
+import { planTimeBudget, pickWithinBudget, fitToTimeBudget, trimToTimeBudget } from "../engine/timeBudget.js";
+import { mapTopicsToChapters, findTopicSegment, entryKey } from "../engine/chapterMapper.js";
+import { parseChapters, withChapters } from "../core/chapterParser.js";
+import { createFixtureTranscriptProvider } from "../core/fixtureTranscriptProvider.js";
+import { checkTranscriptRelevance, scoreByTranscript } from "../engine/transcriptScoring.js";
+import { createVideoEnricher } from "../engine/videoEnrichment.js";
+import { getScoringProfile, selectScoringProfile, parseScoringProfiles, applyLearnedWeights, signalFeature } from "../core/scoringProfiles.js";
+import { buildRankingTrace, buildRankingFeatures, TRACE_CANDIDATES } from "../engine/rankingTrace.js";
+import { createMemoryFeedbackLog, createJsonlFeedbackLog, getFeedbackLog, logRankingFeedback, validateFeedbackPicks, type RankingFeedbackEvent } from "../core/rankingFeedback.js";
+import { trainWeights } from "../engine/weightTrainer.js";
+import { detectLanguage, filterByLanguage, matchesLanguage, verifyLanguage } from "../core/languageDetector.js";
+import { extractMeaning } from "../core/queryIntelligence.js";
+import { mkdtempSync, writeFileSync, appendFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import {
     DURATION_CONFIGS,
     LANGUAGE_SUFFIXES,
     STUDENT_EXPERIENCE_MAP,
     type PlaylistResult,
     type PlaylistEntry,
+    type SyllabusData,
 } from "../core/types.js";
 
 // ═══════════════════════════════════════════════════════════════
@@ -104,6 +133,7 @@ const mockResult: PlaylistResult = {
     totalDurationMinutes: 35,
     entries: mockEntries,
     watchUrl: "",
+    channelConsistency: 100,
     preferences: defaultPrefs,
     generatedAt: new Date().toISOString(),
 };
@@ -131,6 +161,13 @@ const summary = generateSummary(mockResult);
 assert(summary.includes("Data Structures & Algorithms"), "Summary contains title");
 assert(summary.includes("from_scratch"), "Summary contains mode");
 
+// Channel consistency
+const channelMix = ["CS Academy", "CS Academy", "Tech Channel", "Random A", "Random B"]
+    .map((channelName, position) => ({ ...mockEntries[0], position, channelName }));
+assert(channelConsistency(mockEntries) === 100, "Two channels = 100% consistency");
+assert(channelConsistency(channelMix) === 60, "Top-two channels cover 3/5 = 60%");
+assert(channelConsistency([]) === 0, "Empty playlist has 0% consistency");
+
 // ─── Test 5: Import Validation ────────────────────────
 console.log("\n📋 Test 5: Import Validation (core modules)");
 
@@ -140,6 +177,657 @@ import("../core/safeJsonParser.js").then(() => assert(true, "safeJsonParser.ts i
 import("../core/searchScraper.js").then(() => assert(true, "searchScraper.ts imports OK")).catch(() => assert(false, "searchScraper.ts import"));
 import("../core/queryIntelligence.js").then(() => assert(true, "queryIntelligence.ts imports OK")).catch(() => assert(false, "queryIntelligence.ts import"));
 
+// ─── Test 6: UI Preference Mapping ───────────────────
+console.log("\n📋 Test 6: UI Preference Mapping");
+
+const uiPrefs = toUserPreferences({ level: "Post-Grad", language: "Hindi", mode: "oneshot" });
+assert(uiPrefs.studentType === "post_grad", "'Post-Grad' maps to post_grad");
+assert(uiPrefs.language === "hindi", "'Hindi' maps to hindi");
+assert(uiPrefs.learningMode === "one_shot", "'oneshot' maps to one_shot");
+
+const uiDefaults = toUserPreferences({ level: null, language: "Klingon" });
+assert(uiDefaults.studentType === "undergrad", "Missing level falls back to undergrad");
+assert(uiDefaults.language === "english", "Unknown language falls back to english");
+assert(uiDefaults.learningMode === "from_scratch", "Missing mode falls back to from_scratch");
+
+// ─── Test 7: Progress Events ─────────────────────────
+console.log("\n📋 Test 7: Progress Events");
+
+const received: string[] = [];
+emitProgress((e) => received.push(e.type), { type: "stage", stage: "finalizing", message: "..." });
+assert(received.length === 1 && received[0] === "stage", "Listener receives emitted event");
+
+let threw = false;
+try {
+    emitProgress(() => { throw new Error("boom"); }, { type: "stage", stage: "finalizing", message: "..." });
+} catch {
+    threw = true;
+}
+assert(!threw, "Failing listener does not break the build");
+let threwWithoutListener = false;
+try {
+    emitProgress(undefined, { type: "stage", stage: "finalizing", message: "..." });
+} catch {
+    threwWithoutListener = true;
+}
+assert(!threwWithoutListener, "Missing listener is a no-op");
+
+// ─── Test 8: Search Providers ────────────────────────
+console.log("\n📋 Test 8: Search Providers");
+
+assert(parseISODuration("PT1H2M3S") === 3723, "ISO duration PT1H2M3S = 3723s");
+assert(parseISODuration("PT15M") === 900, "ISO duration PT15M = 900s");
+assert(formatTimestamp(3723) === "1:02:03", "3723s formats as 1:02:03");
+assert(formatTimestamp(65) === "1:05", "65s formats as 1:05");
+assert(normalizeFixtureKey("  Stacks   IN Hindi ") === "stacks in hindi", "Fixture keys are normalized");
+
+const fixtureDir = mkdtempSync(join(tmpdir(), "pf-fixtures-"));
+writeFileSync(join(fixtureDir, "search.json"), JSON.stringify({
+    videos: {
+        "stacks explained": [{
+            videoId: "stk12345678",
+            title: "Stacks Explained",
+            description: "",
+            duration: { seconds: 720, timestamp: "12:00" },
+            views: 1000,
+            author: { name: "CS Academy" },
+        }],
+    },
+}));
+
+const fixtureProvider = createFixtureSearchProvider(fixtureDir);
+const strictProvider = createFixtureSearchProvider(fixtureDir, { strict: true });
+
+fixtureProvider.searchVideos("Stacks  Explained").then(videos => {
+    assert(videos.length === 1 && videos[0].videoId === "stk12345678", "Fixture provider replays recorded videos");
+});
+fixtureProvider.searchPlaylists("unrecorded query").then(playlists => {
+    assert(playlists.length === 0, "Fixture miss returns empty result");
+});
+strictProvider.searchVideos("unrecorded query")
+    .then(() => assert(false, "Strict fixture miss throws"))
+    .catch(() => assert(true, "Strict fixture miss throws"));
+
+// ─── Test 9: Concurrency ─────────────────────────────
+console.log("\n📋 Test 9: Concurrency");
+
+let inFlight = 0;
+let maxInFlight = 0;
+mapWithConcurrency([30, 5, 20, 1, 10], 2, async (delay, i) => {
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise(resolve => setTimeout(resolve, delay));
+    inFlight--;
+    return i;
+}).then(order => {
+    assert(order.join(",") === "0,1,2,3,4", "Worker pool keeps input order");
+    assert(maxInFlight === 2, "Worker pool never exceeds its concurrency");
+});
+
+let attempts = 0;
+withRetry(async () => {
+    if (++attempts < 3) throw new Error("flaky");
+    return "ok";
+}, { retries: 2, baseDelayMs: 1, label: "Smoke" }).then(value => {
+    assert(value === "ok" && attempts === 3, "withRetry retries until success");
+});
+withRetry(async () => { throw new Error("down"); }, { retries: 1, baseDelayMs: 1, label: "Smoke" })
+    .then(() => assert(false, "withRetry rethrows after last attempt"))
+    .catch(() => assert(true, "withRetry rethrows after last attempt"));
+
+const delays = Array.from({ length: 20 }, () => backoffDelay(3, 100));
+assert(delays.every(d => d >= 0 && d <= 800), "Jittered backoff stays within base × 2^attempt");
+
+// ─── Test 10: Topic Matching ─────────────────────────
+console.log("\n📋 Test 10: Topic Matching");
+
+// Both topics prefer video 0; the assignment must give topic 1 its second choice
+const assigned = assignTopics([[0.9, 0.8], [0.95, 0.1]], 0.6);
+assert(assigned[0] === 1 && assigned[1] === 0, "One-to-one assignment maximizes total similarity");
+assert(assignTopics([[0.9], [0.8]], 0.6).filter(a => a !== null).length === 1, "A video is assigned to at most one topic");
+assert(assignTopics([[0.3, 0.2]], 0.6)[0] === null, "Below-threshold pairs stay unassigned");
+
+createLexicalMatcher().score(
+    ["Arrays", "Deadlocks"],
+    [
+        { id: "a", title: "Introduction to Arrays | Data Structures" },
+        { id: "b", title: "L-12 | Part 2", description: "Deadlocks — Banker's algorithm and detection" },
+    ]
+).then(([arrays, deadlocks]) => {
+    assert(arrays[0] >= 0.6, "Lexical matcher matches topic words anywhere in the title");
+    assert(deadlocks[1] >= 0.6 && deadlocks[1] < 1, "Lexical matcher uses descriptions (at reduced weight)");
+});
+
+createLexicalMatcher().score(
+    ["ஸ்டாக் செயல்பாடுகள்"],
+    [{ id: "t", title: "L-12 | Part 2", description: "ஸ்டாக் செயல்பாடுகள் — push மற்றும் pop" }]
+).then(([[tamil]]) => assert(tamil >= 0.6, "Lexical matcher tokenizes Tamil script"));
+
+createEmbeddingMatcher(localEmbed).score(["Stacks"], [{ id: "s", title: "Stack" }, { id: "g", title: "Graph" }])
+    .then(([row]) => assert(row[0] > row[1], "Local embedding prefers the related title"));
+
+// ─── Test 11: Persistent Video Vault ─────────────────
+console.log("\n📋 Test 11: Persistent Video Vault");
+
+const vaultFile = join(mkdtempSync(join(tmpdir(), "pf-vault-")), "vault.jsonl");
+const vaultEntry = (videoId: string): VideoVaultEntry => ({
+    video_id: videoId,
+    title: `Video ${videoId}`,
+    description: "",
+    transcript_snippet: "",
+    density_score: 50,
+    density_flags: [],
+    metadata: { duration_seconds: 600, author: "CS Academy", views: 1000, fetched_at: "", query_used: "stacks" },
+});
+
+const vault = createJsonlVaultStore(vaultFile, { maxEntries: 2 });
+vault.set("q1", vaultEntry("vid00000001"));
+vault.set("q2", vaultEntry("vid00000002"));
+assert(createJsonlVaultStore(vaultFile).get("q1")?.video_id === "vid00000001", "JSONL vault survives a restart");
+assert(createJsonlVaultStore(vaultFile).getByVideoId("vid00000002") !== null, "JSONL vault looks up by video ID");
+
+vault.set("q3", vaultEntry("vid00000003"));
+assert(vault.get("q1") === null && vault.stats().entries === 2, "JSONL vault evicts the oldest entry past maxEntries");
+
+appendFileSync(vaultFile, JSON.stringify({ key: "old", storedAt: "2000-01-01T00:00:00.000Z", entry: vaultEntry("vidOld00001") }) + "\n");
+const reloaded = createJsonlVaultStore(vaultFile, { ttlMs: 60_000 });
+assert(reloaded.get("old") === null, "Expired vault entries are misses");
+assert(reloaded.prune().removed === 1 && reloaded.stats().fileLines === 2, "Prune drops expired entries and compacts the file");
+
+appendFileSync(vaultFile, JSON.stringify({ key: "old", storedAt: "2000-01-01T00:00:00.000Z", entry: vaultEntry("vidOld00001") }) + "\n");
+process.env.VIDEO_VAULT_PATH = vaultFile;
+process.env.VIDEO_VAULT_TTL_HOURS = "one week";
+const typoTtl = createVaultStore("jsonl");
+delete process.env.VIDEO_VAULT_PATH;
+delete process.env.VIDEO_VAULT_TTL_HOURS;
+assert(typoTtl.get("old") === null && typoTtl.prune().removed === 1, "An invalid VIDEO_VAULT_TTL_HOURS falls back to the default TTL");
+
+// ─── Test 12: Vault-Backed Search ────────────────────
+console.log("\n📋 Test 12: Vault-Backed Search");
+
+const vaultModifiers = resolvePreferences(getDefaultPreferences());
+assert(
+    vaultQuery("topic", " Data  Structures", "Stacks ", vaultModifiers) === "topic|data structures|stacks|english|from_scratch",
+    "Vault queries are normalized and keyed by language + mode"
+);
+
+let providerSearches = 0;
+const countingProvider: SearchProvider = {
+    name: "fixture",
+    async searchVideos(query) {
+        providerSearches++;
+        return [{
+            videoId: `vid-${query.length}`,
+            title: query,
+            description: "",
+            duration: { seconds: 900, timestamp: "15:00" },
+            views: 1000,
+            author: { name: "CS Academy" },
+        }];
+    },
+    async searchPlaylists() { return []; },
+    async getPlaylistVideos() { return []; },
+    async getVideoDetails() { return new Map(); },
+};
+
+setVaultStore(createMemoryVaultStore());
+setVaultEmbedder(localEmbed);
+const scratchOptions = { searchProvider: countingProvider, skipReranker: true };
+const scratchToc = ["Stacks", "Binary Search Trees"];
+
+const vaultSearchTests = (async () => {
+    const first = await buildFromScratch(scratchToc, "Data Structures", vaultModifiers, scratchOptions);
+    const searchesAfterFirst = providerSearches;
+    const second = await buildFromScratch(scratchToc, "Data Structures", vaultModifiers, scratchOptions);
+    assert(providerSearches === searchesAfterFirst, "Cached topic winners skip the search provider");
+    assert(
+        second.entries.map(e => e.videoId).join() === first.entries.map(e => e.videoId).join(),
+        "Cached build picks the same videos"
+    );
+
+    await buildFromScratch(scratchToc, "Data Structures", vaultModifiers, { ...scratchOptions, bypassCache: true });
+    assert(providerSearches > searchesAfterFirst, "bypassCache searches again");
+})();
+
+// ─── Test 13: Semantic Vault Lookup ──────────────────
+console.log("\n📋 Test 13: Semantic Vault Lookup");
+
+const bstScope = { semanticScope: "topic|data structures||english|from_scratch" };
+const bstEntry = vaultEntry("bst00000001");
+bstEntry.metadata = { ...bstEntry.metadata, user_role: "Student", experience_level: "intermediate" };
+
+vaultSearchTests.then(async () => {
+    setVaultStore(createMemoryVaultStore());
+
+    await storeInVideoVault(bstEntry, "topic|bst", "Student", "intermediate", { ...bstScope, semanticText: "Binary Search Trees" });
+
+    const similar = await checkVideoVault("topic|bst 2", "Student", "intermediate", { ...bstScope, semanticText: "binary search tree" });
+    assert(similar.found && similar.entry?.video_id === "bst00000001", "Similar topic reuses the cached winner");
+
+    const unrelated = await checkVideoVault("topic|graphs", "Student", "intermediate", { ...bstScope, semanticText: "Graph Traversal" });
+    assert(!unrelated.found, "Unrelated topic is a miss");
+
+    const otherScope = await checkVideoVault("topic|bst hi", "Student", "intermediate", {
+        semanticScope: "topic|data structures||hindi|from_scratch",
+        semanticText: "Binary Search Trees",
+    });
+    assert(!otherScope.found, "Semantic lookups stay within their scope");
+
+    setVaultEmbedder(null);
+    setVaultStore(null);
+});
+
+// ─── Test 14: Videos per Topic ───────────────────────
+console.log("\n📋 Test 14: Videos per Topic");
+
+assert(resolveVideoRoles().join() === "concept", "One video per topic by default");
+assert(resolveVideoRoles(2).join() === "concept,worked_example", "Two videos per topic add a worked example");
+assert(resolveVideoRoles(9).length === 3 && resolveVideoRoles(0).length === 1, "videosPerTopic is clamped to 1-3");
+
+const practiceQuery = buildRoleQueries("Stacks", "Data Structures", vaultModifiers, "practice").primary;
+assert(practiceQuery.includes("common mistakes") && practiceQuery.includes("practice problems"), "Practice query builds on the search matrix");
+
+const roleMarkdown = toMarkdown({ ...mockResult, entries: [{ ...mockResult.entries[0], role: "worked_example" }] });
+assert(roleMarkdown.includes("(Worked example)"), "Markdown shows each entry's role");
+
+// ─── Test 15: Time Budget ────────────────────────────
+console.log("\n📋 Test 15: Time Budget");
+
+assert(validatePreferences({ timeBudgetMinutes: 360 }).timeBudgetMinutes === 360, "Time budget is kept by validation");
+assert(!("timeBudgetMinutes" in validatePreferences({ timeBudgetMinutes: -5 })), "Invalid time budget is dropped");
+assert(toUserPreferences({ timeBudget: "90" }).timeBudgetMinutes === 90, "UI time budget maps to minutes");
+
+const budgetToc = ["Stacks", "Queues", "Deques", "Priority Queues"];
+const budgetPlan = planTimeBudget(
+    { title: "Data Structures", description: "", fundamentalConcept: "Stacks", tableOfContents: budgetToc, modules: [] },
+    70
+);
+assert(budgetPlan.weights[0] > budgetPlan.weights[1] && budgetPlan.weights[1] > budgetPlan.weights[3], "Fundamental and earlier topics weigh more");
+assert(Math.abs(budgetPlan.allocations.reduce((a, b) => a + b, 0) - 4200) <= 2, "Allocations add up to the budget");
+
+const budgetEntry = (videoId: string, title: string, topic: string, minutes: number, role?: PlaylistEntry["role"]): PlaylistEntry => ({
+    position: 0, videoId, title, channelName: "Chan", durationSeconds: minutes * 60,
+    durationDisplay: `${minutes}:00`, topicMatched: topic, source: "gap_fill", role,
+});
+
+const shortPick = pickWithinBudget(
+    [budgetEntry("long0000001", "Long", "Deques", 40), budgetEntry("short000001", "Short", "Deques", 12)],
+    new Set(),
+    budgetPlan.allocations[2]
+);
+assert(shortPick?.videoId === "short000001", "Low-weight topic prefers a candidate that fits its share");
+
+const overBudget = [
+    budgetEntry("stk00000001", "Stacks explained", "Stacks", 20, "concept"),
+    budgetEntry("que00000001", "Queues explained", "Queues", 20, "concept"),
+    budgetEntry("quePractice", "Queue practice problems", "Queues", 15, "practice"),
+    budgetEntry("deq00000001", "Deques and Priority Queues", "Deques", 20, "concept"),
+    budgetEntry("pq000000001", "Priority Queues with heaps", "Priority Queues", 20, "concept"),
+].map((e, i) => ({ ...e, position: i }));
+
+const fitTests = fitToTimeBudget(overBudget, budgetPlan, budgetToc, createLexicalMatcher()).then(({ entries, report }) => {
+    assert(!entries.some(e => e.role === "practice"), "Role videos are dropped first");
+    assert(report.mergedTopics.join() === "Priority Queues", "Cut topic covered by its neighbour is merged");
+    assert(entries.find(e => e.videoId === "deq00000001")?.topicsCovered?.join() === "Deques,Priority Queues", "Merged topic joins the neighbour's topicsCovered");
+    assert(report.usedMinutes <= 70 && report.cutTopics.length === 0, "Playlist fits the budget");
+}).catch(() => assert(false, "fitToTimeBudget"));
+
+fitTests.then(() => fitToTimeBudget(overBudget, planTimeBudget(
+    { title: "Data Structures", description: "", fundamentalConcept: "Stacks", tableOfContents: budgetToc, modules: [] },
+    25
+), budgetToc, createLexicalMatcher())).then(({ entries, report }) => {
+    assert(entries.length === 1 && entries[0].videoId === "stk00000001", "Tight budget keeps the most important topic");
+    assert(report.cutTopics.join() === "Queues,Deques,Priority Queues" && report.mergedTopics.length === 0, "Cut topics are reported in TOC order");
+}).catch(() => assert(false, "fitToTimeBudget (tight)"));
+
+const oneShotTrim = trimToTimeBudget([budgetEntry("os000000001", "Marathon", "DS", 90), budgetEntry("os000000002", "Short", "DS", 30)], 60);
+assert(oneShotTrim.entries.length === 1 && oneShotTrim.report.videosRemoved === 1, "One-shot keeps at least one video within the budget");
+
+const withChapterTopics = (entry: PlaylistEntry, topics: string[]): PlaylistEntry => ({
+    ...entry,
+    topicTimestamps: topics.map((topic, i) => ({ topic, chapterTitle: topic, startSeconds: i * 600 })),
+});
+const chapterTrim = trimToTimeBudget([
+    withChapterTopics(budgetEntry("os000000003", "Stacks + Queues", "DS", 50), ["Stacks", "Queues"]),
+    withChapterTopics(budgetEntry("os000000004", "Deques + Queues", "DS", 30), ["Deques", "Queues"]),
+], 60, budgetToc);
+assert(chapterTrim.report.cutTopics.join() === "Deques", "One-shot reports TOC topics only dropped videos covered");
+
+// ─── Test 16: One-Shot Chapters ──────────────────────
+console.log("\n📋 Test 16: One-Shot Chapters");
+
+const chapterDescription = "Full course.\n00:00 Intro\n12:30 - Stacks\n1:05:00 Queues\n2:50:00 Beyond the end";
+const chapters = parseChapters(chapterDescription, 3 * 3600 - 1800);
+assert(chapters.map(c => c.startSeconds).join() === "0,750,3900", "Chapters are parsed from M:SS and H:MM:SS markers");
+assert(chapters[1].title === "Stacks", "Chapter titles drop the separator");
+assert(parseChapters("Timestamp 12:30 is mentioned once", 3600).length === 0, "A stray timestamp is not a chapter list");
+
+mapTopicsToChapters(["Stacks", "Queues", "Heaps"], chapters, createLexicalMatcher()).then(timestamps => {
+    assert(timestamps.map(t => `${t.topic}@${t.startSeconds}`).join() === "Stacks@750,Queues@3900", "TOC topics map to their chapter start times");
+}).catch(() => assert(false, "mapTopicsToChapters"));
+
+const chapterResult = {
+    ...mockResult,
+    entries: [{ ...mockResult.entries[0], topicTimestamps: [{ topic: "Stacks", chapterTitle: "Stacks", startSeconds: 750 }] }],
+};
+assert(toMarkdown(chapterResult).includes(`[12:30](https://www.youtube.com/watch?v=${mockResult.entries[0].videoId}&t=750s) Stacks`), "Markdown deep-links each topic timestamp");
+assert(toCSV(chapterResult).includes("&t=750s"), "CSV includes topic deep links");
+
+// ─── Test 17: Chapter Parser ─────────────────────────
+console.log("\n📋 Test 17: Chapter Parser");
+
+const chapterFormats = parseChapters(
+    ["[0:00] Intro", "(05:00) Keys", "00:12:30 - Joins", "• 20:00 – 30:00 Indexes", "Transactions - 45:00", "not a chapter"].join("\n"),
+    3600
+);
+assert(chapterFormats.map(c => c.title).join("|") === "Intro|Keys|Joins|Indexes|Transactions", "Bracketed, H:MM:SS, dashed, ranged and trailing markers are parsed");
+assert(chapterFormats.map(c => c.startSeconds).join() === "0,300,750,1200,2700", "Chapter starts are in seconds");
+assert(chapterFormats[4].endSeconds === 3600 && chapterFormats[0].endSeconds === 300, "Each chapter ends where the next begins (or at the end)");
+assert(parseChapters("0:00 Intro\n10:00 Joins\n5:00 Keys", 3600).map(c => c.title).join() === "Intro,Joins", "Out-of-order markers are dropped");
+assert(parseChapters("0:00 Intro\n10:00 Joins", 0).length === 0, "Unknown duration gives no chapters");
+assert(parseChapters("0:00 Intro\n10:75 Joins\n12:00 Keys", 3600).length === 2, "Invalid timestamps are ignored");
+
+const lectureVideo: VideoCandidate = {
+    videoId: "chp00000001",
+    title: "Databases Lecture",
+    description: "0:00 Intro\n10:00 Joins",
+    duration: { seconds: 1800, timestamp: "30:00" },
+    views: 1000,
+    author: { name: "CS Academy" },
+};
+const chapteredVideo = withChapters(lectureVideo);
+assert(chapteredVideo.chapters?.length === 2, "withChapters exposes chapters on a VideoCandidate");
+assert(!("chapters" in withChapters({ ...lectureVideo, description: "No chapters here" })), "Chapterless videos keep their shape");
+assert(calculateDensityScore(chapteredVideo).flags.includes("🧭 Chapters (+20)"), "Chapter lists count towards density");
+
+// ─── Test 18: Segment Entries ────────────────────────
+console.log("\n📋 Test 18: Segment Entries");
+
+const lectureChapters = parseChapters("0:00 Recap\n45:00 Normalization Part 1\n52:00 Normalization Part 2\n58:00 SQL Joins", 7200);
+findTopicSegment("Normalization", lectureChapters, createLexicalMatcher()).then(segment => {
+    assert(segment?.startSeconds === 2700 && segment.endSeconds === 3480, "Topic segment spans every matching neighbouring chapter");
+}).catch(() => assert(false, "findTopicSegment"));
+
+const segmentEntry: PlaylistEntry = {
+    ...mockResult.entries[0],
+    durationSeconds: 780,
+    durationDisplay: "13:00",
+    startSeconds: 2700,
+    endSeconds: 3480,
+};
+assert(entryKey(segmentEntry) !== entryKey(mockResult.entries[0]), "Segments of a video are distinct entries");
+assert(toVideoURL(segmentEntry).endsWith(`${segmentEntry.videoId}&t=2700s`), "Segment links start at the segment");
+assert(toMarkdown({ ...mockResult, entries: [segmentEntry] }).includes("13:00 (45:00-58:00)"), "Markdown shows the segment range");
+assert(toCSV({ ...mockResult, entries: [segmentEntry] }).includes("&t=2700s"), "CSV links to the segment start");
+
+// ─── Test 19: Transcript Scoring ─────────────────────
+console.log("\n📋 Test 19: Transcript Scoring");
+
+const dijkstraTalk = "Today: Dijkstra's algorithm. Dijkstra's algorithm keeps a priority queue. The algorithm relaxes edges. Dijkstra's algorithm needs non-negative weights.";
+assert(checkTranscriptRelevance(dijkstraTalk, ["dijkstra's", "algorithm"]).score === 75, "Repeated transcript mentions score as in-depth coverage");
+assert(!checkTranscriptRelevance("We cover breadth first search today.", ["dijkstra's", "algorithm"]).isRelevant, "Off-topic transcript fails the relevance guard");
+
+const transcriptDir = mkdtempSync(join(tmpdir(), "forge-transcripts-"));
+writeFileSync(join(transcriptDir, "transcripts.json"), JSON.stringify({
+    lecture9: { videoId: "lecture9", language: "en", text: dijkstraTalk },
+    noCaptions: null,
+}));
+const transcriptProvider = createFixtureTranscriptProvider(transcriptDir, { strict: true });
+const transcriptCandidate = (videoId: string, title: string, densityScore: number): VideoCandidate => ({
+    videoId,
+    title,
+    description: "",
+    duration: { seconds: 840, timestamp: "14:00" },
+    views: 1000,
+    author: { name: "Uni" },
+    densityScore,
+});
+
+scoreByTranscript(
+    [transcriptCandidate("noCaptions", "Shortest Paths", 40), transcriptCandidate("lecture9", "Lecture 9", 10)],
+    "Dijkstra's Algorithm",
+    { provider: transcriptProvider, language: "english" }
+).then(ranked => {
+    assert(ranked[0].videoId === "lecture9", "Transcript about the topic lifts an untitled lecture");
+    assert(ranked[0].transcriptSnippet?.startsWith("Today: Dijkstra's") === true, "Transcript snippet starts near the first mention");
+    assert(ranked[1].transcriptSnippet === undefined, "Videos without captions keep their score");
+}).catch(() => assert(false, "scoreByTranscript"));
+
+// ─── Test 20: YouTube API Enrichment ─────────────────
+console.log("\n📋 Test 20: YouTube API Enrichment");
+
+const scrapedVideo = transcriptCandidate("enrich00001", "Paging", 0);
+const educationScore = calculateDensityScore({ ...scrapedVideo, category: "Education" }).score;
+assert(educationScore > calculateDensityScore(scrapedVideo).score, "Education category raises the density score");
+assert(calculateDensityScore({ ...scrapedVideo, category: "Comedy" }).score < calculateDensityScore(scrapedVideo).score, "Entertainment category lowers the density score");
+assert(calculateDensityScore({ ...scrapedVideo, views: 50000, likeCount: 2500 }).flags.includes("👍 High Engagement (+15)"), "High like ratio is flagged");
+
+const detailBatches: string[][] = [];
+const detailsProvider: SearchProvider = {
+    name: "details",
+    async searchVideos() { return []; },
+    async searchPlaylists() { return []; },
+    async getPlaylistVideos() { return []; },
+    async getVideoDetails(videoIds) {
+        detailBatches.push(videoIds);
+        return new Map(videoIds.map(videoId => [videoId, { videoId, category: "Education", likeCount: 10 }]));
+    },
+};
+const enricher = createVideoEnricher(detailsProvider);
+Promise.all([
+    enricher.enrich([transcriptCandidate("enrichA", "A", 0), transcriptCandidate("enrichB", "B", 0)]),
+    enricher.enrich([transcriptCandidate("enrichB", "B", 0), transcriptCandidate("enrichC", "C", 0)]),
+]).then(([first, second]) => {
+    assert(detailBatches.length === 1 && detailBatches[0].length === 3, "Concurrent lookups share one batched call");
+    assert(first[0].category === "Education" && second[1].likeCount === 10, "API metadata is merged into candidates");
+    assert(enricher.report().quotaUnits === 1 && enricher.report().videosEnriched === 3, "Quota units and enriched videos are tracked");
+}).catch(() => assert(false, "createVideoEnricher"));
+
+// ─── Test 21: Scoring Profiles ───────────────────────
+console.log("\n📋 Test 21: Scoring Profiles");
+
+const syllabusFor = (title: string, description: string): SyllabusData => ({
+    title,
+    description,
+    tableOfContents: [],
+    modules: [],
+});
+assert(selectScoringProfile(syllabusFor("World History", "From ancient empires to the modern era")).name === "humanities", "History syllabus selects the humanities profile");
+assert(selectScoringProfile(syllabusFor("Cell Biology", "Membranes and organelles")).name === "life_sciences", "Biology syllabus selects the life sciences profile");
+assert(selectScoringProfile(syllabusFor("Linear Algebra", "GATE preparation")).name === "exam_prep", "A named exam selects the exam prep profile");
+assert(selectScoringProfile({
+    ...syllabusFor("Digital Electronics", "Combinational and sequential circuits"),
+    tableOfContents: ["Logic Gates: AND gate, OR gate, NAND gate", "Digital Logic Families", "Flip-Flops"],
+}).name === "stem_programming", "'AND gate' in a digital-logic TOC isn't an exam");
+assert(selectScoringProfile(syllabusFor("Physics", "Ohm's law and Newton's laws of motion")).name !== "humanities", "Physics laws aren't humanities");
+assert(selectScoringProfile(syllabusFor("Data Structures and Algorithms for Software Engineering", "Programming and coding, GATE exam")).name === "stem_programming", "One exam hit doesn't override a clear domain majority");
+assert(selectScoringProfile(syllabusFor("Underwater Basket Weaving", "")).name === "stem_programming", "Unknown subjects fall back to the default profile");
+
+const repoLecture: VideoCandidate = {
+    ...scrapedVideo,
+    description: "Slides and code: https://github.com/history/lectures. Sources and further reading below.",
+};
+const stemScore = calculateDensityScore(repoLecture, getScoringProfile("stem_programming"));
+const humanitiesScore = calculateDensityScore(repoLecture, getScoringProfile("humanities"));
+assert(stemScore.flags.includes("🔗 GitHub Link (+50)"), "Flags carry the weight of the applied rule");
+assert(!humanitiesScore.flags.some(f => f.startsWith("🔗")) && humanitiesScore.flags.includes("📜 Sources Cited (+30)"), "Humanities scores sources, not GitHub links");
+
+let badProfileRejected = false;
+try {
+    parseScoringProfiles(JSON.stringify({ profiles: [{ name: "broken", weights: {}, qualitySignals: [], clickbaitSignals: [] }] }));
+} catch {
+    badProfileRejected = true;
+}
+assert(badProfileRejected, "Profile files with missing weights are rejected");
+
+// ─── Test 22: Ranking Traces ─────────────────────────
+console.log("\n📋 Test 22: Ranking Traces");
+
+const tracePool: VideoCandidate[] = [
+    { ...transcriptCandidate("pagingDeep1", "Paging Explained", 60), densityFlags: ["🧭 Chapters (+20)"] },
+    { ...transcriptCandidate("pagingShort", "Paging in 5 Minutes", 30), duration: { seconds: 300, timestamp: "5:00" } },
+    { ...transcriptCandidate("osLecture12", "Lecture 12", 25), duration: { seconds: 900, timestamp: "15:00" } },
+    ...["a", "b", "c", "d"].map(id => transcriptCandidate(`filler0000${id}`, "Cooking Pasta", 0)),
+];
+const trace = buildRankingTrace({
+    topic: "Paging",
+    ranked: tracePool,
+    modifiers,
+    segmentIds: new Set(["osLecture12"]),
+    reranker: { winnerId: "pagingDeep1", reasoning: "Walks through page tables", fallbackUsed: false },
+    pickedId: "filler0000d",
+});
+assert(trace.scoringProfile === "stem_programming" && !trace.fromVault, "Trace records the default scoring profile");
+assert(trace.candidates.length === TRACE_CANDIDATES + 1 && trace.candidates[TRACE_CANDIDATES].videoId === "filler0000d", "A pick below the top candidates is appended to the trace");
+assert(trace.candidates.map(c => c.durationFit).slice(0, 3).join(",") === "fits,too_short,segment", "Duration fit is judged against the learning mode");
+assert(trace.candidates[0].relevanceScore > trace.candidates[3].relevanceScore, "Relevance score favours on-topic titles");
+
+const tracedResult: PlaylistResult = {
+    ...mockResult,
+    entries: [
+        { ...mockResult.entries[0], videoId: "pagingDeep1", rankingTrace: trace },
+        ...mockResult.entries.slice(1),
+    ],
+};
+const rankingRows = toRankingCSV(tracedResult).split("\n");
+assert(rankingRows.length === 1 + trace.candidates.length, "Ranking CSV has one row per traced candidate");
+assert(rankingRows[1].includes(",yes,") && rankingRows[1].includes("winner: Walks through page tables"), "Ranking CSV marks the pick and the reranker verdict");
+assert(rankingRows[1].includes('"🧭 Chapters (+20)"'), "Ranking CSV lists density flags");
+
+// ─── Test 23: Learned Weights From Feedback ──────────
+console.log("\n📋 Test 23: Learned Weights From Feedback");
+
+const featureScore = calculateDensityScore(repoLecture, getScoringProfile("stem_programming"));
+assert(featureScore.features.includes(signalFeature("🔗 GitHub Link")) && featureScore.features.length === featureScore.flags.length, "Every applied rule is reported as a feature");
+
+const pickFeatures = buildRankingFeatures({ ...repoLecture, densityScore: featureScore.score, densityFeatures: featureScore.features });
+assert(pickFeatures?.scoringProfile === "stem_programming" && pickFeatures.densityScore === featureScore.score, "Picks carry their features and score");
+assert(buildRankingFeatures(repoLecture) === undefined, "Unscored videos carry no features");
+
+const feedbackLog = createMemoryFeedbackLog();
+const loggedCount = logRankingFeedback("replace", [
+    { videoId: "repoLecture", topic: "Paging", features: pickFeatures },
+    { videoId: "anchorVideo", topic: "Paging" },
+    { videoId: "tampered001", topic: "Paging", features: { scoringProfile: "stem_programming", densityScore: "high" } as any },
+], feedbackLog);
+assert(loggedCount === 1 && feedbackLog.read()[0].action === "replace", "Only picks with well-formed features are logged");
+assert(process.env.RANKING_FEEDBACK_BACKEND !== undefined || getFeedbackLog().name === "jsonl", "Feedback is persisted to JSONL by default");
+
+// Feedback routes are unauthenticated — oversized or malformed picks never reach the log
+const pagingPick = { videoId: "dQw4w9WgXcQ", topic: "Paging", features: pickFeatures };
+assert(validateFeedbackPicks([pagingPick]) === null, "Well-formed picks pass validation");
+assert(validateFeedbackPicks(Array(301).fill(pagingPick)) !== null, "Too many picks per request are rejected");
+assert(validateFeedbackPicks([{ ...pagingPick, videoId: "../../etc" }]) !== null, "Non-YouTube video IDs are rejected");
+assert(validateFeedbackPicks([{ ...pagingPick, topic: "x".repeat(201) }]) !== null, "Overlong topics are rejected");
+assert(validateFeedbackPicks([{ ...pagingPick, features: { ...pickFeatures!, features: Array(65).fill("clickbait") } }]) !== null, "Oversized feature lists are rejected");
+assert(validateFeedbackPicks([{ ...pagingPick, features: { ...pickFeatures!, features: ["x".repeat(201)] } }]) !== null, "Overlong feature IDs are rejected");
+
+const feedbackPath = join(mkdtempSync(join(tmpdir(), "feedback-")), "feedback.jsonl");
+createJsonlFeedbackLog(feedbackPath).append(feedbackLog.read());
+appendFileSync(feedbackPath, "not json\n");
+assert(createJsonlFeedbackLog(feedbackPath).read().length === 1, "JSONL feedback log round-trips and skips bad lines");
+
+// Clickbait picks always get replaced, GitHub-linked ones always kept
+const feedbackEvent = (action: "keep" | "replace", features: string[]): RankingFeedbackEvent => ({
+    action, videoId: "v", topic: "t", scoringProfile: "stem_programming", densityScore: 0, features, loggedAt: "",
+});
+const feedbackEvents = [
+    ...Array.from({ length: 15 }, () => feedbackEvent("replace", ["clickbait", "mediumVideo"])),
+    ...Array.from({ length: 15 }, () => feedbackEvent("keep", [signalFeature("🔗 GitHub Link"), "mediumVideo"])),
+];
+const stem = getScoringProfile("stem_programming");
+const training = trainWeights(feedbackEvents, { previousVersion: 2 });
+const learnedStem = training.weights.profiles.stem_programming;
+assert(training.weights.version === 3, "Each training run writes the next version");
+assert(learnedStem.weights.clickbait! < stem.weights.clickbait, "Always-replaced clickbait gets a harsher penalty");
+assert(learnedStem.qualitySignals["🔗 GitHub Link"] > 50, "Always-kept GitHub links gain weight");
+assert(learnedStem.weights.offCategory === stem.weights.offCategory, "Rules without feedback keep their weight");
+assert(training.reports[0].logLossAfter < training.reports[0].logLossBefore, "Training lowers the log loss");
+assert(Object.keys(trainWeights(feedbackEvents.slice(0, 5)).weights.profiles).length === 0, "Profiles with too little feedback stay untrained");
+
+const learnedProfile = applyLearnedWeights(stem, learnedStem, 3);
+assert(learnedProfile.label.endsWith("(learned v3)"), "Learned profiles are labelled with their version");
+assert(calculateDensityScore(repoLecture, learnedProfile).score > calculateDensityScore(repoLecture, stem).score, "The scorer uses learned weights");
+
+// ─── Test 24: Hindi, Hinglish & Regional Languages ───
+console.log("\n📋 Test 24: Hindi, Hinglish & Regional Languages");
+
+assert(toUserPreferences({ language: "Hinglish" }).language === "hinglish", "'Hinglish' is its own language");
+assert(validatePreferences({ language: "tamil" }).language === "tamil", "Regional languages survive validation");
+assert(resolvePreferences({ ...defaultPrefs, language: "telugu" }).languageSuffix === "in Telugu", "Telugu has 'in Telugu' suffix");
+assert(toUserPreferences({ language: "Bangla" }).language === "bengali", "'Bangla' maps to bengali");
+
+assert(detectLanguage("स्टैक क्या है? डेटा स्ट्रक्चर").language === "hindi", "Devanagari title is Hindi");
+assert(detectLanguage("स्टॅक म्हणजे काय आहे").language === "marathi", "Marathi words in Devanagari are Marathi");
+assert(detectLanguage("ஸ்டாக் டேட்டா ஸ்ட்ரக்சர்").language === "tamil", "Tamil script is Tamil");
+assert(detectLanguage("Stack Data Structure in Telugu").language === "telugu", "A language named in the title counts");
+assert(detectLanguage("Stack kya hai? Sabse aasan explanation").language === "hinglish", "Romanized Hindi is Hinglish");
+assert(detectLanguage("Stack Data Structure", "Also available in Hindi and Tamil").language === "english", "Languages named in the description don't count");
+assert(matchesLanguage({ title: "Stacks in Hindi", description: "" }, "hinglish"), "Hinglish students accept Hindi videos");
+assert(!matchesLanguage({ title: "Stack Data Structure", description: "" }, "bengali"), "English videos don't pass for Bengali");
+assert(matchesLanguage({ title: "123", description: "" }, "tamil"), "Undetectable videos pass");
+
+const mixedPool = [
+    { title: "Stack Data Structure", description: "" },
+    { title: "স্ট্যাক ডেটা স্ট্রাকচার", description: "" },
+];
+assert(filterByLanguage(mixedPool, "bengali").length === 1, "Candidates in the student's language are preferred");
+assert(filterByLanguage(mixedPool.slice(0, 1), "tamil").length === 1, "Without any, every candidate is kept");
+
+assert(extractMeaning("stack kya hai in hindi").subjects.join(",") === "stack", "Hinglish filler and language names aren't subjects");
+assert(calculateDensityScore({ ...scrapedVideo, title: "Stack pakka aayega" }, undefined, "hinglish").flags.some(f => f.startsWith("⚠️ Clickbait")), "Hinglish clickbait phrases are penalised");
+assert(!calculateDensityScore({ ...scrapedVideo, title: "Stack pakka aayega" }).flags.some(f => f.startsWith("⚠️ Clickbait")), "Language clickbait applies only to that language");
+
+// ─── Test 25: Language Verification ──────────────────
+console.log("\n📋 Test 25: Language Verification");
+
+assert(detectLanguage("Stack Data Structure", "", "hi").source === "audio_track", "The YouTube audio language wins");
+assert(detectLanguage("Stack Data Structure", "", "ta-IN").language === "tamil", "Audio language region subtags are ignored");
+assert(detectLanguage("Introduction to Stacks", "Learn push and pop operations with examples").source === "ngram", "Latin text goes to the n-gram classifier");
+assert(detectLanguage("Stacks aur Queues samjho ek video mein").language === "hinglish", "The n-gram classifier spots Hinglish");
+assert(detectLanguage("Process Scheduling Algorithms explained").language === "english", "The n-gram classifier keeps English as English");
+assert(detectLanguage("स्टॅक म्हणजे काय").language === "marathi", "The n-gram classifier tells Marathi from Hindi");
+assert(detectLanguage("Lecture 7").confidence === 0.5, "Too little text is a low-confidence guess");
+assert(detectLanguage("123").language === null, "Text without letters is undetected");
+
+const hindiAudio = { title: "Stack Data Structure", description: "", defaultAudioLanguage: "hi" };
+const englishLecture = { title: "Stack Data Structure Explained", description: "Learn how the stack works with examples" };
+assert(verifyLanguage(hindiAudio, "hindi").score > 0.9, "A Hindi audio track scores high for Hindi students");
+assert(verifyLanguage(englishLecture, "hindi").score < 0.25, "An English lecture scores low for Hindi students");
+assert(verifyLanguage({ title: "Lecture 7", description: "" }, "hindi").score === 0.25, "A short Latin title is only a weak mismatch");
+assert(matchesLanguage({ title: "Lecture 7", description: "" }, "hindi"), "Lenient mode keeps weak mismatches");
+assert(!matchesLanguage({ title: "Lecture 7", description: "" }, "hindi", "strict"), "Strict mode wants a confident match");
+assert(filterByLanguage([englishLecture], "hindi", "strict").length === 0, "Strict mode can leave nothing");
+assert(filterByLanguage([englishLecture], "hindi").length === 1, "Lenient mode falls back to every candidate");
+
+const englishOnlyProvider: SearchProvider = {
+    name: "english-only",
+    async searchVideos(query) {
+        return [{
+            videoId: `eng-${query.length}`,
+            title: "Binary Heap Data Structure Explained",
+            description: "Learn how heaps work with insertion and deletion examples",
+            duration: { seconds: 900, timestamp: "15:00" },
+            views: 1000,
+            author: { name: "CS Academy" },
+        }];
+    },
+    async searchPlaylists() { return []; },
+    async getPlaylistVideos() { return []; },
+    async getVideoDetails() { return new Map(); },
+};
+const hindiModifiers = resolvePreferences({ ...getDefaultPreferences(), language: "hindi" });
+const languageOptions = { searchProvider: englishOnlyProvider, skipReranker: true, bypassCache: true };
+
+(async () => {
+    const lenient = await buildFromScratch(["Binary Heaps"], "Data Structures", hindiModifiers, languageOptions);
+    assert(lenient.entries.length === 1, "Lenient builds still fill the topic");
+    assert(lenient.entries[0].detectedLanguage?.language === "english", "Entries record the detected language");
+
+    const strict = await buildFromScratch(["Binary Heaps"], "Data Structures", hindiModifiers, { ...languageOptions, languageCheck: "strict" });
+    assert(strict.entries.length === 0 && strict.gapsFailed.includes("Binary Heaps"), "Strict builds leave the topic unfilled");
+})().catch(() => assert(false, "languageCheck builds"));
+
 // ─── Results ──────────────────────────────────────────
 // Wait for dynamic imports to resolve
 setTimeout(() => {
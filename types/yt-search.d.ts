@@ -1,5 +1,5 @@
 declare module "yt-search" {
-    interface VideoResult {
+    export interface VideoResult {
         videoId: string;
         title: string;
         description?: string;
@@ -9,13 +9,15 @@ declare module "yt-search" {
             timestamp: string;
         };
         views?: number;
+        thumbnail?: string;
+        image?: string;
         author?: {
             name?: string;
             url?: string;
         };
     }
 
-    interface PlaylistResult {
+    export interface PlaylistResult {
         listId: string;
         title: string;
         url: string;
@@ -26,17 +28,18 @@ declare module "yt-search" {
         videoCount?: number;
     }
 
-    interface PlaylistDetailResult {
+    export interface PlaylistDetailResult {
         videos: VideoResult[];
     }
 
-    interface SearchResult {
+    export interface SearchResult {
         videos: VideoResult[];
         playlists: PlaylistResult[];
     }
 
     function ytSearch(query: string): Promise<SearchResult>;
     function ytSearch(query: { listId: string }): Promise<PlaylistDetailResult>;
+    function ytSearch(query: { videoId: string }): Promise<VideoResult>;
     function ytSearch(query: string | { listId: string }): Promise<SearchResult | PlaylistDetailResult>;
 
     export default ytSearch;